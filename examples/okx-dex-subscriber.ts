@@ -2,55 +2,48 @@
  * okx-dex-subscriber.ts - OKX DEX Transaction Subscriber Example
  *
  * This example demonstrates subscribing to OKX DEX transactions and
- * processing the raw transaction data with proper debuffering for
- * human-readable output.
+ * reading them through the pool's decoded transaction view instead of the
+ * raw gRPC object.
  *
  * Features:
- * - Subscribes to OKX DEX program transactions
- * - Debuffers transaction data for readability
- * - Logs transaction signatures, metadata, and first few lines of data
+ * - Subscribes to OKX DEX program transactions with SubscriptionBuilder
+ * - Logs signers, instructions (named by the built-in decoders), SOL and
+ *   token balance changes
  * - Handles connection events and errors gracefully
  */
 
 import 'dotenv/config';
-import { GrpcPool, PoolConfig, PoolOptions, TransactionEvent, DuplicateEvent, EndpointEvent } from '../src';
-import bs58 from 'bs58';
+import {
+  GrpcPool,
+  PoolConfig,
+  PoolOptions,
+  SubscriptionBuilder,
+  InstructionDecoderRegistry,
+  DecodedInstruction,
+  CommitmentLevel,
+  TransactionEvent,
+  DuplicateEvent,
+  EndpointEvent
+} from '../src';
 
 /**
- * Recursively converts Buffer objects and Uint8Arrays to base58 strings
- * @param {any} obj - Object to process
- * @returns {any} Processed object with readable strings
+ * Shorten a base58 address for display
+ * @param {string} address - Base58 address
+ * @returns {string} First and last four characters
  */
-function debufferMessage(obj: any): any {
-  if (obj === null || obj === undefined) {
-    return obj;
-  }
-
-  // Handle Buffer objects (typical in older library versions or direct gRPC data)
-  if (obj.type === 'Buffer' && Array.isArray(obj.data)) {
-    return bs58.encode(new Uint8Array(obj.data));
-  }
-
-  // Handle Uint8Array (more common with newer gRPC/protobuf versions)
-  if (obj instanceof Uint8Array) {
-    return bs58.encode(obj);
-  }
-
-  // Handle arrays recursively
-  if (Array.isArray(obj)) {
-    return obj.map((item: any) => debufferMessage(item));
-  }
-
-  // Handle objects recursively
-  if (typeof obj === 'object') {
-    const debuffered: any = {};
-    for (const [key, value] of Object.entries(obj)) {
-      debuffered[key] = debufferMessage(value);
-    }
-    return debuffered;
-  }
+function short(address: string): string {
+  return `${address.slice(0, 4)}..${address.slice(-4)}`;
+}
 
-  return obj;
+/**
+ * Describe an instruction by its decoded name, or by program id when no decoder knows it
+ * @param {DecodedInstruction} instruction - Decoded instruction
+ * @returns {string} Display label
+ */
+function label(instruction: DecodedInstruction): string {
+  return instruction.parsed
+    ? `${instruction.parsed.program}.${instruction.parsed.type}`
+    : short(instruction.programId);
 }
 
 // Configuration
@@ -96,7 +89,8 @@ async function main() {
     maxCacheSize: 10000,
     initialRetryDelayMs: 500,
     maxRetryDelayMs: 30000,
-    retryBackoffFactor: 2
+    retryBackoffFactor: 2,
+    instructionDecoders: new InstructionDecoderRegistry() // Attach event.decoded with System/Token/ATA/Compute Budget instructions parsed
   };
 
   const pool = new GrpcPool(poolConfig, poolOptions);
@@ -116,37 +110,41 @@ async function main() {
     console.log(`🔗 Signature: ${event.signature}`);
     console.log(`📡 Source: ${event.source}`);
     
-    // Process and debuffer the raw transaction data
-    const debufferedData = debufferMessage(event.data);
-    
-    // Show transaction metadata if available
-    if (event.data.meta) {
-      console.log('\n📊 TRANSACTION METADATA:');
-      console.log(`   Error: ${event.data.meta.err ? 'Failed' : 'Success'}`);
-      console.log(`   Slot: ${event.data.slot || 'N/A'}`);
-      
-      // Show fee information if available
-      if (event.data.meta.fee !== undefined) {
-        console.log(`   Fee: ${event.data.meta.fee} lamports`);
-      }
-      
-      // Show account balances changes if available
-      if (event.data.meta.preBalances && event.data.meta.postBalances) {
-        const balanceChanges = event.data.meta.postBalances.length;
-        console.log(`   Account Changes: ${balanceChanges} accounts affected`);
-      }
+    const tx = event.decoded;
+    if (!tx) {
+      console.log('⚠️  Transaction could not be decoded');
+      return;
     }
-    
-    // Show first few lines of debuffered transaction data
-    console.log('\n📋 TRANSACTION DATA (First 10 lines):');
-    const dataLines = JSON.stringify(debufferedData, null, 2).split('\n');
-    const previewLines = dataLines.slice(0, 10);
-    previewLines.forEach((line, index) => {
-      console.log(`   ${String(index + 1).padStart(2, ' ')}: ${line}`);
+
+    console.log('\n📊 TRANSACTION METADATA:');
+    console.log(`   Status: ${tx.success ? 'Success' : 'Failed'}`);
+    console.log(`   Slot: ${tx.slot}`);
+    console.log(`   Fee: ${tx.fee} lamports`);
+    console.log(`   Compute units: ${tx.computeUnitsConsumed ?? 'N/A'}`);
+    console.log(`   Signers: ${tx.accountKeys.filter(key => key.signer).map(key => short(key.pubkey)).join(', ')}`);
+    console.log(`   Accounts: ${tx.accountKeys.length} (${tx.accountKeys.filter(key => key.source === 'lookup').length} from lookup tables)`);
+
+    console.log('\n📋 INSTRUCTIONS:');
+    tx.instructions.forEach((instruction, index) => {
+      console.log(`   ${index + 1}. ${label(instruction)} (${instruction.accounts.length} accounts, ${instruction.data.length} bytes)`);
+      instruction.innerInstructions.forEach(inner => {
+        console.log(`   ${'   '.repeat(inner.stackHeight - 1)}↳ ${label(inner)}`);
+      });
     });
-    
-    if (dataLines.length > 10) {
-      console.log(`   ... and ${dataLines.length - 10} more lines`);
+
+    if (tx.solBalanceChanges.length > 0) {
+      console.log('\n💰 SOL CHANGES:');
+      tx.solBalanceChanges.forEach(change => {
+        console.log(`   ${short(change.account)}: ${Number(change.change) / 1e9} SOL`);
+      });
+    }
+
+    if (tx.tokenBalanceChanges.length > 0) {
+      console.log('\n🪙 TOKEN CHANGES:');
+      tx.tokenBalanceChanges.forEach(change => {
+        const amount = Number(change.change) / 10 ** change.decimals;
+        console.log(`   ${short(change.owner)}: ${amount} of mint ${short(change.mint)}`);
+      });
     }
     
     console.log('\n' + '='.repeat(80));
@@ -187,28 +185,17 @@ async function main() {
 
     // Subscribe to OKX DEX transactions
     console.log(`🎯 Subscribing to OKX DEX program: ${OKX_DEX_PROGRAM}`);
-    await pool.subscribe({
-      accounts: {},
-      accountsDataSlice: [],
-      transactions: {
-        'okx_dex_txns': {
-          accountInclude: [OKX_DEX_PROGRAM],
-          accountExclude: [],
-          accountRequired: [],
-          vote: false,
-          failed: false
-        }
-      },
-      slots: {},
-      transactionsStatus: {},
-      blocks: {},
-      blocksMeta: {},
-      entry: {},
-      commitment: 'confirmed'
-    });
+    await pool.subscribe(
+      SubscriptionBuilder.transactions('okx_dex_txns')
+        .include(OKX_DEX_PROGRAM)
+        .excludeVotes()
+        .excludeFailed()
+        .commitment(CommitmentLevel.CONFIRMED)
+        .build()
+    );
 
     console.log('✅ OKX DEX subscription active!');
-    console.log('📈 Will display transaction details with debuffered data');
+    console.log('📈 Will display decoded transaction details');
     console.log('Press Ctrl+C to exit gracefully\n');
 
     // Show periodic statistics
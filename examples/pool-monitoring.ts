@@ -97,7 +97,11 @@ async function main() {
   pool.on('endpoint', (event: EndpointEvent) => {
     const timestamp = new Date(event.timestamp).toISOString();
     const endpointLabel = event.endpoint; // full URL
-    clientStates.set(event.clientId, event.status !== 'disconnected');
+    if (event.status === 'removed') {
+      clientStates.delete(event.clientId);
+    } else {
+      clientStates.set(event.clientId, event.status === 'connected' || event.status === 'reconnected');
+    }
     clientEndpoint.set(event.clientId, event.endpoint);
     
     // Count connection events per client (use '::' to avoid '-' in clientId)
@@ -0,0 +1,165 @@
+/**
+ * Manual Jest mock of @triton-one/yellowstone-grpc
+ *
+ * Replaces the Yellowstone client with in-memory duplex streams so pools and
+ * clients can be driven without a network. Tests reach the fakes with
+ * `jest.requireMock('@triton-one/yellowstone-grpc')`.
+ */
+
+import { EventEmitter } from 'events';
+
+/**
+ * In-memory subscribe stream recording every request written to it
+ */
+export class FakeStream extends EventEmitter {
+  readonly writes: any[] = [];
+  paused: boolean = false;
+  ended: boolean = false;
+  destroyed: boolean = false;
+
+  write(request: any, callback?: (error?: Error | null) => void): boolean {
+    this.writes.push(request);
+    callback?.(null);
+    return true;
+  }
+
+  pause(): this {
+    this.paused = true;
+    return this;
+  }
+
+  resume(): this {
+    this.paused = false;
+    return this;
+  }
+
+  end(): this {
+    this.ended = true;
+    return this;
+  }
+
+  destroy(): this {
+    this.destroyed = true;
+    return this;
+  }
+
+  /**
+   * Subscription requests written so far, without pings
+   */
+  get requests(): any[] {
+    return this.writes.filter(request => !request.ping);
+  }
+
+  /**
+   * Most recent subscription request
+   */
+  get lastRequest(): any {
+    const requests = this.requests;
+    return requests[requests.length - 1];
+  }
+
+  /**
+   * Ids of the pings written so far
+   */
+  get pings(): number[] {
+    return this.writes.filter(request => request.ping).map(request => request.ping.id);
+  }
+
+  /**
+   * Deliver an update from the server
+   */
+  push(update: any): void {
+    this.emit('data', update);
+  }
+
+  /**
+   * Fail the stream like a gRPC status error
+   */
+  fail(error: Error): void {
+    this.emit('error', error);
+  }
+
+  /**
+   * End the stream from the server side
+   */
+  finish(): void {
+    this.emit('end');
+  }
+}
+
+/**
+ * Stand-in for the Yellowstone Client, one per GrpcClient connection setup
+ */
+export default class Client {
+  /** Every client created since the last reset(), in creation order */
+  static instances: Client[] = [];
+
+  /** Endpoints whose subscribe() rejects, with the error it rejects with */
+  static failures: Map<string, Error> = new Map();
+
+  readonly endpoint: string;
+  readonly token: string | undefined;
+  readonly streams: FakeStream[] = [];
+  subscribeAttempts: number = 0;
+  channelClosed: boolean = false;
+  readonly _client = {
+    close: (): void => {
+      this.channelClosed = true;
+    }
+  };
+
+  constructor(endpoint: string, xToken: string | undefined, _channelOptions: unknown) {
+    this.endpoint = endpoint;
+    this.token = xToken;
+    Client.instances.push(this);
+  }
+
+  async subscribe(): Promise<FakeStream> {
+    this.subscribeAttempts++;
+    const failure = Client.failures.get(this.endpoint);
+    if (failure) {
+      throw failure;
+    }
+
+    const stream = new FakeStream();
+    this.streams.push(stream);
+    return stream;
+  }
+
+  /**
+   * Most recent stream opened by this client
+   */
+  get stream(): FakeStream {
+    const stream = this.streams[this.streams.length - 1];
+    if (!stream) {
+      throw new Error(`No stream opened for ${this.endpoint}`);
+    }
+    return stream;
+  }
+
+  /**
+   * Most recently created client for an endpoint
+   */
+  static forEndpoint(endpoint: string): Client {
+    const client = Client.instances.filter(instance => instance.endpoint === endpoint).pop();
+    if (!client) {
+      throw new Error(`No client created for ${endpoint}`);
+    }
+    return client;
+  }
+
+  /**
+   * Forget all clients and failures between tests
+   */
+  static reset(): void {
+    Client.instances = [];
+    Client.failures = new Map();
+  }
+}
+
+/**
+ * gRPC status error as raised by grpc-js
+ */
+export function grpcError(code: number, message: string = `gRPC status ${code}`): Error {
+  return Object.assign(new Error(message), { code });
+}
@@ -9,6 +9,8 @@
  * @version 1.1.2
  */
 
+import type { SubscribeRequest } from './types';
+
 /**
  * Solana commitment levels for transaction confirmation
  *
@@ -20,6 +22,36 @@ export enum CommitmentLevel {
   FINALIZED = 'finalized'
 }
 
+/**
+ * Slot status reported by slot updates
+ *
+ * Mirrors Yellowstone's SlotStatus enum with readable values.
+ *
+ * @enum SlotStatus
+ */
+export enum SlotStatus {
+  PROCESSED = 'processed',
+  CONFIRMED = 'confirmed',
+  FINALIZED = 'finalized',
+  FIRST_SHRED_RECEIVED = 'first_shred_received',
+  COMPLETED = 'completed',
+  CREATED_BANK = 'created_bank',
+  DEAD = 'dead'
+}
+
+/**
+ * Yellowstone wire values for SlotStatus, indexed by protobuf enum number
+ */
+export const SLOT_STATUS_BY_WIRE_VALUE: readonly SlotStatus[] = [
+  SlotStatus.PROCESSED,
+  SlotStatus.CONFIRMED,
+  SlotStatus.FINALIZED,
+  SlotStatus.FIRST_SHRED_RECEIVED,
+  SlotStatus.COMPLETED,
+  SlotStatus.CREATED_BANK,
+  SlotStatus.DEAD
+];
+
 /**
  * Default configuration values
  */
@@ -30,15 +62,45 @@ export const DEFAULT_CONFIG = {
   /** Time to live for deduplication cache entries (1 minute in milliseconds) */
   DEDUP_TTL_MS: 60 * 1000,
   
+  /** Target false-positive rate of the approximate deduplication mode */
+  DEDUP_FALSE_POSITIVE_RATE: 0.0001,
+  
+  /** Interval between deduplication snapshot saves in milliseconds (30 seconds) */
+  DEDUP_SNAPSHOT_INTERVAL_MS: 30 * 1000,
+  
   /** Default connection timeout in milliseconds */
   CONNECTION_TIMEOUT_MS: 5000,
   
   /** Default ping interval in milliseconds */
   PING_INTERVAL_MS: 30000,
   
+  /** How long a ping may go unanswered before the endpoint is reconnected (20 seconds) */
+  PONG_TIMEOUT_MS: 20 * 1000,
+  
+  /** Number of recent ping round trips kept per endpoint */
+  PING_RTT_HISTORY_SIZE: 60,
+  
   /** Stale connection detection timeout in milliseconds (2 minutes) */
   STALE_CONNECTION_TIMEOUT_MS: 2 * 60 * 1000,
   
+  /** Slots an endpoint may fall behind the most advanced endpoint before it is stale (about 40 seconds) */
+  MAX_SLOT_LAG: 100,
+  
+  /** Period endpoint health scores cover (5 minutes) */
+  HEALTH_WINDOW_MS: 5 * 60 * 1000,
+  
+  /** Interval between endpoint health evaluations (5 seconds) */
+  HEALTH_CHECK_INTERVAL_MS: 5 * 1000,
+  
+  /** Health score below which an endpoint is quarantined */
+  QUARANTINE_THRESHOLD: 30,
+  
+  /** First quarantine period, doubled after each failed probe (1 minute) */
+  QUARANTINE_DURATION_MS: 60 * 1000,
+  
+  /** How long a probed endpoint must stay healthy to leave quarantine (30 seconds) */
+  PROBE_DURATION_MS: 30 * 1000,
+  
   /** Fraction of stale timeout to use for check interval (1/10th) */
   STALE_CHECK_FRACTION: 0.1,
   
@@ -57,10 +119,66 @@ export const DEFAULT_CONFIG = {
   /** Retry backoff multiplier (factor of 2) */
   RETRY_BACKOFF_FACTOR: 2,
   
+  /** Retry delay multiplier after a rate-limited (RESOURCE_EXHAUSTED) error */
+  RATE_LIMIT_BACKOFF_MULTIPLIER: 4,
+  
   /** Default commitment level for subscriptions */
-  DEFAULT_COMMITMENT: CommitmentLevel.CONFIRMED
+  DEFAULT_COMMITMENT: CommitmentLevel.CONFIRMED,
+  
+  /** How long a signature is tracked for status transitions (2 minutes, past blockhash expiry) */
+  TRANSACTION_STATUS_TTL_MS: 2 * 60 * 1000,
+  
+  /** Number of slots behind the last finalized slot to keep slot statuses for */
+  SLOT_STATUS_RETENTION: 512,
+  
+  /** Default number of events an output stream buffers before its overflow policy applies */
+  OUTPUT_HIGH_WATER_MARK: 1000,
+  
+  /** How long other endpoints have to deliver a signature before it counts as missed (10 seconds) */
+  LATENCY_WINDOW_MS: 10 * 1000,
+  
+  /** Number of recent lag samples kept per endpoint for percentiles */
+  LATENCY_SAMPLE_SIZE: 1000,
+  
+  /** Interval between 'latency-report' events in milliseconds (1 minute) */
+  LATENCY_REPORT_INTERVAL_MS: 60 * 1000,
+  
+  /** How long the active endpoint may stay disconnected before a backup is promoted (5 seconds) */
+  PROMOTION_WINDOW_MS: 5 * 1000,
+  
+  /** How long other endpoints have to report a transaction before it fails the quorum (10 seconds) */
+  QUORUM_WINDOW_MS: 10 * 1000
 } as const;
 
+/**
+ * Subscription request with every filter map empty
+ *
+ * Written to endpoints that should stay connected without streaming data.
+ */
+export const EMPTY_SUBSCRIBE_REQUEST: Readonly<SubscribeRequest> = {
+  accounts: {},
+  accountsDataSlice: [],
+  transactions: {},
+  slots: {},
+  transactionsStatus: {},
+  blocks: {},
+  blocksMeta: {},
+  entry: {}
+};
+
+/**
+ * Prefix for subscription filters the pool adds on its own behalf
+ *
+ * Updates matching only internal filters are consumed by the pool and
+ * never emitted to the user.
+ */
+export const INTERNAL_FILTER_PREFIX = '__pool_';
+
+/**
+ * Internal slot filter used as a heartbeat and to follow slot commitment progress
+ */
+export const INTERNAL_SLOT_FILTER = `${INTERNAL_FILTER_PREFIX}slots`;
+
 /**
  * Known Solana gRPC endpoints for different providers
  */
@@ -10,15 +10,100 @@
  */
 
 export { GrpcPool } from './lib/pool';
+export { renderOpenMetrics, createMetricsHandler, OPENMETRICS_CONTENT_TYPE } from './lib/metrics';
+export { PoolLogger, LogLevel, LogFields, createConsoleLogger, noopLogger } from './lib/logger';
+export { DeduplicationService } from './lib/deduplication';
+export { BloomDeduplicationStore } from './lib/bloom';
+export { RedisDeduplicationStore, RedisSetClient } from './lib/redis-store';
+export { EndpointError, SubscriptionValidationError, classifyError, GrpcStatus } from './lib/errors';
+export {
+  SubscriptionBuilder,
+  TransactionFilterBuilder,
+  AccountFilterBuilder,
+  SlotFilterBuilder,
+  BlockFilterBuilder,
+  BlockMetaFilterBuilder,
+  EntryFilterBuilder,
+  U64Input
+} from './lib/subscription-builder';
+export { validateSubscribeRequest } from './lib/request';
+export { decodeTransaction } from './lib/transaction';
+export {
+  InstructionDecoderRegistry,
+  InstructionDataReader,
+  nameAccounts,
+  ProgramId,
+  systemProgramDecoder,
+  splTokenDecoder,
+  token2022Decoder,
+  associatedTokenDecoder,
+  computeBudgetDecoder
+} from './lib/instructions';
+export { createAnchorDecoder } from './lib/anchor';
 export { 
   PoolConfig, 
   PoolOptions, 
   PoolEndpoint, 
   SubscribeRequest, 
+  SubscribeOptions,
+  OutputStreamOptions,
+  OverflowPolicy,
+  SubscriptionCommitment,
+  SubscriptionLimits,
   TransactionFilter, 
   AccountFilter,
+  AccountFilterCondition,
+  MemcmpFilter,
+  LamportsFilter,
+  SlotFilter,
+  BlockFilter,
+  BlockMetaFilter,
+  EntryFilter,
+  AccountsDataSlice,
   TransactionEvent,
+  DecodedTransaction,
+  TransactionAccountKey,
+  DecodedInstruction,
+  SolBalanceChange,
+  TokenBalanceChange,
+  ParsedInstruction,
+  InstructionDecoder,
+  AnchorIdl,
+  AnchorIdlInstruction,
+  AnchorIdlAccountItem,
+  AnchorIdlField,
+  AnchorIdlType,
+  AnchorIdlTypeDef,
+  AccountEvent,
+  SlotEvent,
+  BlockEvent,
+  BlockMetaEvent,
+  TransactionStatusEvent,
+  TransactionLifecycleStatus,
   DuplicateEvent,
+  EndpointLatencyStats,
+  LatencyReportEvent,
+  EndpointMetrics,
+  PoolMetrics,
+  DeduplicationStore,
+  DeduplicationStats,
+  DeduplicationMode,
+  DeduplicationSnapshot,
+  GapEvent,
+  GapReason,
+  EndpointStatus,
+  StaleReason,
+  StaleEvent,
+  EndpointHealthState,
+  RetryJitter,
+  EndpointErrorCategory,
+  EndpointFailureReason,
+  EndpointFailure,
+  FailoverMode,
+  BackupSubscription,
+  FailoverReason,
+  FailoverEvent,
+  QuorumStats,
   EndpointEvent
 } from './types';
-export { CommitmentLevel, DEFAULT_CONFIG } from './constants'; 
\ No newline at end of file
+export { CommitmentLevel, SlotStatus, DEFAULT_CONFIG } from './constants'; 
\ No newline at end of file
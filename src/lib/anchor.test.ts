@@ -0,0 +1,163 @@
+import { describe, it, expect } from '@jest/globals';
+import { createHash } from 'crypto';
+import bs58 from 'bs58';
+import { createAnchorDecoder } from './anchor';
+import { AnchorIdl } from '../types';
+
+const pubkey = (fill: number): string => bs58.encode(Buffer.alloc(32, fill));
+const PROGRAM_ID = pubkey(99);
+
+const u8 = (value: number): Buffer => Buffer.from([value]);
+const u32 = (value: number): Buffer => {
+  const bytes = Buffer.alloc(4);
+  bytes.writeUInt32LE(value);
+  return bytes;
+};
+const u64 = (value: bigint): Buffer => {
+  const bytes = Buffer.alloc(8);
+  bytes.writeBigUInt64LE(value);
+  return bytes;
+};
+const i64 = (value: bigint): Buffer => {
+  const bytes = Buffer.alloc(8);
+  bytes.writeBigInt64LE(value);
+  return bytes;
+};
+const string = (value: string): Buffer => Buffer.concat([u32(Buffer.byteLength(value)), Buffer.from(value)]);
+
+/**
+ * IDL as produced before Anchor 0.30: camelCase names, discriminators derived from them
+ */
+const legacyIdl: AnchorIdl = {
+  version: '0.1.0',
+  name: 'pools',
+  metadata: { address: PROGRAM_ID },
+  instructions: [{
+    name: 'initializePool',
+    accounts: [
+      { name: 'pool', isMut: true, isSigner: false },
+      { name: 'common', accounts: [{ name: 'payer', isMut: true, isSigner: true }, { name: 'systemProgram', isMut: false, isSigner: false }] }
+    ],
+    args: [
+      { name: 'amount', type: 'u64' },
+      { name: 'label', type: 'string' },
+      { name: 'admin', type: { option: 'publicKey' } },
+      { name: 'params', type: { defined: 'Params' } }
+    ]
+  }],
+  types: [
+    { name: 'Params', type: { kind: 'struct', fields: [{ name: 'fees', type: { vec: 'u16' } }, { name: 'seed', type: { array: ['u8', 4] } }] } }
+  ]
+};
+
+/**
+ * IDL in the Anchor 0.30+ format: explicit discriminators and `{ defined: { name } }` references
+ */
+const modernIdl: AnchorIdl = {
+  address: PROGRAM_ID,
+  metadata: { name: 'orders', version: '0.1.0', spec: '0.1.0' },
+  instructions: [{
+    name: 'place_order',
+    discriminator: [1, 2, 3, 4, 5, 6, 7, 8],
+    accounts: [{ name: 'owner', signer: true }, { name: 'market', writable: true }],
+    args: [
+      { name: 'side', type: { defined: { name: 'Side' } } },
+      { name: 'price', type: { defined: { name: 'Price' } } },
+      { name: 'expiry', type: { coption: 'i64' } },
+      { name: 'referrer', type: { option: 'pubkey' } },
+      { name: 'levels', type: { array: ['u32', 2] } }
+    ]
+  }],
+  types: [
+    {
+      name: 'Side',
+      type: { kind: 'enum', variants: [{ name: 'Bid' }, { name: 'Ask', fields: [{ name: 'postOnly', type: 'bool' }] }, { name: 'Pair', fields: ['u8', 'u8'] }] }
+    },
+    { name: 'Price', type: { kind: 'type', alias: 'u128' } }
+  ]
+};
+
+describe('createAnchorDecoder', () => {
+  it('decodes legacy IDLs by the discriminator derived from the snake_case name', () => {
+    const decoder = createAnchorDecoder(legacyIdl);
+    const discriminator = createHash('sha256').update('global:initialize_pool').digest().subarray(0, 8);
+    const data = Buffer.concat([
+      discriminator,
+      u64(BigInt('18446744073709551615')),
+      string('main'),
+      u8(1), Buffer.alloc(32, 7),
+      u32(2), Buffer.from([30, 0, 100, 0]),
+      Buffer.from([0xde, 0xad, 0xbe, 0xef])
+    ]);
+
+    expect(decoder.programId).toBe(PROGRAM_ID);
+    expect(decoder.program).toBe('pools');
+    expect(decoder.decode(data, [pubkey(1), pubkey(2), pubkey(3)])).toEqual({
+      type: 'initializePool',
+      accounts: { pool: pubkey(1), 'common.payer': pubkey(2), 'common.systemProgram': pubkey(3) },
+      args: {
+        amount: '18446744073709551615',
+        label: 'main',
+        admin: pubkey(7),
+        params: { fees: [30, 100], seed: Buffer.from([0xde, 0xad, 0xbe, 0xef]) }
+      }
+    });
+  });
+
+  it('decodes current IDLs with explicit discriminators, enums and aliases', () => {
+    const decoder = createAnchorDecoder(modernIdl);
+    const data = Buffer.concat([
+      Buffer.from([1, 2, 3, 4, 5, 6, 7, 8]),
+      u8(1), u8(1),
+      u64(BigInt(5)), u64(BigInt(1)),
+      u32(1), i64(BigInt(-60)),
+      u8(0),
+      u32(10), u32(20)
+    ]);
+
+    expect(decoder.program).toBe('orders');
+    expect(decoder.decode(data, [pubkey(1), pubkey(2)])).toEqual({
+      type: 'place_order',
+      accounts: { owner: pubkey(1), market: pubkey(2) },
+      args: {
+        side: { Ask: { postOnly: true } },
+        price: ((BigInt(1) << BigInt(64)) + BigInt(5)).toString(),
+        expiry: '-60',
+        referrer: null,
+        levels: [10, 20]
+      }
+    });
+  });
+
+  it('decodes unit and tuple enum variants', () => {
+    const decoder = createAnchorDecoder(modernIdl);
+    const rest = Buffer.concat([u64(BigInt(0)), u64(BigInt(0)), u32(0), u8(0), u32(0), u32(0)]);
+
+    const bid = decoder.decode(Buffer.concat([Buffer.from([1, 2, 3, 4, 5, 6, 7, 8]), u8(0), rest]), []);
+    expect(bid?.args.side).toEqual({ Bid: {} });
+
+    const pair = decoder.decode(Buffer.concat([Buffer.from([1, 2, 3, 4, 5, 6, 7, 8]), u8(2), u8(3), u8(4), rest]), []);
+    expect(pair?.args.side).toEqual({ Pair: [3, 4] });
+  });
+
+  it('returns null for data without a known discriminator', () => {
+    const decoder = createAnchorDecoder(modernIdl);
+    expect(decoder.decode(Buffer.from([8, 7, 6, 5, 4, 3, 2, 1]), [])).toBeNull();
+    expect(decoder.decode(Buffer.alloc(0), [])).toBeNull();
+  });
+
+  it('throws on truncated data and invalid enum variants', () => {
+    const decoder = createAnchorDecoder(modernIdl);
+    expect(() => decoder.decode(Buffer.from([1, 2, 3, 4, 5, 6, 7, 8, 1]), [])).toThrow(RangeError);
+    expect(() => decoder.decode(Buffer.from([1, 2, 3, 4, 5, 6, 7, 8, 9]), [])).toThrow('Invalid variant 9 of Anchor enum Side');
+  });
+
+  it('takes the program id and name from the options', () => {
+    const { address, ...withoutAddress } = modernIdl;
+    expect(() => createAnchorDecoder(withoutAddress)).toThrow('Anchor IDL has no program address');
+
+    const decoder = createAnchorDecoder(withoutAddress, { programId: pubkey(50), program: 'my-orders' });
+    expect(decoder.programId).toBe(pubkey(50));
+    expect(decoder.program).toBe('my-orders');
+  });
+});
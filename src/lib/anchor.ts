@@ -0,0 +1,200 @@
+/**
+ * lib/anchor.ts - Anchor IDL instruction decoder
+ *
+ * Builds an InstructionDecoder from an Anchor IDL: instructions are matched
+ * by their 8-byte discriminator and their borsh-encoded arguments decoded
+ * using the IDL's types. Accepts both the current IDL format and the legacy
+ * one produced before Anchor 0.30.
+ *
+ * @module lib/anchor
+ * @author StalkChain Team
+ * @version 1.1.2
+ */
+
+import { createHash } from 'crypto';
+import {
+  AnchorIdl,
+  AnchorIdlInstruction,
+  AnchorIdlAccountItem,
+  AnchorIdlField,
+  AnchorIdlType,
+  AnchorIdlTypeDef,
+  InstructionDecoder
+} from '../types';
+import { InstructionDataReader, nameAccounts } from './instructions';
+
+/**
+ * IDL instruction prepared for decoding
+ */
+interface AnchorInstructionLayout {
+  name: string;
+  accounts: string[];
+  args: AnchorIdlField[];
+}
+
+/**
+ * Create a decoder for the instructions of an Anchor program
+ *
+ * Accounts of nested Accounts structs are named `<group>.<account>`.
+ * Integers of 64 bits and more are decoded as decimal strings, enums as
+ * `{ VariantName: fields }` like the Anchor TypeScript client.
+ *
+ * @param idl - The program's IDL
+ * @param options - Program id when the IDL does not contain it, and the program name to report (default: the IDL's name)
+ * @throws Error when no program id is given or found in the IDL
+ */
+export function createAnchorDecoder(idl: AnchorIdl, options: { programId?: string; program?: string } = {}): InstructionDecoder {
+  const programId = options.programId ?? idl.address ?? idl.metadata?.address;
+  if (!programId) {
+    throw new Error('Anchor IDL has no program address, pass options.programId');
+  }
+
+  const types = new Map<string, AnchorIdlTypeDef>((idl.types ?? []).map(typeDef => [typeDef.name, typeDef]));
+  const layouts = new Map<string, AnchorInstructionLayout>();
+  for (const instruction of idl.instructions) {
+    layouts.set(instructionDiscriminator(instruction).toString('hex'), {
+      name: instruction.name,
+      accounts: flattenAccounts(instruction.accounts),
+      args: instruction.args
+    });
+  }
+
+  return {
+    programId,
+    program: options.program ?? idl.metadata?.name ?? idl.name ?? 'anchor',
+    decode(data, accounts) {
+      const layout = layouts.get(data.subarray(0, 8).toString('hex'));
+      if (!layout) return null;
+
+      const reader = new InstructionDataReader(data.subarray(8));
+      const args: Record<string, unknown> = {};
+      for (const arg of layout.args) {
+        args[arg.name] = readType(reader, arg.type, types);
+      }
+
+      return { type: layout.name, accounts: nameAccounts(layout.accounts, accounts), args };
+    }
+  };
+}
+
+/**
+ * Discriminator of an instruction: given by current IDLs, derived from the name for legacy ones
+ */
+function instructionDiscriminator(instruction: AnchorIdlInstruction): Buffer {
+  if (instruction.discriminator) {
+    return Buffer.from(instruction.discriminator);
+  }
+  return createHash('sha256').update(`global:${toSnakeCase(instruction.name)}`).digest().subarray(0, 8);
+}
+
+/**
+ * Convert a legacy camelCase instruction name to the snake_case Anchor hashes
+ */
+function toSnakeCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+}
+
+/**
+ * Flatten nested account groups into positional account names
+ */
+function flattenAccounts(items: AnchorIdlAccountItem[], prefix: string = ''): string[] {
+  return items.flatMap(item => item.accounts
+    ? flattenAccounts(item.accounts, `${prefix}${item.name}.`)
+    : [`${prefix}${item.name}`]);
+}
+
+/**
+ * Read one borsh value of an IDL type
+ *
+ * @throws Error for types the IDL does not define or that cannot be decoded (generics)
+ */
+function readType(reader: InstructionDataReader, type: AnchorIdlType, types: Map<string, AnchorIdlTypeDef>): unknown {
+  if (typeof type === 'string') {
+    switch (type) {
+      case 'bool': return reader.bool();
+      case 'u8': return reader.u8();
+      case 'i8': return reader.i8();
+      case 'u16': return reader.u16();
+      case 'i16': return reader.i16();
+      case 'u32': return reader.u32();
+      case 'i32': return reader.i32();
+      case 'f32': return reader.f32();
+      case 'f64': return reader.f64();
+      case 'u64': return reader.u64();
+      case 'i64': return reader.i64();
+      case 'u128': return reader.u128();
+      case 'i128': return reader.i128();
+      case 'string': return reader.string();
+      case 'bytes': return reader.bytes(reader.u32());
+      case 'pubkey':
+      case 'publicKey': return reader.pubkey();
+      default: throw new Error(`Unsupported Anchor type: ${type}`);
+    }
+  }
+
+  if ('vec' in type) {
+    const length = reader.u32();
+    return Array.from({ length }, () => readType(reader, type.vec, types));
+  }
+  if ('option' in type) {
+    return reader.u8() === 0 ? null : readType(reader, type.option, types);
+  }
+  if ('coption' in type) {
+    return reader.u32() === 0 ? null : readType(reader, type.coption, types);
+  }
+  if ('array' in type) {
+    const [elementType, length] = type.array;
+    if (elementType === 'u8') return reader.bytes(length);
+    return Array.from({ length }, () => readType(reader, elementType, types));
+  }
+
+  const name = typeof type.defined === 'string' ? type.defined : type.defined.name;
+  const typeDef = types.get(name);
+  if (!typeDef || typeDef.generics?.length) {
+    throw new Error(`Unsupported Anchor type: ${name}`);
+  }
+
+  switch (typeDef.type.kind) {
+    case 'struct':
+      return readFields(reader, typeDef.type.fields ?? [], types);
+    case 'enum': {
+      const index = reader.u8();
+      const variant = typeDef.type.variants[index];
+      if (!variant) {
+        throw new Error(`Invalid variant ${index} of Anchor enum ${name}`);
+      }
+      return { [variant.name]: readFields(reader, variant.fields ?? [], types) };
+    }
+    case 'type':
+      return readType(reader, typeDef.type.alias, types);
+  }
+}
+
+/**
+ * Read struct or enum variant fields: an object for named fields, an array for tuple fields
+ */
+function readFields(
+  reader: InstructionDataReader,
+  fields: AnchorIdlField[] | AnchorIdlType[],
+  types: Map<string, AnchorIdlTypeDef>
+): Record<string, unknown> | unknown[] {
+  if (fields.length === 0) return {};
+
+  if (isNamedFields(fields)) {
+    const values: Record<string, unknown> = {};
+    for (const field of fields) {
+      values[field.name] = readType(reader, field.type, types);
+    }
+    return values;
+  }
+
+  return fields.map(fieldType => readType(reader, fieldType, types));
+}
+
+/**
+ * Whether fields are named fields rather than tuple types
+ */
+function isNamedFields(fields: AnchorIdlField[] | AnchorIdlType[]): fields is AnchorIdlField[] {
+  const first = fields[0];
+  return typeof first === 'object' && first !== null && 'name' in first && 'type' in first;
+}
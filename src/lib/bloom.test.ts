@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { BloomDeduplicationStore } from './bloom';
+
+describe('BloomDeduplicationStore', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('flags a key seen before as a duplicate', () => {
+    const store = new BloomDeduplicationStore({ deduplicationTtlMs: 1000 });
+    expect(store.checkAndSet('a')).toBe(false);
+    expect(store.checkAndSet('a')).toBe(true);
+    expect(store.checkAndSetMany(['a', 'b', 'b'])).toEqual([true, false, true]);
+  });
+
+  it('remembers a key for at least one TTL and at most two', () => {
+    const store = new BloomDeduplicationStore({ deduplicationTtlMs: 1000 });
+    store.checkAndSet('a');
+
+    // First rotation moves 'a' into the previous filter
+    jest.advanceTimersByTime(1000);
+    expect(store.checkAndSet('a')).toBe(true);
+    expect(store.getStats().size).toBe(1);
+
+    // Second rotation drops it
+    jest.advanceTimersByTime(1000);
+    expect(store.getStats().size).toBe(0);
+    expect(store.checkAndSet('a')).toBe(false);
+  });
+
+  it('keeps a key re-seen in the previous filter only until that filter rotates out', () => {
+    const store = new BloomDeduplicationStore({ deduplicationTtlMs: 1000 });
+    store.checkAndSet('a');
+    jest.advanceTimersByTime(1500);
+
+    // A hit in the previous filter is not re-added to the current one
+    expect(store.checkAndSet('a')).toBe(true);
+    jest.advanceTimersByTime(1000);
+    expect(store.checkAndSet('a')).toBe(false);
+  });
+
+  it('clears both filters when a whole window passed without use', () => {
+    const store = new BloomDeduplicationStore({ deduplicationTtlMs: 1000 });
+    store.checkAndSet('a');
+    jest.advanceTimersByTime(2000);
+
+    expect(store.checkAndSet('a')).toBe(false);
+    expect(store.getStats().size).toBe(1);
+  });
+
+  it('reports size, fill and an estimated false-positive rate', () => {
+    const store = new BloomDeduplicationStore({ maxCacheSize: 100, falsePositiveRate: 0.01 });
+    const empty = store.getStats();
+    expect(empty).toMatchObject({ size: 0, maxSize: 100, evictions: 0, fillRatio: 0, estimatedFalsePositiveRate: 0 });
+    expect(empty.estimatedBytes).toBeGreaterThan(0);
+
+    for (let i = 0; i < 100; i++) store.checkAndSet(`key-${i}`);
+    const full = store.getStats();
+    expect(full.size).toBeGreaterThan(95); // A few keys may collide as false positives
+    expect(full.fillRatio).toBeGreaterThan(0.3);
+    expect(full.fillRatio).toBeLessThan(0.7);
+    expect(full.estimatedFalsePositiveRate).toBeLessThan(0.01);
+  });
+
+  it('stays near the configured false-positive rate at capacity', () => {
+    const store = new BloomDeduplicationStore({ maxCacheSize: 10000, falsePositiveRate: 0.01 });
+    for (let i = 0; i < 10000; i++) store.checkAndSet(`seen-${i}`);
+
+    // Probes are added too, so keep them few enough not to overfill the filter
+    let falsePositives = 0;
+    for (let i = 0; i < 1000; i++) {
+      if (store.checkAndSet(`unseen-${i}`)) falsePositives++;
+    }
+    expect(falsePositives / 1000).toBeLessThan(0.01);
+  });
+
+  it('starts empty again after destroy()', () => {
+    const store = new BloomDeduplicationStore({ deduplicationTtlMs: 1000 });
+    store.checkAndSet('a');
+    store.destroy();
+
+    expect(store.checkAndSet('a')).toBe(false);
+    expect(store.checkAndSet('a')).toBe(true);
+  });
+
+  it('rejects a false-positive rate outside (0, 1)', () => {
+    expect(() => new BloomDeduplicationStore({ falsePositiveRate: 0 })).toThrow('Invalid falsePositiveRate');
+    expect(() => new BloomDeduplicationStore({ falsePositiveRate: 1 })).toThrow('Invalid falsePositiveRate');
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * lib/bloom.ts - Approximate deduplication with rotating Bloom filters
+ *
+ * Trades a small, configurable false-positive rate for far less memory than
+ * the exact cache: each key costs a handful of bits instead of a Map entry.
+ * Two filters rotate every TTL so keys are remembered for between one and
+ * two TTLs without ever deleting individual entries.
+ *
+ * @module lib/bloom
+ * @author StalkChain Team
+ * @version 1.1.2
+ */
+
+import { DEFAULT_CONFIG } from '../constants';
+import { DeduplicationStore, DeduplicationStats } from '../types';
+
+/**
+ * Fixed-size Bloom filter over string keys
+ */
+class BloomFilter {
+  readonly bitCount: number;
+  readonly hashCount: number;
+  private bits: Uint32Array;
+  private setBits: number = 0;
+
+  constructor(bitCount: number, hashCount: number) {
+    this.bitCount = bitCount;
+    this.hashCount = hashCount;
+    this.bits = new Uint32Array(Math.ceil(bitCount / 32));
+  }
+
+  /**
+   * Check whether a key may have been added
+   */
+  has(h1: number, h2: number): boolean {
+    for (let i = 0; i < this.hashCount; i++) {
+      const bit = this.bitIndex(h1, h2, i);
+      if (((this.bits[bit >>> 5] as number) & (1 << (bit & 31))) === 0) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Add a key
+   */
+  add(h1: number, h2: number): void {
+    for (let i = 0; i < this.hashCount; i++) {
+      const bit = this.bitIndex(h1, h2, i);
+      const word = bit >>> 5;
+      const mask = 1 << (bit & 31);
+      const current = this.bits[word] as number;
+      if ((current & mask) === 0) {
+        this.bits[word] = current | mask;
+        this.setBits++;
+      }
+    }
+  }
+
+  /**
+   * Fraction of bits set (0 to 1)
+   */
+  fill(): number {
+    return this.setBits / this.bitCount;
+  }
+
+  /**
+   * Memory held by the bit array in bytes
+   */
+  byteLength(): number {
+    return this.bits.byteLength;
+  }
+
+  /**
+   * Double hashing: derive the i-th bit position from two base hashes
+   */
+  private bitIndex(h1: number, h2: number, i: number): number {
+    return ((h1 + Math.imul(i, h2)) >>> 0) % this.bitCount;
+  }
+}
+
+/**
+ * Approximate deduplication store using two time-rotated Bloom filters
+ *
+ * Keys are added to the current filter and looked up in both. Every TTL the
+ * current filter becomes the previous one and a fresh filter takes its place,
+ * so a key is remembered for at least one TTL and at most two. Filters are
+ * sized so the two together stay near the configured false-positive rate while
+ * each holds up to `capacity` keys. A false positive drops a unique update as
+ * a duplicate; filling beyond capacity raises the rate, which getStats()
+ * reports.
+ */
+export class BloomDeduplicationStore implements DeduplicationStore {
+  private current: BloomFilter;
+  private previous: BloomFilter;
+  private rotatedAt: number;
+  private added: number = 0;         // Keys added to the current filter
+  private addedPrevious: number = 0; // Keys added to the previous filter
+  private config: {
+    ttlMs: number;
+    capacity: number;
+    falsePositiveRate: number;
+    bitCount: number;
+    hashCount: number;
+  };
+
+  /**
+   * @param options.deduplicationTtlMs - Minimum time a key is remembered (default: 60000)
+   * @param options.maxCacheSize - Expected keys per TTL window (default: 10000)
+   * @param options.falsePositiveRate - Target false-positive rate (default: 0.0001)
+   */
+  constructor(options?: { deduplicationTtlMs?: number; maxCacheSize?: number; falsePositiveRate?: number }) {
+    const ttlMs = options?.deduplicationTtlMs ?? DEFAULT_CONFIG.DEDUP_TTL_MS;
+    const capacity = Math.max(1, options?.maxCacheSize ?? DEFAULT_CONFIG.MAX_DEDUP_SIGNATURES);
+    const falsePositiveRate = options?.falsePositiveRate ?? DEFAULT_CONFIG.DEDUP_FALSE_POSITIVE_RATE;
+
+    if (!(falsePositiveRate > 0 && falsePositiveRate < 1)) {
+      throw new Error(`Invalid falsePositiveRate ${falsePositiveRate}: must be between 0 and 1`);
+    }
+
+    // Lookups hit both filters, so each gets half the target rate
+    const perFilterRate = falsePositiveRate / 2;
+    const bitCount = Math.ceil(-capacity * Math.log(perFilterRate) / (Math.LN2 * Math.LN2));
+    const hashCount = Math.max(1, Math.round((bitCount / capacity) * Math.LN2));
+
+    this.config = { ttlMs, capacity, falsePositiveRate, bitCount, hashCount };
+    this.current = new BloomFilter(bitCount, hashCount);
+    this.previous = new BloomFilter(bitCount, hashCount);
+    this.rotatedAt = Date.now();
+  }
+
+  /**
+   * Check a key against both filters and add it if unseen
+   *
+   * The per-call TTL is not used: retention follows the rotation interval.
+   *
+   * @returns true if the key was (probably) seen before, false if new
+   */
+  checkAndSet(key: string, _ttlMs?: number): boolean {
+    this.rotateIfDue(Date.now());
+
+    // Two independent 32-bit hashes, so colliding on both is as unlikely as a 64-bit collision
+    const h1 = fnv1a(key);
+    const h2 = multiplyShift(key) | 1; // Odd step so positions do not repeat
+
+    if (this.current.has(h1, h2) || this.previous.has(h1, h2)) {
+      return true;
+    }
+
+    this.current.add(h1, h2);
+    this.added++;
+    return false;
+  }
+
+  /**
+   * Check several keys at once
+   */
+  checkAndSetMany(keys: string[], ttlMs?: number): boolean[] {
+    return keys.map(key => this.checkAndSet(key, ttlMs));
+  }
+
+  /**
+   * Get filter statistics for monitoring
+   *
+   * `size` counts keys added in the last one to two TTLs, `fillRatio` is the
+   * fraction of bits set in the current filter, and the false-positive rate
+   * is estimated from the fill of both filters.
+   */
+  getStats(): DeduplicationStats {
+    this.rotateIfDue(Date.now());
+
+    const k = this.config.hashCount;
+    const estimatedFalsePositiveRate =
+      1 - (1 - Math.pow(this.current.fill(), k)) * (1 - Math.pow(this.previous.fill(), k));
+
+    return {
+      size: this.added + this.addedPrevious,
+      maxSize: this.config.capacity,
+      ttlMs: this.config.ttlMs,
+      evictions: 0,
+      estimatedBytes: this.current.byteLength() + this.previous.byteLength(),
+      fillRatio: this.current.fill(),
+      estimatedFalsePositiveRate
+    };
+  }
+
+  /**
+   * Release both filters; they are reallocated empty if the store is used again
+   */
+  destroy(): void {
+    this.current = new BloomFilter(0, 1);
+    this.previous = new BloomFilter(0, 1);
+    this.added = 0;
+    this.addedPrevious = 0;
+    this.rotatedAt = -Infinity; // Forces a full reset on next use
+  }
+
+  /**
+   * Rotate filters once per TTL, clearing both if a whole window passed unseen
+   */
+  private rotateIfDue(now: number): void {
+    const elapsed = now - this.rotatedAt;
+    if (elapsed < this.config.ttlMs) return;
+
+    if (elapsed >= this.config.ttlMs * 2) {
+      this.previous = new BloomFilter(this.config.bitCount, this.config.hashCount);
+      this.addedPrevious = 0;
+    } else {
+      this.previous = this.current;
+      this.addedPrevious = this.added;
+    }
+
+    this.current = new BloomFilter(this.config.bitCount, this.config.hashCount);
+    this.added = 0;
+    this.rotatedAt = now;
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash of a string's UTF-16 code units
+ */
+function fnv1a(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Second, unrelated 32-bit hash (MurmurHash2-style multiply and mix)
+ */
+function multiplyShift(key: string): number {
+  let hash = 0x9747b28c ^ key.length;
+  for (let i = 0; i < key.length; i++) {
+    hash = Math.imul(hash ^ key.charCodeAt(i), 0x5bd1e995);
+    hash ^= hash >>> 15;
+  }
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0x5bd1e995);
+  hash ^= hash >>> 15;
+  return hash >>> 0;
+}
@@ -0,0 +1,271 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { GrpcClient } from './client';
+import { LogFields, PoolLogger } from './logger';
+import { EndpointFailure } from '../types';
+
+jest.mock('@triton-one/yellowstone-grpc');
+const { default: FakeClient, grpcError } = jest.requireMock<typeof import('../__mocks__/@triton-one/yellowstone-grpc')>('@triton-one/yellowstone-grpc');
+
+const ENDPOINT = 'https://a.example';
+
+describe('GrpcClient', () => {
+  let client: GrpcClient;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    FakeClient.reset();
+    (['debug', 'log', 'warn', 'error'] as const).forEach(method => {
+      jest.spyOn(console, method).mockImplementation(() => {});
+    });
+  });
+
+  afterEach(async () => {
+    await client.close();
+    client.removeAllListeners();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('closes the old stream and channel before reconnecting with a new token', async () => {
+    client = new GrpcClient({ endpoint: ENDPOINT, token: 'old-token' });
+    await client.connect();
+    await client.subscribe({ transactions: { txns: { accountInclude: ['Prog'] } } });
+
+    const oldClient = FakeClient.forEndpoint(ENDPOINT);
+    const oldStream = oldClient.stream;
+    const events: string[] = [];
+    client.on('disconnected', () => events.push('disconnected'));
+    client.on('connected', () => events.push('connected'));
+
+    await client.updateToken('new-token');
+
+    expect(oldStream.ended).toBe(true);
+    expect(oldStream.destroyed).toBe(true);
+    expect(oldClient.channelClosed).toBe(true);
+    expect(events).toEqual(['disconnected', 'connected']);
+
+    const newClient = FakeClient.forEndpoint(ENDPOINT);
+    expect(newClient).not.toBe(oldClient);
+    expect(newClient.token).toBe('new-token');
+    expect(client.getEndpoint().token).toBe('new-token');
+    expect(newClient.stream.lastRequest.transactions).toEqual({ txns: { accountInclude: ['Prog'] } });
+  });
+
+  it('switches the token of a disconnected client without emitting disconnected', async () => {
+    client = new GrpcClient({ endpoint: ENDPOINT, token: 'old-token' });
+    const events: string[] = [];
+    client.on('disconnected', () => events.push('disconnected'));
+
+    await client.updateToken('new-token');
+
+    expect(events).toEqual([]);
+    expect(FakeClient.instances.map(instance => instance.token)).toEqual(['old-token', 'new-token']);
+    expect(FakeClient.instances[0]?.channelClosed).toBe(true);
+    expect(client.isConnected()).toBe(true);
+  });
+
+  it('writes its lines to the logger it was given', async () => {
+    const lines: { message: string; fields: LogFields }[] = [];
+    const record = (fields: LogFields, message: string): void => {
+      lines.push({ message, fields });
+    };
+    const logger: PoolLogger = { debug: record, info: record, warn: record, error: record };
+    client = new GrpcClient({ endpoint: ENDPOINT, token: 'token' }, { logger, initialRetryDelayMs: 100 });
+    client.on('error', () => {});
+    await client.connect();
+
+    FakeClient.forEndpoint(ENDPOINT).stream.fail(new Error('reset'));
+
+    expect(lines).toContainEqual(expect.objectContaining({
+      message: 'Stream error',
+      fields: expect.objectContaining({ clientId: client.getId(), endpoint: ENDPOINT })
+    }));
+    expect(lines.map(line => line.message)).toContain('Scheduling reconnect');
+    expect(console.warn).not.toHaveBeenCalled();
+  });
+
+  describe('replay', () => {
+    it('resubscribes from the replay slot after a reconnect without storing it', async () => {
+      client = new GrpcClient({ endpoint: ENDPOINT, token: 'token' }, { initialRetryDelayMs: 100, replayFromSlot: () => 500 });
+      await client.connect();
+      await client.subscribe({ transactions: { txns: {} } });
+      expect(FakeClient.forEndpoint(ENDPOINT).stream.lastRequest.fromSlot).toBeUndefined();
+
+      FakeClient.forEndpoint(ENDPOINT).stream.finish();
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(FakeClient.forEndpoint(ENDPOINT).streams).toHaveLength(2);
+      expect(FakeClient.forEndpoint(ENDPOINT).stream.lastRequest).toMatchObject({ transactions: { txns: {} }, fromSlot: '500' });
+      expect(client.getSubscription()).toEqual({ transactions: { txns: {} } });
+    });
+
+    it('resubscribes without replay once the provider refused the replay', async () => {
+      client = new GrpcClient({ endpoint: ENDPOINT, token: 'token' }, { initialRetryDelayMs: 100, replayFromSlot: () => 500 });
+      const refused: { fromSlot: number }[] = [];
+      client.on('replay-failed', event => refused.push(event));
+      client.on('error', () => {});
+      await client.connect();
+      await client.subscribe({ transactions: { txns: {} } });
+
+      FakeClient.forEndpoint(ENDPOINT).stream.finish();
+      await jest.advanceTimersByTimeAsync(100);
+      FakeClient.forEndpoint(ENDPOINT).stream.fail(new Error('slot 500 is not available'));
+      await jest.advanceTimersByTimeAsync(1_000);
+
+      expect(refused).toEqual([expect.objectContaining({ fromSlot: 500 })]);
+      expect(FakeClient.forEndpoint(ENDPOINT).streams).toHaveLength(3);
+      expect(FakeClient.forEndpoint(ENDPOINT).stream.lastRequest.fromSlot).toBeUndefined();
+    });
+
+    it('keeps replaying once the provider delivered data after a replay request', async () => {
+      client = new GrpcClient({ endpoint: ENDPOINT, token: 'token' }, { initialRetryDelayMs: 100, replayFromSlot: () => 500 });
+      const refused: unknown[] = [];
+      client.on('replay-failed', event => refused.push(event));
+      await client.connect();
+      await client.subscribe({ transactions: { txns: {} } });
+
+      FakeClient.forEndpoint(ENDPOINT).stream.finish();
+      await jest.advanceTimersByTimeAsync(100);
+      FakeClient.forEndpoint(ENDPOINT).stream.push({ filters: ['txns'], transaction: { slot: '500' } });
+      FakeClient.forEndpoint(ENDPOINT).stream.finish();
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(refused).toEqual([]);
+      expect(FakeClient.forEndpoint(ENDPOINT).stream.lastRequest.fromSlot).toBe('500');
+    });
+  });
+
+  describe('pings', () => {
+    function pong(id: number): any {
+      return { filters: [], pong: { id } };
+    }
+
+    it('times each pong against its ping', async () => {
+      client = new GrpcClient({ endpoint: ENDPOINT, token: 'token', ping: true });
+      await client.connect();
+      const stream = FakeClient.forEndpoint(ENDPOINT).stream;
+
+      await client.ping();
+      await jest.advanceTimersByTimeAsync(150);
+      expect(client.getUnansweredPingMs()).toBe(150);
+      stream.push(pong(stream.pings[0]!));
+
+      await client.ping();
+      await jest.advanceTimersByTimeAsync(50);
+      stream.push(pong(stream.pings[1]!));
+
+      expect(stream.pings).toEqual([1, 2]);
+      expect(client.getLastRttMs()).toBe(50);
+      expect(client.getRttHistory()).toEqual([150, 50]);
+      expect(client.getUnansweredPingMs()).toBeNull();
+    });
+
+    it('drops pings sent before the one that was answered', async () => {
+      client = new GrpcClient({ endpoint: ENDPOINT, token: 'token', ping: true });
+      await client.connect();
+      const stream = FakeClient.forEndpoint(ENDPOINT).stream;
+
+      await client.ping();
+      await jest.advanceTimersByTimeAsync(100);
+      await client.ping();
+      await jest.advanceTimersByTimeAsync(100);
+      await client.ping();
+      expect(client.getUnansweredPingMs()).toBe(200);
+
+      stream.push(pong(2));
+      expect(client.getLastRttMs()).toBe(100);
+      expect(client.getUnansweredPingMs()).toBe(0);
+
+      // A pong for a ping that is no longer pending is only a sign of life
+      stream.push(pong(1));
+      expect(client.getRttHistory()).toEqual([100]);
+    });
+
+    it('does not ping endpoints without ping enabled', async () => {
+      client = new GrpcClient({ endpoint: ENDPOINT, token: 'token' });
+      await client.connect();
+
+      await client.ping();
+
+      expect(FakeClient.forEndpoint(ENDPOINT).stream.pings).toEqual([]);
+      expect(client.getUnansweredPingMs()).toBeNull();
+    });
+  });
+
+  describe('retry budgets', () => {
+    const RETRY = { initialRetryDelayMs: 100, retryJitter: 'none' as const };
+
+    function recordFailures(target: GrpcClient): EndpointFailure[] {
+      const failures: EndpointFailure[] = [];
+      target.on('failed', (failure: EndpointFailure) => failures.push(failure));
+      target.on('error', () => {});
+      return failures;
+    }
+
+    it('gives up after maxRetryAttempts consecutive failed retries', async () => {
+      FakeClient.failures.set(ENDPOINT, grpcError(14, 'unavailable'));
+      client = new GrpcClient({ endpoint: ENDPOINT, token: 'token' }, { ...RETRY, maxRetryAttempts: 3 });
+      const failures = recordFailures(client);
+
+      await expect(client.connect()).rejects.toThrow('unavailable');
+      await jest.advanceTimersByTimeAsync(100 + 200 + 400);
+
+      expect(failures).toEqual([expect.objectContaining({ reason: 'max-attempts', attempts: 3 })]);
+      expect(failures[0]?.error?.code).toBe(14);
+      await jest.advanceTimersByTimeAsync(60_000);
+      expect(FakeClient.forEndpoint(ENDPOINT).subscribeAttempts).toBe(4);
+    });
+
+    it('gives up once the endpoint was down for maxDowntimeMs', async () => {
+      client = new GrpcClient({ endpoint: ENDPOINT, token: 'token' }, { ...RETRY, maxDowntimeMs: 1000 });
+      const failures = recordFailures(client);
+      await client.connect();
+
+      FakeClient.failures.set(ENDPOINT, grpcError(14, 'unavailable'));
+      FakeClient.forEndpoint(ENDPOINT).stream.finish();
+      await jest.advanceTimersByTimeAsync(1500);
+
+      expect(failures).toEqual([expect.objectContaining({ reason: 'max-downtime' })]);
+      expect(failures[0]?.downtimeMs).toBeGreaterThanOrEqual(1000);
+    });
+
+    it('gives up on a rejected token at once and retries after updateToken()', async () => {
+      client = new GrpcClient({ endpoint: ENDPOINT, token: 'token' }, RETRY);
+      const failures = recordFailures(client);
+      await client.connect();
+      await client.subscribe({ transactions: { txns: {} } });
+
+      FakeClient.forEndpoint(ENDPOINT).stream.fail(grpcError(16, 'invalid token'));
+      await jest.advanceTimersByTimeAsync(60_000);
+
+      expect(failures).toEqual([expect.objectContaining({ reason: 'auth', attempts: 0 })]);
+      expect(FakeClient.forEndpoint(ENDPOINT).subscribeAttempts).toBe(1);
+
+      await client.updateToken('fresh-token');
+      expect(client.isConnected()).toBe(true);
+      expect(FakeClient.forEndpoint(ENDPOINT).stream.lastRequest.transactions).toEqual({ txns: {} });
+    });
+
+    it('gives up on a rejected filter', async () => {
+      client = new GrpcClient({ endpoint: ENDPOINT, token: 'token' }, RETRY);
+      const failures = recordFailures(client);
+      await client.connect();
+
+      FakeClient.forEndpoint(ENDPOINT).stream.fail(grpcError(3, 'filter limit exceeded'));
+
+      expect(failures).toEqual([expect.objectContaining({ reason: 'invalid-filter' })]);
+    });
+
+    it('keeps retrying without a budget', async () => {
+      FakeClient.failures.set(ENDPOINT, grpcError(14, 'unavailable'));
+      client = new GrpcClient({ endpoint: ENDPOINT, token: 'token' }, { ...RETRY, maxRetryDelayMs: 1000 });
+      const failures = recordFailures(client);
+
+      await expect(client.connect()).rejects.toThrow();
+      await jest.advanceTimersByTimeAsync(10_000);
+
+      expect(failures).toEqual([]);
+      expect(FakeClient.forEndpoint(ENDPOINT).subscribeAttempts).toBeGreaterThan(10);
+    });
+  });
+});
@@ -3,7 +3,8 @@
  *
  * Wraps a single Triton-One Yellowstone gRPC connection with simple interface.
  * Handles connection, subscription, and streaming for one endpoint.
- * Includes infinite retry mechanism and stale connection detection.
+ * Includes a jittered retry mechanism, optional retry budgets and stale
+ * connection detection.
  *
  * @module lib/client
  * @author StalkChain Team
@@ -12,14 +13,27 @@
 
 import { EventEmitter } from 'events';
 import Client from '@triton-one/yellowstone-grpc';
-import { PoolEndpoint, SubscribeRequest, StreamData } from '../types';
+import { PoolEndpoint, SubscribeRequest, StreamData, RetryJitter, EndpointFailure, EndpointFailureReason } from '../types';
 import { DEFAULT_CONFIG } from '../constants';
+import { PoolLogger, createConsoleLogger, toErrorFields } from './logger';
+import { EndpointError } from './errors';
+import { toWireRequest } from './request';
 
 // Simple incremental ID generator to uniquely identify each client instance
 let nextClientId = 1;
 
 /**
- * Simple wrapper for a single gRPC client with infinite retry and stale detection
+ * Largest ping id Yellowstone accepts (ping ids are int32)
+ */
+const MAX_PING_ID = 0x7fffffff;
+
+/**
+ * Unanswered pings remembered per connection; older ones are forgotten
+ */
+const MAX_PENDING_PINGS = 100;
+
+/**
+ * Simple wrapper for a single gRPC client with retry and stale detection
  */
 export class GrpcClient extends EventEmitter {
   private client: Client;
@@ -29,13 +43,33 @@ export class GrpcClient extends EventEmitter {
   private stream: any = null;
   private retryAttempts: number = 0;
   private retryTimeout: NodeJS.Timeout | null = null;
+  private lastRetryDelayMs: number = 0; // Previous delay, for decorrelated jitter
+  private downSince: number | null = null; // When the endpoint last stopped delivering
+  private lastError: EndpointError | null = null; // Most recent error since the endpoint went down
+  private failure: EndpointFailureReason | null = null; // Set once retries were given up
   private lastMessageTimestamp: number = 0;
-  private currentSubscription: any = null;
+  private lastPongTimestamp: number = 0;
+  private nextPingId: number = 1;
+  private pendingPings: Map<number, number> = new Map(); // Ping id -> sent at, in send order
+  private rttSamples: number[] = []; // Ring buffer of recent ping round trips in ms
+  private nextRttSample: number = 0;
+  private lastRttMs: number | null = null;
+  private lastSlot: number | null = null; // Highest slot update on the current connection
+  private currentSubscription: SubscribeRequest | null = null;
+  private paused: boolean = false; // Held by consumer backpressure; survives reconnects
+  private suspended: boolean = false; // Disconnected on purpose (quarantine); no retries until reconnected
+  private logger: PoolLogger;
+  private replayFromSlot: () => number | null; // Slot to replay from when resubscribing after a reconnect
+  private pendingReplaySlot: number | null = null; // Replay requested but no data seen yet
+  private skipReplay: boolean = false; // Last replay failed; resubscribe without fromSlot once
   private config: {
     staleTimeoutMs: number;
     initialRetryDelayMs: number;
     maxRetryDelayMs: number;
     retryBackoffFactor: number;
+    retryJitter: RetryJitter;
+    maxRetryAttempts: number;
+    maxDowntimeMs: number;
   };
 
   constructor(endpoint: PoolEndpoint, options?: {
@@ -43,29 +77,45 @@ export class GrpcClient extends EventEmitter {
     initialRetryDelayMs?: number;
     maxRetryDelayMs?: number;
     retryBackoffFactor?: number;
+    retryJitter?: RetryJitter;
+    maxRetryAttempts?: number;
+    maxDowntimeMs?: number;
+    logger?: PoolLogger;
+    replayFromSlot?: () => number | null;
   }) {
     super();
     this.endpoint = endpoint;
     this.clientId = `client-${nextClientId++}`;
     this.client = new Client(endpoint.endpoint, endpoint.token, {});
     this.lastMessageTimestamp = Date.now(); // Initialize to current time
+    this.logger = options?.logger ?? createConsoleLogger();
+    this.replayFromSlot = options?.replayFromSlot ?? (() => null);
     
     this.config = {
       staleTimeoutMs: options?.staleTimeoutMs ?? DEFAULT_CONFIG.STALE_CONNECTION_TIMEOUT_MS,
       initialRetryDelayMs: options?.initialRetryDelayMs ?? DEFAULT_CONFIG.INITIAL_RETRY_DELAY_MS,
       maxRetryDelayMs: options?.maxRetryDelayMs ?? DEFAULT_CONFIG.MAX_RETRY_DELAY_MS,
-      retryBackoffFactor: options?.retryBackoffFactor ?? DEFAULT_CONFIG.RETRY_BACKOFF_FACTOR
+      retryBackoffFactor: options?.retryBackoffFactor ?? DEFAULT_CONFIG.RETRY_BACKOFF_FACTOR,
+      retryJitter: options?.retryJitter ?? 'equal',
+      maxRetryAttempts: options?.maxRetryAttempts ?? 0,
+      maxDowntimeMs: options?.maxDowntimeMs ?? 0
     };
   }
 
   /**
-   * Connect to the gRPC endpoint with infinite retry mechanism
+   * Connect to the gRPC endpoint, retrying on failure
    */
   async connect(): Promise<void> {
     try {
       // Create subscription stream
       this.stream = await this.client.subscribe();
       
+      // Suspended while the connection was being set up
+      if (this.suspended) {
+        this.cleanupConnection();
+        return;
+      }
+      
       // Set up stream event handlers
       this.stream.on('data', (data: any) => {
         const streamData: StreamData = {};
@@ -78,47 +128,111 @@ export class GrpcClient extends EventEmitter {
           streamData.transaction = data.transaction; // Complete gRPC transaction object
           streamData.receivedTimestamp = Date.now(); // When client received this data
         }
+
+        if (data.account) {
+          // Account updates are actual data too, so they also keep the connection fresh
+          this.lastMessageTimestamp = Date.now();
+          streamData.account = data.account; // Complete gRPC account update object
+          streamData.receivedTimestamp = Date.now();
+        }
+
+        if (data.slot || data.block || data.blockMeta) {
+          // Slot and block updates are actual chain data as well
+          this.lastMessageTimestamp = Date.now();
+          if (data.slot?.slot !== undefined) {
+            this.lastSlot = Math.max(this.lastSlot ?? 0, Number(data.slot.slot));
+          }
+          if (data.slot) streamData.slot = data.slot;
+          if (data.block) streamData.block = data.block;
+          if (data.blockMeta) streamData.blockMeta = data.blockMeta;
+          streamData.receivedTimestamp = Date.now();
+        }
+
+        if (data.transactionStatus) {
+          this.lastMessageTimestamp = Date.now();
+          streamData.transactionStatus = data.transactionStatus;
+          streamData.receivedTimestamp = Date.now();
+        }
         
         if (data.pong) {
+          this.recordPong(data.pong.id);
           streamData.pong = { id: data.pong.id };
         }
         
+        if (Array.isArray(data.filters)) {
+          streamData.filters = data.filters;
+        }
+        
+        // Data arriving means the provider accepted any requested replay
+        if (streamData.receivedTimestamp !== undefined) {
+          this.pendingReplaySlot = null;
+        }
+        
+        // Only a stream that actually delivers counts as recovered, so an
+        // endpoint that accepts connections and drops them keeps backing off
+        if (streamData.receivedTimestamp !== undefined || streamData.pong) {
+          this.retryAttempts = 0;
+          this.lastRetryDelayMs = 0;
+          this.downSince = null;
+          this.lastError = null;
+        }
+        
         this.emit('data', streamData);
       });
       
       this.stream.on('error', (error: Error) => {
         this.connected = false;
-        this.emit('error', error);
+        const endpointError = this.toEndpointError(error);
+        this.logger.warn({ ...this.logFields(), category: endpointError.category, err: toErrorFields(error) }, 'Stream error');
+        this.checkReplayFailure(endpointError);
+        this.emit('error', endpointError);
         
-        // Start infinite retry mechanism on stream error
-        this.scheduleRetry();
+        // Retry on stream error, unless the error rules it out
+        this.scheduleRetry(endpointError);
       });
       
       this.stream.on('end', () => {
         this.connected = false;
+        this.logger.info(this.logFields(), 'Stream ended');
+        this.checkReplayFailure();
         this.emit('disconnected');
         
-        // Start infinite retry mechanism on stream end
+        // Retry on stream end
         this.scheduleRetry();
       });
       
+      // Stay paused across reconnects while the pool's consumers are behind
+      if (this.paused) {
+        this.stream.pause();
+      }
+      
       this.connected = true;
-      this.retryAttempts = 0; // Reset retry counter on successful connection
       this.lastMessageTimestamp = Date.now(); // Reset timestamp on successful connection
+      this.lastPongTimestamp = Date.now();
+      this.pendingPings.clear(); // Pings on the old stream will never be answered
+      this.lastSlot = null;
+      
+      // Capture before emitting: a 'connected' listener may subscribe a first-time client itself
+      const previousSubscription = this.currentSubscription;
       
+      this.logger.debug(this.logFields(), 'Connected');
       this.emit('connected');
       
       // Resubscribe if we had a previous subscription
-      if (this.currentSubscription) {
-        await this.subscribe(this.currentSubscription);
+      if (previousSubscription) {
+        await this.resubscribe(previousSubscription);
       }
       
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
+      const endpointError = this.toEndpointError(error);
+      this.logger.warn(
+        { ...this.logFields(), attempt: endpointError.attempt, category: endpointError.category, err: toErrorFields(error) },
+        'Connection attempt failed'
+      );
       
-      // Schedule infinite retry
-      this.scheduleRetry();
-      throw error;
+      // Schedule retry
+      this.scheduleRetry(endpointError);
+      throw endpointError;
     }
   }
 
@@ -126,7 +240,8 @@ export class GrpcClient extends EventEmitter {
    * Check if connection is stale (no messages received for too long)
    */
   isStale(): boolean {
-    if (!this.connected) return false;
+    // A paused stream receives nothing by design
+    if (!this.connected || this.paused) return false;
     
     const timeSinceLastMessage = Date.now() - this.lastMessageTimestamp;
     return timeSinceLastMessage > this.config.staleTimeoutMs;
@@ -150,7 +265,8 @@ export class GrpcClient extends EventEmitter {
         this.stream.end();
         this.stream.destroy();
       } catch (error) {
-        // Cleanup errors are expected and can be ignored
+        // Cleanup errors are expected and only worth a debug line
+        this.logger.debug({ ...this.logFields(), err: toErrorFields(error) }, 'Error while closing stream');
       }
       this.stream = null;
     }
@@ -162,17 +278,27 @@ export class GrpcClient extends EventEmitter {
    * Force reconnection for stale connections
    */
   async forceReconnect(): Promise<void> {
+    // An explicit reconnect lifts a suspension or failure
+    this.suspended = false;
+    this.failure = null;
+    
     // Emit disconnected event before cleanup if currently connected
     if (this.connected) {
       this.connected = false;
       this.emit('disconnected');
     }
     
-    // Clean up current connection
+    // Clean up current connection and any pending retry so only one connect runs
     this.cleanupConnection();
+    if (this.retryTimeout) {
+      clearTimeout(this.retryTimeout);
+      this.retryTimeout = null;
+    }
     
-    // Reset retry attempts for immediate reconnection
+    // Reset retry attempts for immediate reconnection, with a fresh retry budget
     this.retryAttempts = 0;
+    this.lastRetryDelayMs = 0;
+    this.downSince = null;
     
     // Attempt to reconnect
     try {
@@ -183,21 +309,79 @@ export class GrpcClient extends EventEmitter {
   }
 
   /**
-   * Schedule infinite retry with exponential backoff (500ms to 30s max)
+   * Replace the endpoint token and reconnect with it
+   *
+   * The current subscription is kept and resubscribed on the new connection.
+   * The old stream and channel are closed first so the connection made with
+   * the old token does not linger.
+   */
+  async updateToken(token: string): Promise<void> {
+    if (this.connected) {
+      this.connected = false;
+      this.emit('disconnected');
+    }
+    this.cleanupConnection();
+    this.closeChannel();
+
+    this.endpoint = { ...this.endpoint, token };
+    this.client = new Client(this.endpoint.endpoint, token, {});
+    await this.forceReconnect();
+  }
+
+  /**
+   * Close the gRPC channel of the current Yellowstone client
+   */
+  private closeChannel(): void {
+    try {
+      this.client._client.close();
+    } catch (error) {
+      // A channel that already failed may throw on close; it is gone either way
+    }
+  }
+
+  /**
+   * Schedule a retry with jittered exponential backoff (500ms to 30s max)
+   *
+   * Rate-limited endpoints back off longer. Gives up instead when the error
+   * would repeat on every retry or a retry budget is spent.
+   *
+   * @param error - The error that ended the connection, if any
    */
-  private scheduleRetry(): void {
+  private scheduleRetry(error?: EndpointError): void {
+    if (this.suspended || this.failure) {
+      return;
+    }
+    
     // Clear any existing retry timeout
     if (this.retryTimeout) {
       clearTimeout(this.retryTimeout);
     }
 
-    // Calculate delay with exponential backoff: 500ms * 2^attempt, capped at 30s
-    const delay = Math.min(
-      this.config.initialRetryDelayMs * Math.pow(this.config.retryBackoffFactor, this.retryAttempts),
-      this.config.maxRetryDelayMs
-    );
+    if (this.downSince === null) {
+      this.downSince = Date.now();
+    }
+    if (error) {
+      this.lastError = error;
+    }
+
+    const failure = this.checkRetryBudget(error);
+    if (failure) {
+      this.fail(failure);
+      return;
+    }
+
+    // The stream may end after the error that explains it, so fall back to the last error
+    const category = (error ?? this.lastError)?.category;
+    let delay = this.nextRetryDelay();
+    if (category === 'rate-limited') {
+      delay *= DEFAULT_CONFIG.RATE_LIMIT_BACKOFF_MULTIPLIER;
+    }
     
     this.retryAttempts++;
+    this.logger.info(
+      { ...this.logFields(), attempt: this.retryAttempts, delayMs: delay, ...(category ? { category } : {}) },
+      'Scheduling reconnect'
+    );
 
     this.retryTimeout = setTimeout(async () => {
       try {
@@ -208,10 +392,97 @@ export class GrpcClient extends EventEmitter {
     }, delay);
   }
 
+  /**
+   * Calculate the next retry delay: exponential backoff randomized by the jitter strategy
+   */
+  private nextRetryDelay(): number {
+    const { initialRetryDelayMs, maxRetryDelayMs, retryBackoffFactor, retryJitter } = this.config;
+    const backoff = Math.min(initialRetryDelayMs * Math.pow(retryBackoffFactor, this.retryAttempts), maxRetryDelayMs);
+
+    let delay: number;
+    switch (retryJitter) {
+      case 'full':
+        delay = Math.random() * backoff;
+        break;
+      case 'equal':
+        delay = backoff / 2 + Math.random() * (backoff / 2);
+        break;
+      case 'decorrelated': {
+        const upper = Math.max(initialRetryDelayMs, this.lastRetryDelayMs * 3);
+        delay = Math.min(maxRetryDelayMs, initialRetryDelayMs + Math.random() * (upper - initialRetryDelayMs));
+        break;
+      }
+      default:
+        delay = backoff;
+    }
+
+    this.lastRetryDelayMs = delay;
+    return Math.round(delay);
+  }
+
+  /**
+   * Decide whether retrying is pointless or over budget
+   *
+   * @returns Why to give up, or null to keep retrying
+   */
+  private checkRetryBudget(error?: EndpointError): EndpointFailureReason | null {
+    // A rejected token is rejected again on every retry until it is replaced
+    if (error?.category === 'auth') {
+      return 'auth';
+    }
+    // So is a rejected filter, unless it was the replay the provider refused,
+    // which the next attempt leaves out
+    if (error?.category === 'invalid-filter' && !this.skipReplay) {
+      return 'invalid-filter';
+    }
+    if (this.config.maxRetryAttempts > 0 && this.retryAttempts >= this.config.maxRetryAttempts) {
+      return 'max-attempts';
+    }
+    if (this.config.maxDowntimeMs > 0 && this.downSince !== null && Date.now() - this.downSince >= this.config.maxDowntimeMs) {
+      return 'max-downtime';
+    }
+    return null;
+  }
+
+  /**
+   * Wrap an error from this client's connection with its endpoint context
+   */
+  private toEndpointError(error: unknown): EndpointError {
+    return new EndpointError(error, {
+      clientId: this.clientId,
+      endpoint: this.endpoint.endpoint,
+      attempt: this.retryAttempts + 1
+    });
+  }
+
+  /**
+   * Stop retrying until forceReconnect() or updateToken() is called
+   */
+  private fail(reason: EndpointFailureReason): void {
+    this.failure = reason;
+    this.retryTimeout = null;
+    this.cleanupConnection();
+
+    const failure: EndpointFailure = {
+      reason,
+      attempts: this.retryAttempts,
+      downtimeMs: this.downSince === null ? 0 : Date.now() - this.downSince
+    };
+    if (this.lastError) {
+      failure.error = this.lastError;
+    }
+
+    this.logger.error(
+      { ...this.logFields(), reason, attempts: failure.attempts, downtimeMs: failure.downtimeMs, ...(this.lastError ? { err: toErrorFields(this.lastError) } : {}) },
+      'Giving up on endpoint'
+    );
+    this.emit('failed', failure);
+  }
+
   /**
    * Subscribe using full subscription request object
    */
-  async subscribe(subscribeRequest: any): Promise<void> {
+  async subscribe(subscribeRequest: SubscribeRequest): Promise<void> {
     if (!this.connected || !this.stream) {
       throw new Error('Client not connected');
     }
@@ -220,26 +491,86 @@ export class GrpcClient extends EventEmitter {
       // Store subscription for potential resubscription after reconnection
       this.currentSubscription = subscribeRequest;
       
-      // Send subscription request using Promise wrapper like working example
-      await new Promise((resolve, reject) => {
-        this.stream.write(subscribeRequest, (err: any) => {
-          if (err) {
-            reject(err);
-          } else {
-            resolve(undefined);
-          }
-        });
-      });
+      await this.writeRequest(subscribeRequest);
       
     } catch (error) {
       throw error;
     }
   }
 
+  /**
+   * Resubscribe after a reconnect, asking the provider to replay missed slots
+   */
+  private async resubscribe(subscribeRequest: SubscribeRequest): Promise<void> {
+    const fromSlot = this.skipReplay ? null : this.replayFromSlot();
+    this.skipReplay = false;
+
+    if (fromSlot === null) {
+      await this.subscribe(subscribeRequest);
+    } else {
+      await this.subscribeFromSlot(subscribeRequest, fromSlot);
+    }
+  }
+
+  /**
+   * Subscribe and ask the provider to replay updates from a slot onwards
+   *
+   * The stored subscription never carries fromSlot, so later reconnects
+   * replay from the slot current at that time instead.
+   */
+  async subscribeFromSlot(subscribeRequest: SubscribeRequest, fromSlot: number): Promise<void> {
+    if (!this.connected || !this.stream) {
+      throw new Error('Client not connected');
+    }
+
+    this.currentSubscription = subscribeRequest;
+    this.pendingReplaySlot = fromSlot;
+    this.logger.debug({ ...this.logFields(), fromSlot }, 'Subscribing with replay');
+    await this.writeRequest({ ...subscribeRequest, fromSlot: String(fromSlot) });
+  }
+
+  /**
+   * Treat a stream failing before any data after a replay request as a refused replay
+   *
+   * Providers reject a fromSlot older than they retain by failing the stream.
+   * The next reconnect then subscribes without replay so the client does not
+   * keep asking for a slot the provider cannot serve.
+   */
+  private checkReplayFailure(error?: Error): void {
+    if (this.pendingReplaySlot === null) return;
+
+    const fromSlot = this.pendingReplaySlot;
+    this.pendingReplaySlot = null;
+    this.skipReplay = true;
+    this.emit('replay-failed', { fromSlot, error });
+  }
+
+  /**
+   * Write a request to the stream, with the commitment in wire format
+   */
+  private async writeRequest(request: SubscribeRequest): Promise<void> {
+    const wireRequest = toWireRequest(request);
+    
+    // Send request using Promise wrapper like working example
+    await new Promise((resolve, reject) => {
+      this.stream.write(wireRequest, (err: any) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(undefined);
+        }
+      });
+    });
+  }
+
   /**
    * Send ping if enabled for this endpoint
+   *
+   * The matching pong is timed to record the round trip.
+   *
+   * @param id - Ping id (int32); defaults to this client's own counter
    */
-  async ping(id: number): Promise<void> {
+  async ping(id: number = this.takePingId()): Promise<void> {
     if (!this.endpoint.ping || !this.connected || !this.stream) {
       return;
     }
@@ -257,6 +588,14 @@ export class GrpcClient extends EventEmitter {
       entry: {},
     };
 
+    // Keep the pending set bounded when an endpoint never answers
+    if (this.pendingPings.size >= MAX_PENDING_PINGS) {
+      const oldest = this.pendingPings.keys().next();
+      if (!oldest.done) this.pendingPings.delete(oldest.value);
+    }
+    this.pendingPings.delete(id); // Re-sent ids are timed from the latest send
+    this.pendingPings.set(id, Date.now());
+
     try {
       await new Promise((resolve, reject) => {
         this.stream.write(pingRequest, (err: any) => {
@@ -268,7 +607,47 @@ export class GrpcClient extends EventEmitter {
         });
       });
     } catch (error) {
-      // Ping errors are handled silently
+      // A failed ping is not fatal; stale detection handles dead streams
+      this.pendingPings.delete(id);
+      this.logger.warn({ ...this.logFields(), pingId: id, err: toErrorFields(error) }, 'Ping failed');
+    }
+  }
+
+  /**
+   * Next ping id, wrapping within the int32 range Yellowstone accepts
+   */
+  private takePingId(): number {
+    const id = this.nextPingId;
+    this.nextPingId = id >= MAX_PING_ID ? 1 : id + 1;
+    return id;
+  }
+
+  /**
+   * Match a pong to its ping and record the round trip
+   *
+   * Pings sent before the answered one are dropped as lost. Pongs for
+   * unknown ids (such as pings from a previous connection) only count as a
+   * sign of life.
+   */
+  private recordPong(id: number): void {
+    const now = Date.now();
+    this.lastPongTimestamp = now;
+
+    const sentAt = this.pendingPings.get(id);
+    if (sentAt === undefined) return;
+
+    for (const pendingId of this.pendingPings.keys()) {
+      this.pendingPings.delete(pendingId);
+      if (pendingId === id) break;
+    }
+
+    const rttMs = now - sentAt;
+    this.lastRttMs = rttMs;
+    if (this.rttSamples.length < DEFAULT_CONFIG.PING_RTT_HISTORY_SIZE) {
+      this.rttSamples.push(rttMs);
+    } else {
+      this.rttSamples[this.nextRttSample] = rttMs;
+      this.nextRttSample = (this.nextRttSample + 1) % DEFAULT_CONFIG.PING_RTT_HISTORY_SIZE;
     }
   }
 
@@ -285,11 +664,105 @@ export class GrpcClient extends EventEmitter {
     // Clean up connection
     this.cleanupConnection();
     
-    // Reset retry counter and subscription
+    // Reset retry counter, failure and subscription
     this.retryAttempts = 0;
+    this.lastRetryDelayMs = 0;
+    this.downSince = null;
+    this.failure = null;
     this.currentSubscription = null;
   }
 
+  /**
+   * Disconnect and stop retrying until forceReconnect() is called
+   *
+   * The subscription is kept and resubscribed on the next connection.
+   */
+  suspend(): void {
+    this.suspended = true;
+    
+    if (this.retryTimeout) {
+      clearTimeout(this.retryTimeout);
+      this.retryTimeout = null;
+    }
+    
+    const wasConnected = this.connected;
+    this.cleanupConnection();
+    if (wasConnected) {
+      this.emit('disconnected');
+    }
+  }
+
+  /**
+   * Check if the client was suspended with suspend()
+   */
+  isSuspended(): boolean {
+    return this.suspended;
+  }
+
+  /**
+   * Check if the client gave up retrying its endpoint
+   */
+  isFailed(): boolean {
+    return this.failure !== null;
+  }
+
+  /**
+   * Get why the client gave up retrying its endpoint
+   *
+   * @returns null while the client is still connected or retrying
+   */
+  getFailureReason(): EndpointFailureReason | null {
+    return this.failure;
+  }
+
+  /**
+   * Stop reading from the stream so gRPC flow control pushes back on the server
+   */
+  pause(): void {
+    this.paused = true;
+    this.stream?.pause();
+  }
+
+  /**
+   * Resume reading from the stream after pause()
+   */
+  resume(): void {
+    if (!this.paused) return;
+    this.paused = false;
+    this.lastMessageTimestamp = Date.now(); // Time spent paused does not count towards staleness
+    this.pendingPings.clear(); // Pongs queued behind the pause would time out unfairly
+    this.stream?.resume();
+  }
+
+  /**
+   * Store a subscription to write on the next (re)connection without writing it now
+   *
+   * Used to keep disconnected clients in sync with subscription changes. A
+   * client that gave up because the endpoint rejected its filter tries again
+   * with the new request.
+   */
+  setSubscription(subscribeRequest: SubscribeRequest): void {
+    this.currentSubscription = subscribeRequest;
+
+    if (this.failure === 'invalid-filter') {
+      this.forceReconnect().catch(() => {});
+    }
+  }
+
+  /**
+   * Check if a subscription has been written (and will be resubscribed on reconnect)
+   */
+  hasSubscription(): boolean {
+    return this.currentSubscription !== null;
+  }
+
+  /**
+   * Get the subscription this client streams (and resubscribes with on reconnect)
+   */
+  getSubscription(): SubscribeRequest | null {
+    return this.currentSubscription;
+  }
+
   /**
    * Check if client is connected
    */
@@ -311,10 +784,73 @@ export class GrpcClient extends EventEmitter {
     return this.clientId;
   }
 
+  /**
+   * Get number of consecutive failed connection attempts
+   */
+  getRetryAttempts(): number {
+    return this.retryAttempts;
+  }
+
+  /**
+   * Identifying fields attached to every log line from this client
+   */
+  private logFields(): { clientId: string; endpoint: string } {
+    return { clientId: this.clientId, endpoint: this.endpoint.endpoint };
+  }
+
   /**
    * Get time since last message in milliseconds
    */
   getTimeSinceLastMessage(): number {
     return Date.now() - this.lastMessageTimestamp;
   }
+
+  /**
+   * Get time since the last pong (or since connecting, before the first one) in milliseconds
+   */
+  getTimeSinceLastPong(): number {
+    return Date.now() - this.lastPongTimestamp;
+  }
+
+  /**
+   * Get how long the oldest unanswered ping has been waiting, in milliseconds
+   *
+   * @returns null when every ping sent on this connection was answered
+   */
+  getUnansweredPingMs(): number | null {
+    const oldest = this.pendingPings.values().next();
+    return oldest.done ? null : Date.now() - oldest.value;
+  }
+
+  /**
+   * Get the most recent ping round trip in milliseconds
+   *
+   * @returns null until the first pong is matched
+   */
+  getLastRttMs(): number | null {
+    return this.lastRttMs;
+  }
+
+  /**
+   * Get recent ping round trips in milliseconds, oldest first
+   */
+  getRttHistory(): number[] {
+    return [...this.rttSamples.slice(this.nextRttSample), ...this.rttSamples.slice(0, this.nextRttSample)];
+  }
+
+  /**
+   * Get the highest slot update received on the current connection
+   *
+   * @returns null until the first slot update after (re)connecting
+   */
+  getLastSlot(): number | null {
+    return this.lastSlot;
+  }
+
+  /**
+   * Check if the stream is held paused by consumer backpressure
+   */
+  isPaused(): boolean {
+    return this.paused;
+  }
 }
\ No newline at end of file
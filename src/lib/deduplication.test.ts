@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { DeduplicationService, signatureKey, accountKey } from './deduplication';
+
+describe('DeduplicationService', () => {
+  let service: DeduplicationService;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    service.destroy();
+    jest.useRealTimers();
+  });
+
+  it('flags a key seen within its TTL as a duplicate', () => {
+    service = new DeduplicationService({ deduplicationTtlMs: 1000 });
+    expect(service.checkAndSet('a')).toBe(false);
+    expect(service.checkAndSet('a')).toBe(true);
+    expect(service.checkAndSetMany(['a', 'b', 'b'])).toEqual([true, false, true]);
+  });
+
+  it('treats a key as new again once its TTL has passed', () => {
+    service = new DeduplicationService({ deduplicationTtlMs: 1000 });
+    service.checkAndSet('a');
+    jest.setSystemTime(Date.now() + 1000);
+    expect(service.checkAndSet('a')).toBe(true);
+    jest.setSystemTime(Date.now() + 1);
+    expect(service.checkAndSet('a')).toBe(false);
+  });
+
+  it('evicts the oldest keys first when at capacity and counts the evictions', () => {
+    service = new DeduplicationService({ deduplicationTtlMs: 60000, maxCacheSize: 3 });
+    ['a', 'b', 'c', 'd'].forEach(key => service.checkAndSet(key));
+
+    expect(service.getStats()).toMatchObject({ size: 3, evictions: 1 });
+    expect(service.checkAndSet('b')).toBe(true);
+    expect(service.checkAndSet('a')).toBe(false); // 'a' was evicted, so it is new again
+  });
+
+  it('does not count expired entries pushed out for capacity as evictions', () => {
+    service = new DeduplicationService({ deduplicationTtlMs: 1000, maxCacheSize: 2 });
+    service.checkAndSet('a');
+    service.checkAndSet('b');
+    jest.setSystemTime(Date.now() + 2000);
+    service.checkAndSet('c');
+
+    expect(service.getStats()).toMatchObject({ size: 2, evictions: 0 });
+  });
+
+  it('skips the stale queue slot of a key that expired and was added again', () => {
+    service = new DeduplicationService({ deduplicationTtlMs: 1000, maxCacheSize: 2 });
+    service.checkAndSet('a');
+    jest.setSystemTime(Date.now() + 1500);
+    service.checkAndSet('a'); // Expired: re-added at the back
+    service.checkAndSet('b');
+    service.checkAndSet('c'); // Evicts the oldest live entry, the re-added 'a'
+
+    expect(service.checkAndSet('b')).toBe(true);
+    expect(service.checkAndSet('c')).toBe(true);
+    expect(service.getStats()).toMatchObject({ size: 2, evictions: 1 });
+  });
+
+  it('keeps the byte estimate within maxCacheBytes by evicting', () => {
+    // Each single character key is estimated at 81 bytes
+    service = new DeduplicationService({ deduplicationTtlMs: 60000, maxCacheBytes: 81 * 3 });
+    ['a', 'b', 'c'].forEach(key => service.checkAndSet(key));
+    expect(service.getStats()).toMatchObject({ size: 3, estimatedBytes: 243, maxBytes: 243, evictions: 0 });
+
+    service.checkAndSet('d');
+    expect(service.getStats()).toMatchObject({ size: 3, estimatedBytes: 243, evictions: 1 });
+    expect(service.checkAndSet('a')).toBe(false);
+  });
+
+  it('releases the byte estimate as entries expire', () => {
+    service = new DeduplicationService({ deduplicationTtlMs: 1000 });
+    service.checkAndSet('abc');
+    service.checkAndSet('de');
+    expect(service.getStats().estimatedBytes).toBe(83 + 82);
+
+    jest.advanceTimersByTime(2000);
+    expect(service.getStats()).toMatchObject({ size: 0, estimatedBytes: 0 });
+  });
+
+  it('expires entries in the background cleanup', () => {
+    service = new DeduplicationService({ deduplicationTtlMs: 1000 });
+    service.checkAndSet('a'); // Expires at 1000ms
+    jest.advanceTimersByTime(1500);
+    service.checkAndSet('b'); // Expires at 2500ms
+
+    jest.advanceTimersByTime(600); // Cleanup ran at 2000ms
+    expect(service.getStats().size).toBe(1);
+    jest.advanceTimersByTime(1000); // Cleanup ran at 3000ms
+    expect(service.getStats().size).toBe(0);
+  });
+
+  it('keeps first-seen order across queue compaction', () => {
+    service = new DeduplicationService({ deduplicationTtlMs: 60000, maxCacheSize: 1000 });
+    for (let i = 0; i < 5000; i++) {
+      service.checkAndSet(`key-${i}`);
+    }
+
+    expect(service.getStats()).toMatchObject({ size: 1000, evictions: 4000 });
+    expect(service.checkAndSet('key-3999')).toBe(false);
+    expect(service.checkAndSet('key-4999')).toBe(true);
+    expect(service.checkAndSet('key-4001')).toBe(true);
+  });
+
+  it('restores a snapshot into a fresh cache, skipping expired entries', () => {
+    service = new DeduplicationService({ deduplicationTtlMs: 1000 });
+    const binaryKey = signatureKey(Buffer.from([0, 255, 128, 7]));
+    service.checkAndSet(binaryKey);
+    service.checkAndSet('short', 100);
+    const snapshot = service.snapshot();
+    service.destroy();
+
+    jest.setSystemTime(Date.now() + 500);
+    service = new DeduplicationService({ deduplicationTtlMs: 1000 });
+    service.restore(snapshot);
+
+    expect(service.getStats().size).toBe(1);
+    expect(service.checkAndSet(binaryKey)).toBe(true);
+    expect(service.checkAndSet('short')).toBe(false);
+  });
+});
+
+describe('deduplication keys', () => {
+  it('keeps account keys apart from signature keys', () => {
+    const bytes = Buffer.alloc(32, 1);
+    expect(accountKey(bytes, 10, 2)).not.toBe(signatureKey(bytes));
+    expect(accountKey(bytes, 10, 2)).not.toBe(accountKey(bytes, 10, 3));
+    expect(accountKey(bytes, '10', '2')).toBe(accountKey(bytes, 10, 2));
+  });
+});
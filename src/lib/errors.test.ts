@@ -0,0 +1,74 @@
+import { describe, it, expect } from '@jest/globals';
+import { classifyError, EndpointError, GrpcStatus } from './errors';
+import { EndpointErrorCategory } from '../types';
+
+function grpcError(code: number, message: string = `status ${code}`): Error {
+  return Object.assign(new Error(message), { code });
+}
+
+describe('classifyError', () => {
+  const cases: [keyof typeof GrpcStatus, EndpointErrorCategory, boolean][] = [
+    ['OK', 'unknown', true],
+    ['CANCELLED', 'stream-reset', true],
+    ['UNKNOWN', 'stream-reset', true],
+    ['INVALID_ARGUMENT', 'invalid-filter', false],
+    ['DEADLINE_EXCEEDED', 'deadline', true],
+    ['NOT_FOUND', 'unknown', true],
+    ['ALREADY_EXISTS', 'unknown', true],
+    ['PERMISSION_DENIED', 'auth', false],
+    ['RESOURCE_EXHAUSTED', 'rate-limited', true],
+    ['FAILED_PRECONDITION', 'unknown', true],
+    ['ABORTED', 'stream-reset', true],
+    ['OUT_OF_RANGE', 'unknown', true],
+    ['UNIMPLEMENTED', 'unknown', true],
+    ['INTERNAL', 'stream-reset', true],
+    ['UNAVAILABLE', 'unavailable', true],
+    ['DATA_LOSS', 'stream-reset', true],
+    ['UNAUTHENTICATED', 'auth', false]
+  ];
+
+  it.each(cases)('classifies %s as %s (retryable: %s)', (status, category, retryable) => {
+    const code = GrpcStatus[status];
+    expect(classifyError(grpcError(code))).toEqual({ code, category, retryable });
+  });
+
+  it('covers every gRPC status code', () => {
+    expect(cases.map(([status]) => status).sort()).toEqual(Object.keys(GrpcStatus).sort());
+  });
+
+  it('treats errors without a numeric code as unknown and retryable', () => {
+    const unknown = { code: null, category: 'unknown', retryable: true };
+    expect(classifyError(new Error('socket hang up'))).toEqual(unknown);
+    expect(classifyError(Object.assign(new Error('ECONNRESET'), { code: 'ECONNRESET' }))).toEqual(unknown);
+    expect(classifyError(grpcError(99))).toEqual({ ...unknown, code: 99 });
+    expect(classifyError('text')).toEqual(unknown);
+    expect(classifyError(undefined)).toEqual(unknown);
+  });
+});
+
+describe('EndpointError', () => {
+  it('carries the endpoint context, the classification and the original error', () => {
+    const cause = grpcError(GrpcStatus.UNAUTHENTICATED, 'invalid token');
+    const error = new EndpointError(cause, { clientId: 'client-1', endpoint: 'https://a.example', attempt: 3 });
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toMatchObject({
+      name: 'EndpointError',
+      message: 'invalid token',
+      clientId: 'client-1',
+      endpoint: 'https://a.example',
+      code: GrpcStatus.UNAUTHENTICATED,
+      category: 'auth',
+      retryable: false,
+      attempt: 3
+    });
+    expect(error.cause).toBe(cause);
+  });
+
+  it('uses thrown non-errors as the message', () => {
+    const error = new EndpointError('connection refused', { clientId: 'client-1', endpoint: 'https://a.example', attempt: 1 });
+
+    expect(error.message).toBe('connection refused');
+    expect(error.category).toBe('unknown');
+  });
+});
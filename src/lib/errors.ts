@@ -0,0 +1,115 @@
+/**
+ * lib/errors.ts - Endpoint error classification
+ *
+ * Maps gRPC status codes onto a small set of error categories that decide how
+ * a client retries, and wraps stream errors in an EndpointError carrying the
+ * endpoint, the category and the attempt it ended. Also defines the error
+ * thrown for subscription requests that fail local validation.
+ *
+ * @module lib/errors
+ * @author StalkChain Team
+ * @version 1.1.2
+ */
+
+import { EndpointErrorCategory } from '../types';
+
+/**
+ * gRPC status codes, as carried on grpc-js errors
+ */
+export const GrpcStatus = {
+  OK: 0,
+  CANCELLED: 1,
+  UNKNOWN: 2,
+  INVALID_ARGUMENT: 3,
+  DEADLINE_EXCEEDED: 4,
+  NOT_FOUND: 5,
+  ALREADY_EXISTS: 6,
+  PERMISSION_DENIED: 7,
+  RESOURCE_EXHAUSTED: 8,
+  FAILED_PRECONDITION: 9,
+  ABORTED: 10,
+  OUT_OF_RANGE: 11,
+  UNIMPLEMENTED: 12,
+  INTERNAL: 13,
+  UNAVAILABLE: 14,
+  DATA_LOSS: 15,
+  UNAUTHENTICATED: 16
+} as const;
+
+/**
+ * Category of each status code; codes not listed are 'unknown'
+ */
+const CATEGORY_BY_CODE: ReadonlyMap<number, EndpointErrorCategory> = new Map<number, EndpointErrorCategory>([
+  [GrpcStatus.UNAUTHENTICATED, 'auth'],
+  [GrpcStatus.PERMISSION_DENIED, 'auth'],
+  [GrpcStatus.RESOURCE_EXHAUSTED, 'rate-limited'],
+  [GrpcStatus.UNAVAILABLE, 'unavailable'],
+  [GrpcStatus.DEADLINE_EXCEEDED, 'deadline'],
+  [GrpcStatus.INVALID_ARGUMENT, 'invalid-filter'],
+  [GrpcStatus.CANCELLED, 'stream-reset'],
+  [GrpcStatus.UNKNOWN, 'stream-reset'],
+  [GrpcStatus.ABORTED, 'stream-reset'],
+  [GrpcStatus.INTERNAL, 'stream-reset'], // grpc-js reports RST_STREAM frames as INTERNAL
+  [GrpcStatus.DATA_LOSS, 'stream-reset']
+]);
+
+/**
+ * Categories that fail the same way on every retry until the configuration changes
+ */
+const NON_RETRYABLE: ReadonlySet<EndpointErrorCategory> = new Set<EndpointErrorCategory>(['auth', 'invalid-filter']);
+
+/**
+ * Classify an error by its gRPC status code
+ *
+ * Errors without a numeric code (socket errors, plain Errors) are 'unknown'
+ * and retryable.
+ */
+export function classifyError(error: unknown): { code: number | null; category: EndpointErrorCategory; retryable: boolean } {
+  const rawCode = typeof error === 'object' && error !== null ? (error as { code?: unknown }).code : undefined;
+  const code = typeof rawCode === 'number' ? rawCode : null;
+  const category = (code !== null ? CATEGORY_BY_CODE.get(code) : undefined) ?? 'unknown';
+  return { code, category, retryable: !NON_RETRYABLE.has(category) };
+}
+
+/**
+ * An error from one endpoint, with the context needed to act on it
+ *
+ * The message is the original error's message; the original error is kept
+ * as `cause`.
+ */
+export class EndpointError extends Error {
+  readonly clientId: string;
+  readonly endpoint: string;
+  readonly code: number | null;  // gRPC status code, null when the error carried none
+  readonly category: EndpointErrorCategory;
+  readonly retryable: boolean;   // false when retrying would fail the same way
+  readonly attempt: number;      // Consecutive failed attempts, including this one
+  readonly cause: unknown;
+
+  constructor(cause: unknown, context: { clientId: string; endpoint: string; attempt: number }) {
+    super(cause instanceof Error ? cause.message : String(cause));
+    this.name = 'EndpointError';
+
+    const { code, category, retryable } = classifyError(cause);
+    this.clientId = context.clientId;
+    this.endpoint = context.endpoint;
+    this.code = code;
+    this.category = category;
+    this.retryable = retryable;
+    this.attempt = context.attempt;
+    this.cause = cause;
+  }
+}
+
+/**
+ * A subscription request that failed local validation and was not sent
+ */
+export class SubscriptionValidationError extends Error {
+  readonly issues: string[]; // Every problem found, each prefixed with its path in the request
+
+  constructor(issues: string[]) {
+    super(`Invalid subscription request: ${issues.join('; ')}`);
+    this.name = 'SubscriptionValidationError';
+    this.issues = issues;
+  }
+}
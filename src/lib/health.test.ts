@@ -0,0 +1,149 @@
+import { describe, it, expect } from '@jest/globals';
+import { HealthTracker } from './health';
+import { EndpointLatencyStats } from '../types';
+
+const ID = 'client-a';
+
+function latency(races: number, missed: number, lagP90Ms: number | null): EndpointLatencyStats {
+  return { clientId: ID, endpoint: 'https://a.example', races, wins: 0, winRate: 0, missed, lagP50Ms: lagP90Ms, lagP90Ms, lagP99Ms: lagP90Ms };
+}
+
+describe('HealthTracker', () => {
+  describe('getScore', () => {
+    it('scores by the share of the window the endpoint was connected', () => {
+      const tracker = new HealthTracker();
+      tracker.recordConnected(ID, false, 0);
+      expect(tracker.getScore(ID, undefined, 1000)).toBe(100);
+
+      tracker.recordDisconnected(ID, 1000);
+      expect(tracker.getScore(ID, undefined, 2000)).toBe(50);
+    });
+
+    it('deducts reconnects, errors and stale events', () => {
+      const tracker = new HealthTracker();
+      tracker.recordConnected(ID, false, 0);
+      tracker.recordDisconnected(ID, 500);
+      tracker.recordConnected(ID, true, 1000);
+      expect(tracker.getScore(ID, undefined, 2000)).toBe(75 - 10);
+
+      tracker.recordError(ID, 2000);
+      tracker.recordStale(ID, 2000);
+      expect(tracker.getScore(ID, undefined, 2000)).toBe(75 - 10 - 5 - 15);
+    });
+
+    it('deducts race misses and lag when given race statistics', () => {
+      const tracker = new HealthTracker();
+      tracker.recordConnected(ID, false, 0);
+      expect(tracker.getScore(ID, latency(100, 20, 1500), 1000)).toBe(88); // 100 - 5 - 7.5
+      expect(tracker.getScore(ID, latency(100, 0, 10000), 1000)).toBe(85);
+      expect(tracker.getScore(ID, latency(0, 0, null), 1000)).toBe(100);
+    });
+
+    it('forgets events that have left the window', () => {
+      const tracker = new HealthTracker({ healthWindowMs: 10000 });
+      tracker.recordConnected(ID, false, 0);
+      tracker.recordError(ID, 100);
+      expect(tracker.getScore(ID, undefined, 10000)).toBe(95);
+      expect(tracker.getScore(ID, undefined, 10101)).toBe(100);
+    });
+
+    it('never goes below 0', () => {
+      const tracker = new HealthTracker();
+      for (let i = 0; i < 10; i++) tracker.recordStale(ID, 0);
+      expect(tracker.getScore(ID, undefined, 1000)).toBe(0);
+    });
+  });
+
+  describe('evaluate', () => {
+    const options = { quarantineThreshold: 30, quarantineDurationMs: 1000, probeDurationMs: 500 };
+
+    it('quarantines a low-scoring endpoint only once observed for the probe duration', () => {
+      const tracker = new HealthTracker(options);
+      tracker.recordConnected(ID, false, 0);
+
+      expect(tracker.evaluate(ID, 10, true, 499)).toBeNull();
+      expect(tracker.evaluate(ID, 30, true, 500)).toBeNull();
+      expect(tracker.evaluate(ID, 29, true, 500)).toBe('quarantine');
+      expect(tracker.getState(ID)).toBe('quarantined');
+    });
+
+    it('does not quarantine when the pool cannot spare the endpoint', () => {
+      const tracker = new HealthTracker(options);
+      tracker.recordConnected(ID, false, 0);
+
+      expect(tracker.evaluate(ID, 0, false, 1000)).toBeNull();
+      expect(tracker.getState(ID)).toBe('healthy');
+    });
+
+    it('probes after the quarantine and recovers with a clean history when the probe passes', () => {
+      const tracker = new HealthTracker(options);
+      tracker.recordConnected(ID, false, 0);
+      tracker.recordError(ID, 100);
+      tracker.evaluate(ID, 0, true, 500);
+      tracker.recordDisconnected(ID, 500);
+
+      expect(tracker.evaluate(ID, 0, true, 1499)).toBeNull();
+      expect(tracker.evaluate(ID, 0, true, 1500)).toBe('probe');
+      expect(tracker.getState(ID)).toBe('probing');
+
+      tracker.recordConnected(ID, true, 1500);
+      expect(tracker.evaluate(ID, 0, true, 1999)).toBeNull();
+      expect(tracker.evaluate(ID, 0, true, 2000)).toBe('recover');
+      expect(tracker.getState(ID)).toBe('healthy');
+      expect(tracker.getScore(ID, undefined, 3000)).toBe(100);
+    });
+
+    it('quarantines again when the probe fails, doubling the period up to 16 times', () => {
+      const tracker = new HealthTracker(options);
+      tracker.recordConnected(ID, false, 0);
+      tracker.evaluate(ID, 0, true, 500);
+
+      let now = 1500;
+      expect(tracker.evaluate(ID, 0, true, now)).toBe('probe');
+
+      const periods: number[] = [];
+      for (let probe = 0; probe < 6; probe++) {
+        const quarantinedAt = now + 100;
+        tracker.recordError(ID, quarantinedAt);
+        expect(tracker.evaluate(ID, 0, true, quarantinedAt)).toBe('quarantine');
+
+        // Step through the quarantine until the next probe starts
+        now = quarantinedAt;
+        while (tracker.evaluate(ID, 0, true, now) === null) now += 1000;
+        expect(tracker.getState(ID)).toBe('probing');
+        periods.push(now - quarantinedAt);
+      }
+
+      expect(periods).toEqual([2000, 4000, 8000, 16000, 16000, 16000]);
+    });
+
+    it('fails a probe that ends disconnected', () => {
+      const tracker = new HealthTracker(options);
+      tracker.recordConnected(ID, false, 0);
+      tracker.evaluate(ID, 0, true, 500);
+      tracker.recordDisconnected(ID, 500);
+      tracker.evaluate(ID, 0, true, 1500);
+
+      expect(tracker.evaluate(ID, 100, true, 2000)).toBe('quarantine');
+    });
+
+    it('keeps probing a failing endpoint the pool cannot spare', () => {
+      const tracker = new HealthTracker(options);
+      tracker.recordConnected(ID, false, 0);
+      tracker.evaluate(ID, 0, true, 500);
+      tracker.evaluate(ID, 0, true, 1500);
+      tracker.recordError(ID, 1600);
+
+      expect(tracker.evaluate(ID, 0, false, 1600)).toBeNull();
+      expect(tracker.getState(ID)).toBe('probing');
+    });
+
+    it('never acts when the threshold is 0', () => {
+      const tracker = new HealthTracker({ ...options, quarantineThreshold: 0 });
+      tracker.recordConnected(ID, false, 0);
+
+      expect(tracker.evaluate(ID, 0, true, 10000)).toBeNull();
+      expect(tracker.getState(ID)).toBe('healthy');
+    });
+  });
+});
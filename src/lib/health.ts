@@ -0,0 +1,307 @@
+/**
+ * lib/health.ts - Endpoint health scoring and quarantine
+ *
+ * Scores each endpoint from 0 to 100 over a sliding window, combining
+ * uptime, reconnect frequency, errors, stale events and how it fares in the
+ * delivery race. Endpoints scoring below a threshold are quarantined by a
+ * circuit breaker: disconnected for a while, then probed before they rejoin.
+ *
+ * @module lib/health
+ * @author StalkChain Team
+ * @version 1.1.2
+ */
+
+import { DEFAULT_CONFIG } from '../constants';
+import { EndpointHealthState, EndpointLatencyStats } from '../types';
+
+/**
+ * Score deducted per event in the window, and for race performance
+ */
+const PENALTY = {
+  RECONNECT: 10,
+  ERROR: 5,
+  STALE: 15,
+  MISS_RATE: 25,   // At a 100% miss rate
+  MAX_LAG: 15,     // At LAG_PENALTY_CAP_MS or more p90 lag
+  LAG_PENALTY_CAP_MS: 3000
+} as const;
+
+/**
+ * Maximum quarantine after repeated failed probes, as a multiple of the base duration
+ */
+const MAX_QUARANTINE_MULTIPLIER = 16;
+
+/**
+ * Health history of one endpoint
+ */
+interface HealthRecord {
+  firstSeen: number;
+  connected: boolean;
+  connectedSince: number;
+  uptimeIntervals: Array<[number, number]>; // Closed connected periods inside the window
+  reconnects: number[]; // Timestamps of events inside the window
+  errors: number[];
+  stales: number[];
+  lastFailure: number;  // Most recent disconnect, error or stale event
+  state: EndpointHealthState;
+  stateUntil: number;   // End of quarantine or probe
+  failedProbes: number; // Consecutive probes that failed
+}
+
+/**
+ * Circuit breaker step for the pool to carry out
+ *
+ * - quarantine: disconnect the endpoint and stop retrying it
+ * - probe: reconnect it on trial
+ * - recover: the probe passed; the endpoint is healthy again
+ */
+export type HealthAction = 'quarantine' | 'probe' | 'recover';
+
+/**
+ * Scores endpoints and drives the quarantine circuit breaker
+ */
+export class HealthTracker {
+  private records: Map<string, HealthRecord> = new Map();
+  private config: {
+    windowMs: number;
+    threshold: number;
+    quarantineMs: number;
+    probeMs: number;
+  };
+
+  /**
+   * @param options.healthWindowMs - Period the score covers (default: 300000)
+   * @param options.quarantineThreshold - Score below which an endpoint is quarantined, 0 to disable (default: 30)
+   * @param options.quarantineDurationMs - First quarantine period, doubled after each failed probe (default: 60000)
+   * @param options.probeDurationMs - How long a probed endpoint must stay healthy to recover (default: 30000)
+   */
+  constructor(options?: {
+    healthWindowMs?: number;
+    quarantineThreshold?: number;
+    quarantineDurationMs?: number;
+    probeDurationMs?: number;
+  }) {
+    this.config = {
+      windowMs: options?.healthWindowMs ?? DEFAULT_CONFIG.HEALTH_WINDOW_MS,
+      threshold: options?.quarantineThreshold ?? DEFAULT_CONFIG.QUARANTINE_THRESHOLD,
+      quarantineMs: options?.quarantineDurationMs ?? DEFAULT_CONFIG.QUARANTINE_DURATION_MS,
+      probeMs: options?.probeDurationMs ?? DEFAULT_CONFIG.PROBE_DURATION_MS
+    };
+  }
+
+  /**
+   * Record that an endpoint connected
+   *
+   * @param reconnect - Whether it had been connected before
+   */
+  recordConnected(clientId: string, reconnect: boolean, now: number = Date.now()): void {
+    const record = this.getRecord(clientId, now);
+    if (record.connected) return;
+
+    record.connected = true;
+    record.connectedSince = now;
+    if (reconnect) {
+      record.reconnects.push(now);
+    }
+  }
+
+  /**
+   * Record that an endpoint disconnected
+   */
+  recordDisconnected(clientId: string, now: number = Date.now()): void {
+    const record = this.getRecord(clientId, now);
+    if (!record.connected) return;
+
+    record.connected = false;
+    record.uptimeIntervals.push([record.connectedSince, now]);
+    record.lastFailure = now;
+  }
+
+  /**
+   * Record a stream error from an endpoint
+   */
+  recordError(clientId: string, now: number = Date.now()): void {
+    const record = this.getRecord(clientId, now);
+    record.errors.push(now);
+    record.lastFailure = now;
+  }
+
+  /**
+   * Record that an endpoint was judged stale
+   */
+  recordStale(clientId: string, now: number = Date.now()): void {
+    const record = this.getRecord(clientId, now);
+    record.stales.push(now);
+    record.lastFailure = now;
+  }
+
+  /**
+   * Score an endpoint from 0 (unusable) to 100 (flawless) over the window
+   *
+   * @param latency - The endpoint's race statistics, if any
+   */
+  getScore(clientId: string, latency?: EndpointLatencyStats, now: number = Date.now()): number {
+    const record = this.getRecord(clientId, now);
+    this.prune(record, now);
+
+    const windowStart = Math.max(now - this.config.windowMs, record.firstSeen);
+    const observedMs = now - windowStart;
+    let uptimeMs = record.uptimeIntervals.reduce(
+      (total, [start, end]) => total + Math.max(0, end - Math.max(start, windowStart)),
+      0
+    );
+    if (record.connected) {
+      uptimeMs += now - Math.max(record.connectedSince, windowStart);
+    }
+    const uptimeRatio = observedMs > 0 ? Math.min(1, uptimeMs / observedMs) : (record.connected ? 1 : 0);
+
+    let score = 100 * uptimeRatio
+      - PENALTY.RECONNECT * record.reconnects.length
+      - PENALTY.ERROR * record.errors.length
+      - PENALTY.STALE * record.stales.length;
+
+    if (latency && latency.races > 0) {
+      score -= PENALTY.MISS_RATE * (latency.missed / latency.races);
+      if (latency.lagP90Ms !== null) {
+        score -= PENALTY.MAX_LAG * Math.min(1, latency.lagP90Ms / PENALTY.LAG_PENALTY_CAP_MS);
+      }
+    }
+
+    return Math.round(Math.max(0, Math.min(100, score)));
+  }
+
+  /**
+   * Get an endpoint's circuit breaker state
+   */
+  getState(clientId: string): EndpointHealthState {
+    return this.records.get(clientId)?.state ?? 'healthy';
+  }
+
+  /**
+   * Advance an endpoint's circuit breaker
+   *
+   * Healthy endpoints observed for at least the probe duration are
+   * quarantined when their score drops below the threshold. Quarantined
+   * endpoints are probed once their quarantine ends. A probe that ends
+   * connected, without a disconnect, error or stale event, recovers the
+   * endpoint with a clean history; otherwise the quarantine is doubled.
+   *
+   * @param score - Score to judge the endpoint by; the pool passes one without race statistics
+   * @param canQuarantine - false when quarantining would leave the pool without enough endpoints
+   * @returns The step for the pool to carry out, if any
+   */
+  evaluate(clientId: string, score: number, canQuarantine: boolean, now: number = Date.now()): HealthAction | null {
+    if (this.config.threshold <= 0) return null;
+
+    const record = this.getRecord(clientId, now);
+
+    switch (record.state) {
+      case 'healthy': {
+        const observedMs = now - record.firstSeen;
+        if (score >= this.config.threshold || observedMs < this.config.probeMs || !canQuarantine) {
+          return null;
+        }
+        this.enterQuarantine(record, now);
+        return 'quarantine';
+      }
+
+      case 'quarantined': {
+        if (now < record.stateUntil) return null;
+        record.state = 'probing';
+        record.stateUntil = now + this.config.probeMs;
+        return 'probe';
+      }
+
+      case 'probing': {
+        const probeStart = record.stateUntil - this.config.probeMs;
+        const probeEnded = now >= record.stateUntil;
+        if (record.lastFailure >= probeStart || (probeEnded && !record.connected)) {
+          // Failed probes back off, but never leave the pool without endpoints
+          if (!canQuarantine) return null;
+          record.failedProbes++;
+          this.enterQuarantine(record, now);
+          return 'quarantine';
+        }
+        if (!probeEnded) return null;
+
+        this.reset(clientId, record.connected, now);
+        return 'recover';
+      }
+    }
+  }
+
+  /**
+   * Forget an endpoint that has left the pool
+   */
+  removeClient(clientId: string): void {
+    this.records.delete(clientId);
+  }
+
+  /**
+   * Clear all state
+   */
+  destroy(): void {
+    this.records.clear();
+  }
+
+  /**
+   * Move an endpoint into quarantine, doubling the period for each failed probe
+   */
+  private enterQuarantine(record: HealthRecord, now: number): void {
+    const multiplier = Math.min(MAX_QUARANTINE_MULTIPLIER, Math.pow(2, record.failedProbes));
+    record.state = 'quarantined';
+    record.stateUntil = now + this.config.quarantineMs * multiplier;
+  }
+
+  /**
+   * Start a fresh history for a recovered endpoint so old penalties do not quarantine it again
+   */
+  private reset(clientId: string, connected: boolean, now: number): void {
+    const record = this.createRecord(now);
+    record.connected = connected;
+    record.connectedSince = now;
+    this.records.set(clientId, record);
+  }
+
+  /**
+   * Drop history that has left the window
+   */
+  private prune(record: HealthRecord, now: number): void {
+    const cutoff = now - this.config.windowMs;
+    record.uptimeIntervals = record.uptimeIntervals.filter(([, end]) => end > cutoff);
+    record.reconnects = record.reconnects.filter(timestamp => timestamp > cutoff);
+    record.errors = record.errors.filter(timestamp => timestamp > cutoff);
+    record.stales = record.stales.filter(timestamp => timestamp > cutoff);
+  }
+
+  /**
+   * Get or create the record for an endpoint
+   */
+  private getRecord(clientId: string, now: number): HealthRecord {
+    let record = this.records.get(clientId);
+    if (!record) {
+      record = this.createRecord(now);
+      this.records.set(clientId, record);
+    }
+    return record;
+  }
+
+  /**
+   * Empty record for an endpoint first seen now
+   */
+  private createRecord(now: number): HealthRecord {
+    return {
+      firstSeen: now,
+      connected: false,
+      connectedSince: now,
+      uptimeIntervals: [],
+      reconnects: [],
+      errors: [],
+      stales: [],
+      lastFailure: 0,
+      state: 'healthy',
+      stateUntil: 0,
+      failedProbes: 0
+    };
+  }
+}
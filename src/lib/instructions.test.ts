@@ -0,0 +1,170 @@
+import { describe, it, expect } from '@jest/globals';
+import bs58 from 'bs58';
+import {
+  InstructionDecoderRegistry,
+  ProgramId,
+  systemProgramDecoder,
+  splTokenDecoder,
+  token2022Decoder,
+  associatedTokenDecoder,
+  computeBudgetDecoder
+} from './instructions';
+import { DecodedInstruction, DecodedTransaction, InstructionDecoder } from '../types';
+
+const pubkey = (fill: number): string => bs58.encode(Buffer.alloc(32, fill));
+
+const u8 = (value: number): Buffer => Buffer.from([value]);
+const u32 = (value: number): Buffer => {
+  const bytes = Buffer.alloc(4);
+  bytes.writeUInt32LE(value);
+  return bytes;
+};
+const u64 = (value: bigint): Buffer => {
+  const bytes = Buffer.alloc(8);
+  bytes.writeBigUInt64LE(value);
+  return bytes;
+};
+const key = (fill: number): Buffer => Buffer.alloc(32, fill);
+
+const ACCOUNTS = [pubkey(1), pubkey(2), pubkey(3), pubkey(4), pubkey(5), pubkey(6)];
+
+describe('built-in decoders', () => {
+  it('decodes System transfers and seeded account creation', () => {
+    expect(systemProgramDecoder.decode(Buffer.concat([u32(2), u64(BigInt('18446744073709551615'))]), ACCOUNTS)).toEqual({
+      type: 'transfer',
+      accounts: { source: pubkey(1), destination: pubkey(2) },
+      args: { lamports: '18446744073709551615' }
+    });
+
+    const seed = Buffer.from('vault');
+    const data = Buffer.concat([u32(3), key(9), u64(BigInt(seed.length)), seed, u64(BigInt(1000)), u64(BigInt(165)), key(8)]);
+    expect(systemProgramDecoder.decode(data, ACCOUNTS.slice(0, 3))).toEqual({
+      type: 'createAccountWithSeed',
+      accounts: { source: pubkey(1), newAccount: pubkey(2), base: pubkey(3) },
+      args: { base: pubkey(9), seed: 'vault', lamports: '1000', space: '165', owner: pubkey(8) }
+    });
+  });
+
+  it('decodes token transfers and reports extra accounts as multisig signers', () => {
+    expect(splTokenDecoder.decode(Buffer.concat([u8(12), u64(BigInt(2500000)), u8(6)]), ACCOUNTS.slice(0, 4))).toEqual({
+      type: 'transferChecked',
+      accounts: { source: pubkey(1), mint: pubkey(2), destination: pubkey(3), authority: pubkey(4) },
+      args: { amount: '2500000', decimals: 6 }
+    });
+
+    expect(splTokenDecoder.decode(Buffer.concat([u8(3), u64(BigInt(1))]), ACCOUNTS)?.args).toEqual({
+      amount: '1',
+      signers: [pubkey(4), pubkey(5), pubkey(6)]
+    });
+  });
+
+  it('decodes optional authorities and authority types', () => {
+    expect(splTokenDecoder.decode(Buffer.concat([u8(6), u8(2), u8(1), key(7)]), ACCOUNTS.slice(0, 2))?.args).toEqual({
+      authorityType: 'accountOwner',
+      newAuthority: pubkey(7)
+    });
+    expect(splTokenDecoder.decode(Buffer.concat([u8(6), u8(3), u8(0)]), ACCOUNTS.slice(0, 2))?.args).toEqual({
+      authorityType: 'closeAccount',
+      newAuthority: null
+    });
+  });
+
+  it('decodes Token-2022 extensions that SPL Token does not know', () => {
+    const withFee = Buffer.concat([u8(26), u8(1), u64(BigInt(1000)), u8(9), u64(BigInt(10))]);
+    expect(token2022Decoder.decode(withFee, ACCOUNTS.slice(0, 4))).toEqual({
+      type: 'transferCheckedWithFee',
+      accounts: { source: pubkey(1), mint: pubkey(2), destination: pubkey(3), authority: pubkey(4) },
+      args: { amount: '1000', decimals: 9, fee: '10' }
+    });
+    expect(token2022Decoder.decode(Buffer.concat([u8(26), u8(0)]), [])?.type).toBe('transferFeeExtension');
+    expect(token2022Decoder.decode(Buffer.concat([u8(12), u64(BigInt(5)), u8(0)]), [])?.type).toBe('transferChecked');
+    expect(splTokenDecoder.decode(withFee, ACCOUNTS)).toBeNull();
+  });
+
+  it('decodes the associated token account instructions, including the original data-less create', () => {
+    expect(associatedTokenDecoder.decode(Buffer.alloc(0), ACCOUNTS)).toEqual({
+      type: 'create',
+      accounts: {
+        payer: pubkey(1), account: pubkey(2), wallet: pubkey(3), mint: pubkey(4), systemProgram: pubkey(5), tokenProgram: pubkey(6)
+      },
+      args: {}
+    });
+    expect(associatedTokenDecoder.decode(u8(1), ACCOUNTS)?.type).toBe('createIdempotent');
+    expect(associatedTokenDecoder.decode(u8(3), ACCOUNTS)).toBeNull();
+  });
+
+  it('decodes compute budget limits and prices', () => {
+    expect(computeBudgetDecoder.decode(Buffer.concat([u8(2), u32(200000)]), [])).toEqual({
+      type: 'setComputeUnitLimit', accounts: {}, args: { units: 200000 }
+    });
+    expect(computeBudgetDecoder.decode(Buffer.concat([u8(3), u64(BigInt(50000))]), [])).toEqual({
+      type: 'setComputeUnitPrice', accounts: {}, args: { microLamports: '50000' }
+    });
+  });
+
+  it('leaves accounts missing from the instruction out of the names', () => {
+    expect(splTokenDecoder.decode(u8(9), ACCOUNTS.slice(0, 2))?.accounts).toEqual({ account: pubkey(1), destination: pubkey(2) });
+  });
+});
+
+describe('InstructionDecoderRegistry', () => {
+  const instruction = (programId: string, data: Buffer, accounts: string[] = []): DecodedInstruction => ({
+    programId, accounts, data, stackHeight: 1, innerInstructions: []
+  });
+
+  it('starts with the built-in decoders unless disabled', () => {
+    expect(new InstructionDecoderRegistry().getProgramIds()).toEqual([
+      ProgramId.SYSTEM, ProgramId.TOKEN, ProgramId.TOKEN_2022, ProgramId.ASSOCIATED_TOKEN, ProgramId.COMPUTE_BUDGET
+    ]);
+    expect(new InstructionDecoderRegistry({ builtins: false }).getProgramIds()).toEqual([]);
+  });
+
+  it('adds the program to decoded instructions', () => {
+    const registry = new InstructionDecoderRegistry();
+    expect(registry.decode(instruction(ProgramId.COMPUTE_BUDGET, Buffer.concat([u8(2), u32(1)])))).toEqual({
+      programId: ProgramId.COMPUTE_BUDGET, program: 'compute-budget', type: 'setComputeUnitLimit', accounts: {}, args: { units: 1 }
+    });
+  });
+
+  it('returns null for unknown programs, unknown instructions and truncated data', () => {
+    const registry = new InstructionDecoderRegistry();
+    expect(registry.decode(instruction(pubkey(9), u8(0)))).toBeNull();
+    expect(registry.decode(instruction(ProgramId.SYSTEM, u32(99)))).toBeNull();
+    expect(registry.decode(instruction(ProgramId.SYSTEM, Buffer.concat([u32(2), u8(1)])))).toBeNull();
+    expect(registry.decode(instruction(ProgramId.TOKEN, Buffer.alloc(0)))).toBeNull();
+  });
+
+  it('replaces and removes decoders by program id', () => {
+    const custom: InstructionDecoder = {
+      programId: ProgramId.SYSTEM,
+      program: 'custom',
+      decode: () => ({ type: 'anything', accounts: {}, args: {} })
+    };
+    const registry = new InstructionDecoderRegistry().register(custom);
+
+    expect(registry.get(ProgramId.SYSTEM)).toBe(custom);
+    expect(registry.decode(instruction(ProgramId.SYSTEM, Buffer.alloc(0)))?.program).toBe('custom');
+    expect(registry.unregister(ProgramId.SYSTEM)).toBe(true);
+    expect(registry.unregister(ProgramId.SYSTEM)).toBe(false);
+    expect(registry.decode(instruction(ProgramId.SYSTEM, Buffer.alloc(0)))).toBeNull();
+  });
+
+  it('parses a transaction in execution order and marks each recognised instruction', () => {
+    const limit = instruction(ProgramId.COMPUTE_BUDGET, Buffer.concat([u8(2), u32(1)]));
+    const swap = instruction(pubkey(9), u8(1));
+    const innerTransfer = { ...instruction(ProgramId.TOKEN, Buffer.concat([u8(3), u64(BigInt(7))]), ACCOUNTS.slice(0, 3)), stackHeight: 2 };
+    swap.innerInstructions = [innerTransfer];
+    const transfer = instruction(ProgramId.SYSTEM, Buffer.concat([u32(2), u64(BigInt(3))]), ACCOUNTS.slice(0, 2));
+
+    const parsed = new InstructionDecoderRegistry().decodeTransaction({ instructions: [limit, swap, transfer] } as DecodedTransaction);
+
+    expect(parsed.map(entry => `${entry.program}:${entry.type}`)).toEqual([
+      'compute-budget:setComputeUnitLimit',
+      'spl-token:transfer',
+      'system:transfer'
+    ]);
+    expect(limit.parsed).toBe(parsed[0]);
+    expect(swap.parsed).toBeUndefined();
+    expect(innerTransfer.parsed).toBe(parsed[1]);
+  });
+});
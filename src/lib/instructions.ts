@@ -0,0 +1,506 @@
+/**
+ * lib/instructions.ts - Instruction decoder registry
+ *
+ * Maps program ids to InstructionDecoders that turn raw instruction data into
+ * ParsedInstructions with named accounts and typed arguments. Ships decoders
+ * for the System, SPL Token, Token-2022, Associated Token Account and Compute
+ * Budget programs; Anchor programs are added with createAnchorDecoder().
+ *
+ * @module lib/instructions
+ * @author StalkChain Team
+ * @version 1.1.2
+ */
+
+import bs58 from 'bs58';
+import { InstructionDecoder, ParsedInstruction, DecodedInstruction, DecodedTransaction } from '../types';
+
+/**
+ * Program ids of the built-in decoders
+ */
+export const ProgramId = {
+  SYSTEM: '11111111111111111111111111111111',
+  TOKEN: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+  TOKEN_2022: 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb',
+  ASSOCIATED_TOKEN: 'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL',
+  COMPUTE_BUDGET: 'ComputeBudget111111111111111111111111111111'
+} as const;
+
+/**
+ * Sequential little-endian reader over instruction data
+ *
+ * Every read throws a RangeError when the data is too short, which the
+ * registry treats as an unrecognised instruction.
+ */
+export class InstructionDataReader {
+  private data: Buffer;
+  private offset: number = 0;
+
+  constructor(data: Buffer) {
+    this.data = data;
+  }
+
+  /** Bytes not read yet */
+  remaining(): number {
+    return this.data.length - this.offset;
+  }
+
+  u8(): number {
+    return this.take(1).readUInt8(0);
+  }
+
+  i8(): number {
+    return this.take(1).readInt8(0);
+  }
+
+  u16(): number {
+    return this.take(2).readUInt16LE(0);
+  }
+
+  i16(): number {
+    return this.take(2).readInt16LE(0);
+  }
+
+  u32(): number {
+    return this.take(4).readUInt32LE(0);
+  }
+
+  i32(): number {
+    return this.take(4).readInt32LE(0);
+  }
+
+  /** u64 as a decimal string */
+  u64(): string {
+    return this.take(8).readBigUInt64LE(0).toString();
+  }
+
+  /** i64 as a decimal string */
+  i64(): string {
+    return this.take(8).readBigInt64LE(0).toString();
+  }
+
+  /** u128 as a decimal string */
+  u128(): string {
+    const bytes = this.take(16);
+    return ((bytes.readBigUInt64LE(8) << BigInt(64)) + bytes.readBigUInt64LE(0)).toString();
+  }
+
+  /** i128 as a decimal string */
+  i128(): string {
+    const bytes = this.take(16);
+    return ((bytes.readBigInt64LE(8) << BigInt(64)) + bytes.readBigUInt64LE(0)).toString();
+  }
+
+  f32(): number {
+    return this.take(4).readFloatLE(0);
+  }
+
+  f64(): number {
+    return this.take(8).readDoubleLE(0);
+  }
+
+  bool(): boolean {
+    return this.u8() !== 0;
+  }
+
+  /** 32-byte pubkey as base58 */
+  pubkey(): string {
+    return bs58.encode(this.take(32));
+  }
+
+  /** Pubkey behind a one-byte presence flag, as packed by the token programs */
+  optionalPubkey(): string | null {
+    return this.u8() === 0 ? null : this.pubkey();
+  }
+
+  /** UTF-8 string with a u32 length prefix (borsh) */
+  string(): string {
+    return this.take(this.u32()).toString('utf8');
+  }
+
+  /** UTF-8 string with a u64 length prefix (bincode, used by the System program) */
+  bincodeString(): string {
+    return this.take(Number(this.u64())).toString('utf8');
+  }
+
+  /** The next `length` bytes */
+  bytes(length: number): Buffer {
+    return this.take(length);
+  }
+
+  /** Everything not read yet */
+  rest(): Buffer {
+    return this.take(this.remaining());
+  }
+
+  private take(length: number): Buffer {
+    if (length > this.remaining()) {
+      throw new RangeError(`Instruction data too short: need ${length} bytes at offset ${this.offset}, have ${this.remaining()}`);
+    }
+    const bytes = this.data.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return bytes;
+  }
+}
+
+/**
+ * Name instruction accounts by position
+ *
+ * Accounts missing from the instruction are left out; extra accounts are
+ * ignored.
+ */
+export function nameAccounts(names: string[], accounts: string[]): Record<string, string> {
+  const named: Record<string, string> = {};
+  names.forEach((name, index) => {
+    const account = accounts[index];
+    if (account !== undefined) {
+      named[name] = account;
+    }
+  });
+  return named;
+}
+
+/**
+ * Layout of one instruction of a table-driven decoder
+ */
+interface InstructionLayout {
+  type: string;
+  accounts: string[];
+  args?: (reader: InstructionDataReader) => Record<string, unknown>;
+}
+
+/**
+ * System program instructions, by u32 index
+ */
+const SYSTEM_INSTRUCTIONS: ReadonlyMap<number, InstructionLayout> = new Map<number, InstructionLayout>([
+  [0, { type: 'createAccount', accounts: ['source', 'newAccount'],
+    args: reader => ({ lamports: reader.u64(), space: reader.u64(), owner: reader.pubkey() }) }],
+  [1, { type: 'assign', accounts: ['account'], args: reader => ({ owner: reader.pubkey() }) }],
+  [2, { type: 'transfer', accounts: ['source', 'destination'], args: reader => ({ lamports: reader.u64() }) }],
+  [3, { type: 'createAccountWithSeed', accounts: ['source', 'newAccount', 'base'],
+    args: reader => ({ base: reader.pubkey(), seed: reader.bincodeString(), lamports: reader.u64(), space: reader.u64(), owner: reader.pubkey() }) }],
+  [4, { type: 'advanceNonce', accounts: ['nonceAccount', 'recentBlockhashesSysvar', 'nonceAuthority'] }],
+  [5, { type: 'withdrawFromNonce', accounts: ['nonceAccount', 'destination', 'recentBlockhashesSysvar', 'rentSysvar', 'nonceAuthority'],
+    args: reader => ({ lamports: reader.u64() }) }],
+  [6, { type: 'initializeNonce', accounts: ['nonceAccount', 'recentBlockhashesSysvar', 'rentSysvar'],
+    args: reader => ({ nonceAuthority: reader.pubkey() }) }],
+  [7, { type: 'authorizeNonce', accounts: ['nonceAccount', 'nonceAuthority'], args: reader => ({ newAuthority: reader.pubkey() }) }],
+  [8, { type: 'allocate', accounts: ['account'], args: reader => ({ space: reader.u64() }) }],
+  [9, { type: 'allocateWithSeed', accounts: ['account', 'base'],
+    args: reader => ({ base: reader.pubkey(), seed: reader.bincodeString(), space: reader.u64(), owner: reader.pubkey() }) }],
+  [10, { type: 'assignWithSeed', accounts: ['account', 'base'],
+    args: reader => ({ base: reader.pubkey(), seed: reader.bincodeString(), owner: reader.pubkey() }) }],
+  [11, { type: 'transferWithSeed', accounts: ['source', 'sourceBase', 'destination'],
+    args: reader => ({ lamports: reader.u64(), sourceSeed: reader.bincodeString(), sourceOwner: reader.pubkey() }) }],
+  [12, { type: 'upgradeNonce', accounts: ['nonceAccount'] }]
+]);
+
+/**
+ * Authority types of the token programs' setAuthority instruction
+ */
+const TOKEN_AUTHORITY_TYPES = [
+  'mintTokens', 'freezeAccount', 'accountOwner', 'closeAccount', 'transferFeeConfig', 'withheldWithdraw',
+  'closeMint', 'interestRate', 'permanentDelegate', 'confidentialTransferMint', 'transferHookProgramId',
+  'confidentialTransferFeeConfig', 'metadataPointer', 'groupPointer', 'groupMemberPointer', 'scaledUiAmount', 'pause'
+];
+
+/**
+ * Instructions shared by SPL Token and Token-2022, by u8 index
+ *
+ * Accounts past the named ones are multisig signers, reported as args.signers.
+ */
+const TOKEN_INSTRUCTIONS: ReadonlyMap<number, InstructionLayout> = new Map<number, InstructionLayout>([
+  [0, { type: 'initializeMint', accounts: ['mint', 'rentSysvar'],
+    args: reader => ({ decimals: reader.u8(), mintAuthority: reader.pubkey(), freezeAuthority: reader.optionalPubkey() }) }],
+  [1, { type: 'initializeAccount', accounts: ['account', 'mint', 'owner', 'rentSysvar'] }],
+  [2, { type: 'initializeMultisig', accounts: ['multisig', 'rentSysvar'], args: reader => ({ m: reader.u8() }) }],
+  [3, { type: 'transfer', accounts: ['source', 'destination', 'authority'], args: reader => ({ amount: reader.u64() }) }],
+  [4, { type: 'approve', accounts: ['source', 'delegate', 'owner'], args: reader => ({ amount: reader.u64() }) }],
+  [5, { type: 'revoke', accounts: ['source', 'owner'] }],
+  [6, { type: 'setAuthority', accounts: ['account', 'authority'],
+    args: reader => {
+      const authorityType = reader.u8();
+      return { authorityType: TOKEN_AUTHORITY_TYPES[authorityType] ?? authorityType, newAuthority: reader.optionalPubkey() };
+    } }],
+  [7, { type: 'mintTo', accounts: ['mint', 'account', 'mintAuthority'], args: reader => ({ amount: reader.u64() }) }],
+  [8, { type: 'burn', accounts: ['account', 'mint', 'authority'], args: reader => ({ amount: reader.u64() }) }],
+  [9, { type: 'closeAccount', accounts: ['account', 'destination', 'owner'] }],
+  [10, { type: 'freezeAccount', accounts: ['account', 'mint', 'freezeAuthority'] }],
+  [11, { type: 'thawAccount', accounts: ['account', 'mint', 'freezeAuthority'] }],
+  [12, { type: 'transferChecked', accounts: ['source', 'mint', 'destination', 'authority'],
+    args: reader => ({ amount: reader.u64(), decimals: reader.u8() }) }],
+  [13, { type: 'approveChecked', accounts: ['source', 'mint', 'delegate', 'owner'],
+    args: reader => ({ amount: reader.u64(), decimals: reader.u8() }) }],
+  [14, { type: 'mintToChecked', accounts: ['mint', 'account', 'mintAuthority'],
+    args: reader => ({ amount: reader.u64(), decimals: reader.u8() }) }],
+  [15, { type: 'burnChecked', accounts: ['account', 'mint', 'authority'],
+    args: reader => ({ amount: reader.u64(), decimals: reader.u8() }) }],
+  [16, { type: 'initializeAccount2', accounts: ['account', 'mint', 'rentSysvar'], args: reader => ({ owner: reader.pubkey() }) }],
+  [17, { type: 'syncNative', accounts: ['account'] }],
+  [18, { type: 'initializeAccount3', accounts: ['account', 'mint'], args: reader => ({ owner: reader.pubkey() }) }],
+  [19, { type: 'initializeMultisig2', accounts: ['multisig'], args: reader => ({ m: reader.u8() }) }],
+  [20, { type: 'initializeMint2', accounts: ['mint'],
+    args: reader => ({ decimals: reader.u8(), mintAuthority: reader.pubkey(), freezeAuthority: reader.optionalPubkey() }) }],
+  [21, { type: 'getAccountDataSize', accounts: ['mint'] }],
+  [22, { type: 'initializeImmutableOwner', accounts: ['account'] }],
+  [23, { type: 'amountToUiAmount', accounts: ['mint'], args: reader => ({ amount: reader.u64() }) }],
+  [24, { type: 'uiAmountToAmount', accounts: ['mint'], args: reader => ({ uiAmount: reader.rest().toString('utf8') }) }]
+]);
+
+/**
+ * Token-2022 extension instructions, by u8 index
+ *
+ * Most extensions carry a sub-instruction in the next byte; only the commonly
+ * seen ones are decoded further.
+ */
+const TOKEN_2022_INSTRUCTIONS: ReadonlyMap<number, InstructionLayout> = new Map<number, InstructionLayout>([
+  [25, { type: 'initializeMintCloseAuthority', accounts: ['mint'], args: reader => ({ closeAuthority: reader.optionalPubkey() }) }],
+  [26, { type: 'transferFeeExtension', accounts: [] }],
+  [27, { type: 'confidentialTransferExtension', accounts: [] }],
+  [28, { type: 'defaultAccountStateExtension', accounts: [] }],
+  [29, { type: 'reallocate', accounts: ['account', 'payer', 'systemProgram', 'owner'] }],
+  [30, { type: 'memoTransferExtension', accounts: [] }],
+  [31, { type: 'createNativeMint', accounts: ['payer', 'nativeMint', 'systemProgram'] }],
+  [32, { type: 'initializeNonTransferableMint', accounts: ['mint'] }],
+  [33, { type: 'interestBearingMintExtension', accounts: [] }],
+  [34, { type: 'cpiGuardExtension', accounts: [] }],
+  [35, { type: 'initializePermanentDelegate', accounts: ['mint'], args: reader => ({ delegate: reader.pubkey() }) }],
+  [36, { type: 'transferHookExtension', accounts: [] }],
+  [37, { type: 'confidentialTransferFeeExtension', accounts: [] }],
+  [38, { type: 'withdrawExcessLamports', accounts: ['source', 'destination', 'authority'] }],
+  [39, { type: 'metadataPointerExtension', accounts: [] }],
+  [40, { type: 'groupPointerExtension', accounts: [] }],
+  [41, { type: 'groupMemberPointerExtension', accounts: [] }]
+]);
+
+/**
+ * Transfer fee sub-instructions carrying a transfer
+ */
+const TRANSFER_FEE_INSTRUCTIONS: ReadonlyMap<number, InstructionLayout> = new Map<number, InstructionLayout>([
+  [1, { type: 'transferCheckedWithFee', accounts: ['source', 'mint', 'destination', 'authority'],
+    args: reader => ({ amount: reader.u64(), decimals: reader.u8(), fee: reader.u64() }) }]
+]);
+
+/**
+ * Decode an instruction from a layout table
+ */
+function decodeWithLayout(
+  layout: InstructionLayout | undefined,
+  reader: InstructionDataReader,
+  accounts: string[]
+): Pick<ParsedInstruction, 'type' | 'accounts' | 'args'> | null {
+  if (!layout) return null;
+  return {
+    type: layout.type,
+    accounts: nameAccounts(layout.accounts, accounts),
+    args: layout.args ? layout.args(reader) : {}
+  };
+}
+
+/**
+ * Decoder for the System program
+ */
+export const systemProgramDecoder: InstructionDecoder = {
+  programId: ProgramId.SYSTEM,
+  program: 'system',
+  decode(data, accounts) {
+    const reader = new InstructionDataReader(data);
+    return decodeWithLayout(SYSTEM_INSTRUCTIONS.get(reader.u32()), reader, accounts);
+  }
+};
+
+/**
+ * Create a decoder for a token program
+ *
+ * Token-2022 understands every SPL Token instruction plus its extensions.
+ */
+function createTokenDecoder(programId: string, program: string, extensions: boolean): InstructionDecoder {
+  return {
+    programId,
+    program,
+    decode(data, accounts) {
+      const reader = new InstructionDataReader(data);
+      const index = reader.u8();
+
+      let layout = TOKEN_INSTRUCTIONS.get(index);
+      if (!layout && extensions) {
+        layout = TOKEN_2022_INSTRUCTIONS.get(index);
+        if (index === 26 && reader.remaining() > 0) {
+          const transferFeeLayout = TRANSFER_FEE_INSTRUCTIONS.get(reader.u8());
+          if (transferFeeLayout) layout = transferFeeLayout;
+        }
+      }
+
+      const decoded = decodeWithLayout(layout, reader, accounts);
+      if (decoded && layout && layout.accounts.length > 0 && accounts.length > layout.accounts.length) {
+        decoded.args.signers = accounts.slice(layout.accounts.length);
+      }
+      return decoded;
+    }
+  };
+}
+
+/**
+ * Decoder for the SPL Token program
+ */
+export const splTokenDecoder: InstructionDecoder = createTokenDecoder(ProgramId.TOKEN, 'spl-token', false);
+
+/**
+ * Decoder for the Token-2022 program
+ */
+export const token2022Decoder: InstructionDecoder = createTokenDecoder(ProgramId.TOKEN_2022, 'spl-token-2022', true);
+
+/**
+ * Decoder for the Associated Token Account program
+ */
+export const associatedTokenDecoder: InstructionDecoder = {
+  programId: ProgramId.ASSOCIATED_TOKEN,
+  program: 'spl-associated-token-account',
+  decode(data, accounts) {
+    const createAccounts = ['payer', 'account', 'wallet', 'mint', 'systemProgram', 'tokenProgram'];
+
+    // The original create instruction has no data at all
+    const index = data.length === 0 ? 0 : new InstructionDataReader(data).u8();
+    switch (index) {
+      case 0:
+        return { type: 'create', accounts: nameAccounts(createAccounts, accounts), args: {} };
+      case 1:
+        return { type: 'createIdempotent', accounts: nameAccounts(createAccounts, accounts), args: {} };
+      case 2:
+        return {
+          type: 'recoverNested',
+          accounts: nameAccounts(['nestedSource', 'nestedMint', 'destination', 'nestedOwner', 'ownerMint', 'wallet', 'tokenProgram'], accounts),
+          args: {}
+        };
+      default:
+        return null;
+    }
+  }
+};
+
+/**
+ * Decoder for the Compute Budget program
+ */
+export const computeBudgetDecoder: InstructionDecoder = {
+  programId: ProgramId.COMPUTE_BUDGET,
+  program: 'compute-budget',
+  decode(data) {
+    const reader = new InstructionDataReader(data);
+    switch (reader.u8()) {
+      case 0:
+        return { type: 'requestUnits', accounts: {}, args: { units: reader.u32(), additionalFee: reader.u32() } };
+      case 1:
+        return { type: 'requestHeapFrame', accounts: {}, args: { bytes: reader.u32() } };
+      case 2:
+        return { type: 'setComputeUnitLimit', accounts: {}, args: { units: reader.u32() } };
+      case 3:
+        return { type: 'setComputeUnitPrice', accounts: {}, args: { microLamports: reader.u64() } };
+      case 4:
+        return { type: 'setLoadedAccountsDataSizeLimit', accounts: {}, args: { bytes: reader.u32() } };
+      default:
+        return null;
+    }
+  }
+};
+
+/**
+ * Decoders registered by default
+ */
+const BUILTIN_DECODERS: InstructionDecoder[] = [
+  systemProgramDecoder,
+  splTokenDecoder,
+  token2022Decoder,
+  associatedTokenDecoder,
+  computeBudgetDecoder
+];
+
+/**
+ * Program id → decoder lookup used by the pool to parse instructions
+ *
+ * Starts with the built-in decoders unless `builtins` is false. Registering
+ * a decoder for a program id that already has one replaces it.
+ */
+export class InstructionDecoderRegistry {
+  private decoders: Map<string, InstructionDecoder> = new Map();
+
+  constructor(options: { builtins?: boolean } = {}) {
+    if (options.builtins ?? true) {
+      for (const decoder of BUILTIN_DECODERS) {
+        this.register(decoder);
+      }
+    }
+  }
+
+  /**
+   * Add or replace the decoder for a program
+   */
+  register(decoder: InstructionDecoder): this {
+    this.decoders.set(decoder.programId, decoder);
+    return this;
+  }
+
+  /**
+   * Remove the decoder for a program
+   *
+   * @returns true if a decoder was registered for the program
+   */
+  unregister(programId: string): boolean {
+    return this.decoders.delete(programId);
+  }
+
+  /**
+   * Decoder registered for a program, if any
+   */
+  get(programId: string): InstructionDecoder | undefined {
+    return this.decoders.get(programId);
+  }
+
+  /**
+   * Program ids with a registered decoder
+   */
+  getProgramIds(): string[] {
+    return Array.from(this.decoders.keys());
+  }
+
+  /**
+   * Decode one instruction
+   *
+   * Returns null when no decoder is registered for the program, the decoder
+   * does not recognise the instruction, or its data does not match the
+   * expected layout (decoder errors are not rethrown).
+   */
+  decode(instruction: Pick<DecodedInstruction, 'programId' | 'accounts' | 'data'>): ParsedInstruction | null {
+    const decoder = this.decoders.get(instruction.programId);
+    if (!decoder) return null;
+
+    try {
+      const decoded = decoder.decode(instruction.data, instruction.accounts);
+      return decoded ? { programId: instruction.programId, program: decoder.program, ...decoded } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Decode every instruction of a transaction
+   *
+   * Sets `parsed` on each recognised instruction of the decoded view.
+   *
+   * @returns The recognised instructions in execution order, inner
+   *   instructions directly after the instruction that invoked them
+   */
+  decodeTransaction(transaction: DecodedTransaction): ParsedInstruction[] {
+    const parsedInstructions: ParsedInstruction[] = [];
+
+    for (const instruction of transaction.instructions) {
+      for (const current of [instruction, ...instruction.innerInstructions]) {
+        const parsed = this.decode(current);
+        if (parsed) {
+          current.parsed = parsed;
+          parsedInstructions.push(parsed);
+        }
+      }
+    }
+
+    return parsedInstructions;
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { LatencyTracker } from './latency';
+
+const a = { clientId: 'client-a', endpoint: 'https://a.example' };
+const b = { clientId: 'client-b', endpoint: 'https://b.example' };
+const c = { clientId: 'client-c', endpoint: 'https://c.example' };
+
+describe('LatencyTracker', () => {
+  let tracker: LatencyTracker;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    tracker.destroy();
+    jest.useRealTimers();
+  });
+
+  const statsFor = (clientId: string) => tracker.getStats().find(stats => stats.clientId === clientId);
+
+  it('counts a race for every participant and a win for the first deliverer', () => {
+    tracker = new LatencyTracker();
+    tracker.recordWinner('sig-1', a, [a, b], 1000);
+    tracker.recordWinner('sig-2', b, [a, b], 1000);
+    tracker.recordWinner('sig-3', a, [a, b], 1000);
+
+    expect(statsFor('client-a')).toMatchObject({ endpoint: a.endpoint, races: 3, wins: 2, winRate: 2 / 3 });
+    expect(statsFor('client-b')).toMatchObject({ endpoint: b.endpoint, races: 3, wins: 1, winRate: 1 / 3 });
+  });
+
+  it('records how far later deliveries lag behind the winner, once per endpoint', () => {
+    tracker = new LatencyTracker();
+    tracker.recordWinner('sig', a, [a, b], 1000);
+    tracker.recordDuplicate('sig', b, 1040);
+    tracker.recordDuplicate('sig', b, 1900);
+    tracker.recordDuplicate('sig', a, 1500);
+
+    expect(statsFor('client-a')).toMatchObject({ lagP50Ms: 0, lagP99Ms: 0 });
+    expect(statsFor('client-b')).toMatchObject({ lagP50Ms: 40, lagP99Ms: 40 });
+  });
+
+  it('ignores duplicates of unknown or settled races', () => {
+    tracker = new LatencyTracker({ latencyWindowMs: 1000 });
+    tracker.recordDuplicate('unknown', b, 1000);
+    expect(statsFor('client-b')).toBeUndefined();
+
+    tracker.recordWinner('sig', a, [a, b], Date.now());
+    jest.advanceTimersByTime(1000);
+    tracker.recordDuplicate('sig', b, Date.now());
+    expect(statsFor('client-b')).toMatchObject({ missed: 1, lagP50Ms: null });
+  });
+
+  it('counts a miss for participants that never deliver within the window', () => {
+    tracker = new LatencyTracker({ latencyWindowMs: 5000 });
+    tracker.recordWinner('sig', a, [a, b, c], Date.now());
+    tracker.recordDuplicate('sig', b, Date.now() + 10);
+
+    jest.advanceTimersByTime(4000);
+    expect(statsFor('client-c')).toMatchObject({ missed: 0 });
+
+    jest.advanceTimersByTime(1000);
+    expect(statsFor('client-a')).toMatchObject({ missed: 0 });
+    expect(statsFor('client-b')).toMatchObject({ missed: 0 });
+    expect(statsFor('client-c')).toMatchObject({ missed: 1 });
+  });
+
+  it('settles the oldest race early when tracking the maximum', () => {
+    tracker = new LatencyTracker({ maxCacheSize: 1 });
+    tracker.recordWinner('sig-1', a, [a, b], 1000);
+    tracker.recordWinner('sig-2', a, [a, b], 1010);
+
+    expect(statsFor('client-b')).toMatchObject({ missed: 1 });
+  });
+
+  it('reports nearest-rank percentiles of the recent lag samples', () => {
+    tracker = new LatencyTracker({ latencySampleSize: 100 });
+    for (let lag = 0; lag < 100; lag++) {
+      tracker.recordWinner(`sig-${lag}`, a, [a, b], 1000);
+      tracker.recordDuplicate(`sig-${lag}`, b, 1000 + lag);
+    }
+    expect(statsFor('client-b')).toMatchObject({ lagP50Ms: 49, lagP90Ms: 89, lagP99Ms: 98 });
+
+    // The ring buffer replaces the oldest samples
+    for (let i = 0; i < 100; i++) {
+      tracker.recordWinner(`late-${i}`, a, [a, b], 1000);
+      tracker.recordDuplicate(`late-${i}`, b, 1500);
+    }
+    expect(statsFor('client-b')).toMatchObject({ lagP50Ms: 500, lagP90Ms: 500, lagP99Ms: 500 });
+  });
+
+  it('forgets an endpoint removed from the pool', () => {
+    tracker = new LatencyTracker();
+    tracker.recordWinner('sig', a, [a, b], 1000);
+    tracker.removeClient('client-b');
+
+    expect(tracker.getStats().map(stats => stats.clientId)).toEqual(['client-a']);
+  });
+});
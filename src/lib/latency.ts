@@ -0,0 +1,229 @@
+/**
+ * lib/latency.ts - Per-endpoint delivery race statistics
+ *
+ * Every unique signature starts a race between endpoints: the first endpoint
+ * to deliver it wins, later deliveries record how far they lagged behind the
+ * winner, and endpoints that never deliver it within the window count as a
+ * miss. Used to compare providers on speed and completeness.
+ *
+ * @module lib/latency
+ * @author StalkChain Team
+ * @version 1.1.2
+ */
+
+import { DEFAULT_CONFIG } from '../constants';
+import { EndpointLatencyStats } from '../types';
+
+/**
+ * Participant in a race
+ */
+interface RaceParticipant {
+  clientId: string;
+  endpoint: string;
+}
+
+/**
+ * Open race for one signature
+ */
+interface Race {
+  startedAt: number;
+  eligible: string[];  // clientIds connected when the race started
+  seenBy: Set<string>; // clientIds that delivered the signature
+}
+
+/**
+ * Running statistics for one endpoint
+ */
+interface EndpointRecord {
+  endpoint: string;
+  races: number;
+  wins: number;
+  missed: number;
+  lagSamples: number[]; // Ring buffer of recent lag samples in ms (0 for wins)
+  nextSample: number;
+}
+
+/**
+ * Tracks delivery races between endpoints
+ */
+export class LatencyTracker {
+  private races: Map<string, Race> = new Map();
+  private records: Map<string, EndpointRecord> = new Map();
+  private cleanupInterval: NodeJS.Timeout | null = null;
+  private config: {
+    windowMs: number;
+    maxRaces: number;
+    sampleSize: number;
+  };
+
+  constructor(options?: { latencyWindowMs?: number; maxCacheSize?: number; latencySampleSize?: number }) {
+    this.config = {
+      windowMs: options?.latencyWindowMs ?? DEFAULT_CONFIG.LATENCY_WINDOW_MS,
+      maxRaces: options?.maxCacheSize ?? DEFAULT_CONFIG.MAX_DEDUP_SIGNATURES,
+      sampleSize: options?.latencySampleSize ?? DEFAULT_CONFIG.LATENCY_SAMPLE_SIZE
+    };
+
+    this.startCleanupInterval();
+  }
+
+  /**
+   * Record the first delivery of a signature
+   *
+   * @param signature - Base58 signature
+   * @param winner - Endpoint that delivered it first
+   * @param participants - Endpoints connected at this moment, including the winner
+   * @param timestamp - When the winner received it
+   */
+  recordWinner(signature: string, winner: RaceParticipant, participants: RaceParticipant[], timestamp: number): void {
+    // Keep memory bounded: settle the oldest race early when at capacity
+    if (this.races.size >= this.config.maxRaces) {
+      const oldest = this.races.keys().next();
+      if (!oldest.done) this.settle(oldest.value);
+    }
+
+    participants.forEach(participant => {
+      this.getRecord(participant).races++;
+    });
+
+    const record = this.getRecord(winner);
+    record.wins++;
+    this.addSample(record, 0);
+
+    this.races.set(signature, {
+      startedAt: timestamp,
+      eligible: participants.map(participant => participant.clientId),
+      seenBy: new Set([winner.clientId])
+    });
+  }
+
+  /**
+   * Record a later delivery of a signature
+   *
+   * @param signature - Base58 signature
+   * @param participant - Endpoint that delivered the duplicate
+   * @param timestamp - When it received it
+   */
+  recordDuplicate(signature: string, participant: RaceParticipant, timestamp: number): void {
+    const race = this.races.get(signature);
+    if (!race || race.seenBy.has(participant.clientId)) {
+      return;
+    }
+
+    race.seenBy.add(participant.clientId);
+    this.addSample(this.getRecord(participant), Math.max(0, timestamp - race.startedAt));
+  }
+
+  /**
+   * Get per-endpoint race statistics
+   */
+  getStats(): EndpointLatencyStats[] {
+    return Array.from(this.records.entries()).map(([clientId, record]) => {
+      const sorted = [...record.lagSamples].sort((a, b) => a - b);
+
+      return {
+        clientId,
+        endpoint: record.endpoint,
+        races: record.races,
+        wins: record.wins,
+        winRate: record.races > 0 ? record.wins / record.races : 0,
+        missed: record.missed,
+        lagP50Ms: percentile(sorted, 0.5),
+        lagP90Ms: percentile(sorted, 0.9),
+        lagP99Ms: percentile(sorted, 0.99)
+      };
+    });
+  }
+
+  /**
+   * Forget an endpoint that has left the pool
+   */
+  removeClient(clientId: string): void {
+    this.records.delete(clientId);
+  }
+
+  /**
+   * Close a race and count misses for eligible endpoints that never delivered
+   */
+  private settle(signature: string): void {
+    const race = this.races.get(signature);
+    if (!race) return;
+
+    this.races.delete(signature);
+    race.eligible.forEach(clientId => {
+      if (!race.seenBy.has(clientId)) {
+        const record = this.records.get(clientId);
+        if (record) record.missed++;
+      }
+    });
+  }
+
+  /**
+   * Get or create the record for an endpoint
+   */
+  private getRecord(participant: RaceParticipant): EndpointRecord {
+    let record = this.records.get(participant.clientId);
+    if (!record) {
+      record = { endpoint: participant.endpoint, races: 0, wins: 0, missed: 0, lagSamples: [], nextSample: 0 };
+      this.records.set(participant.clientId, record);
+    }
+    return record;
+  }
+
+  /**
+   * Add a lag sample to an endpoint's ring buffer
+   */
+  private addSample(record: EndpointRecord, lagMs: number): void {
+    if (record.lagSamples.length < this.config.sampleSize) {
+      record.lagSamples.push(lagMs);
+    } else {
+      record.lagSamples[record.nextSample] = lagMs;
+      record.nextSample = (record.nextSample + 1) % this.config.sampleSize;
+    }
+  }
+
+  /**
+   * Start automatic cleanup interval to settle finished races
+   */
+  private startCleanupInterval(): void {
+    // Clean up every 1 second, same cadence as deduplication
+    this.cleanupInterval = setInterval(() => {
+      this.settleExpiredRaces();
+    }, 1000);
+  }
+
+  /**
+   * Settle races older than the window
+   *
+   * Races are inserted in start order, so scanning stops at the first race
+   * still inside the window.
+   */
+  private settleExpiredRaces(): void {
+    const cutoff = Date.now() - this.config.windowMs;
+
+    for (const [signature, race] of this.races.entries()) {
+      if (race.startedAt > cutoff) break;
+      this.settle(signature);
+    }
+  }
+
+  /**
+   * Clear all state and stop cleanup interval
+   */
+  destroy(): void {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+    this.races.clear();
+    this.records.clear();
+  }
+}
+
+/**
+ * Nearest-rank percentile of an ascending array
+ */
+function percentile(sorted: number[], fraction: number): number | null {
+  if (sorted.length === 0) return null;
+  const index = Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1);
+  return sorted[Math.max(0, index)] ?? null;
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { createConsoleLogger, noopLogger, toErrorFields } from './logger';
+
+describe('createConsoleLogger', () => {
+  let sinks: Record<'debug' | 'log' | 'warn' | 'error', jest.Mock>;
+
+  beforeEach(() => {
+    sinks = {
+      debug: jest.fn(),
+      log: jest.fn(),
+      warn: jest.fn(),
+      error: jest.fn()
+    };
+    (Object.keys(sinks) as (keyof typeof sinks)[]).forEach(method => {
+      jest.spyOn(console, method).mockImplementation(sinks[method]);
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('writes info and above by default, with warn and error on stderr', () => {
+    const logger = createConsoleLogger();
+
+    logger.debug({}, 'hidden');
+    logger.info({}, 'connected');
+    logger.warn({ clientId: 'client-1' }, 'slow');
+    logger.error({ attempt: 3 }, 'gave up');
+
+    expect(sinks.debug).not.toHaveBeenCalled();
+    expect(sinks.log).toHaveBeenCalledWith('[grpc-pool] connected');
+    expect(sinks.warn).toHaveBeenCalledWith('[grpc-pool] slow', '{"clientId":"client-1"}');
+    expect(sinks.error).toHaveBeenCalledWith('[grpc-pool] gave up', '{"attempt":3}');
+  });
+
+  it('only writes lines at or above the configured level', () => {
+    const warnLogger = createConsoleLogger('warn');
+    warnLogger.info({}, 'hidden');
+    warnLogger.warn({}, 'shown');
+    expect(sinks.log).not.toHaveBeenCalled();
+    expect(sinks.warn).toHaveBeenCalledTimes(1);
+
+    const debugLogger = createConsoleLogger('debug');
+    debugLogger.debug({}, 'details');
+    expect(sinks.debug).toHaveBeenCalledWith('[grpc-pool] details');
+  });
+
+  it('keeps error messages and codes in the JSON fields', () => {
+    const logger = createConsoleLogger();
+    logger.warn({ err: Object.assign(new Error('denied'), { code: 16 }) }, 'Stream error');
+
+    expect(sinks.warn).toHaveBeenCalledWith('[grpc-pool] Stream error', '{"err":{"message":"denied","code":16}}');
+  });
+
+  it('noopLogger writes nothing', () => {
+    noopLogger.error({ err: 'boom' }, 'ignored');
+    Object.values(sinks).forEach(sink => expect(sink).not.toHaveBeenCalled());
+  });
+});
+
+describe('toErrorFields', () => {
+  it('reduces errors and thrown values to a message and optional code', () => {
+    expect(toErrorFields(new Error('plain'))).toEqual({ message: 'plain' });
+    expect(toErrorFields(Object.assign(new Error('grpc'), { code: 14 }))).toEqual({ message: 'grpc', code: 14 });
+    expect(toErrorFields('text')).toEqual({ message: 'text' });
+  });
+});
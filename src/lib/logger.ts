@@ -0,0 +1,103 @@
+/**
+ * lib/logger.ts - Pluggable structured logging
+ *
+ * Defines the logger interface the pool and clients write to, along with a
+ * console adapter (the default) and a no-op logger. The interface follows
+ * pino's `(fields, message)` call style so a pino logger can be passed as-is.
+ *
+ * @module lib/logger
+ * @author StalkChain Team
+ * @version 1.1.2
+ */
+
+/**
+ * Log levels in increasing severity
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Structured fields attached to a log line
+ *
+ * Common fields: clientId, endpoint, attempt, delayMs, err.
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Logger accepted by the `logger` pool option
+ *
+ * Compatible with pino. For winston, wrap it:
+ * `{ info: (fields, msg) => winston.info(msg, fields), ... }`.
+ */
+export interface PoolLogger {
+  debug(fields: LogFields, message: string): void;
+  info(fields: LogFields, message: string): void;
+  warn(fields: LogFields, message: string): void;
+  error(fields: LogFields, message: string): void;
+}
+
+/**
+ * Ordering of log levels, used to filter the console adapter
+ */
+const LOG_LEVEL_RANK: Record<LogLevel, number> = {
+  debug: 0,
+  info: 1,
+  warn: 2,
+  error: 3
+};
+
+/**
+ * Logger that discards everything
+ */
+export const noopLogger: PoolLogger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {}
+};
+
+/**
+ * Create a logger writing to the console
+ *
+ * Lines are written as `[grpc-pool] <message> <fields as JSON>`, with warn
+ * and error going to stderr.
+ *
+ * @param level - Minimum level to write (default: 'info')
+ */
+export function createConsoleLogger(level: LogLevel = 'info'): PoolLogger {
+  const write = (lineLevel: LogLevel, sink: (...args: unknown[]) => void) =>
+    (fields: LogFields, message: string): void => {
+      if (LOG_LEVEL_RANK[lineLevel] < LOG_LEVEL_RANK[level]) return;
+
+      const keys = Object.keys(fields);
+      if (keys.length === 0) {
+        sink(`[grpc-pool] ${message}`);
+      } else {
+        sink(`[grpc-pool] ${message}`, JSON.stringify(fields, serializeError));
+      }
+    };
+
+  return {
+    debug: write('debug', console.debug),
+    info: write('info', console.log),
+    warn: write('warn', console.warn),
+    error: write('error', console.error)
+  };
+}
+
+/**
+ * Reduce an unknown thrown value to something that serializes usefully
+ */
+export function toErrorFields(error: unknown): { message: string; code?: unknown } {
+  if (error instanceof Error) {
+    const code = (error as { code?: unknown }).code;
+    return code !== undefined ? { message: error.message, code } : { message: error.message };
+  }
+  return { message: String(error) };
+}
+
+/**
+ * JSON replacer keeping Error messages, which JSON.stringify would drop
+ */
+function serializeError(_key: string, value: unknown): unknown {
+  return value instanceof Error ? toErrorFields(value) : value;
+}
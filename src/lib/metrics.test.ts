@@ -0,0 +1,104 @@
+import { describe, it, expect } from '@jest/globals';
+import { renderOpenMetrics } from './metrics';
+import { EndpointMetrics, PoolMetrics } from '../types';
+
+function endpoint(overrides: Partial<EndpointMetrics> = {}): EndpointMetrics {
+  return {
+    clientId: 'client-a',
+    endpoint: 'https://a.example',
+    connected: true,
+    messagesReceived: 120,
+    duplicates: 20,
+    reconnects: 2,
+    staleReconnects: 1,
+    retryAttempts: 0,
+    timeSinceLastMessageMs: 1500,
+    pingRttMs: 42,
+    healthScore: 87,
+    quarantined: false,
+    ...overrides
+  };
+}
+
+function snapshot(overrides: Partial<PoolMetrics> = {}): PoolMetrics {
+  return {
+    endpoints: [endpoint()],
+    deduplication: { size: 5, maxSize: 10000, evictions: 3 },
+    timestamp: 0,
+    ...overrides
+  };
+}
+
+const LABELS = '{client_id="client-a",endpoint="https://a.example"}';
+
+describe('renderOpenMetrics', () => {
+  it('renders each family with TYPE and HELP lines and ends with # EOF', () => {
+    const text = renderOpenMetrics(snapshot());
+    const lines = text.split('\n');
+
+    expect(text.endsWith('# EOF\n')).toBe(true);
+    expect(lines.indexOf('# EOF')).toBe(lines.length - 2);
+    expect(lines.slice(0, 3)).toEqual([
+      '# TYPE grpc_pool_endpoint_connected gauge',
+      '# HELP grpc_pool_endpoint_connected Whether the endpoint stream is connected (1) or not (0).',
+      `grpc_pool_endpoint_connected${LABELS} 1`
+    ]);
+  });
+
+  it('suffixes counter samples with _total but not their family name', () => {
+    const lines = renderOpenMetrics(snapshot()).split('\n');
+
+    expect(lines).toContain('# TYPE grpc_pool_messages_received counter');
+    expect(lines).toContain(`grpc_pool_messages_received_total${LABELS} 120`);
+    expect(lines).toContain(`grpc_pool_duplicates_total${LABELS} 20`);
+    expect(lines).toContain(`grpc_pool_stale_reconnects_total${LABELS} 1`);
+    expect(lines).toContain('grpc_pool_dedup_evictions_total 3');
+    expect(lines).toContain(`grpc_pool_health_score${LABELS} 87`);
+  });
+
+  it('reports times in seconds', () => {
+    const lines = renderOpenMetrics(snapshot()).split('\n');
+
+    expect(lines).toContain(`grpc_pool_seconds_since_last_message${LABELS} 1.5`);
+    expect(lines).toContain(`grpc_pool_ping_rtt_seconds${LABELS} 0.042`);
+  });
+
+  it('omits ping samples for endpoints without a round trip', () => {
+    const text = renderOpenMetrics(snapshot({ endpoints: [endpoint({ pingRttMs: null })] }));
+
+    expect(text).toContain('# TYPE grpc_pool_ping_rtt_seconds gauge');
+    expect(text).not.toMatch(/^grpc_pool_ping_rtt_seconds\{/m);
+  });
+
+  it('escapes backslashes, quotes and newlines in label values', () => {
+    const text = renderOpenMetrics(snapshot({ endpoints: [endpoint({ clientId: 'a"b\\c\nd' })] }));
+
+    expect(text).toContain('client_id="a\\"b\\\\c\\nd"');
+  });
+
+  it('includes cache bytes and quorum families only when present', () => {
+    const without = renderOpenMetrics(snapshot());
+    expect(without).not.toContain('grpc_pool_dedup_cache_bytes');
+    expect(without).not.toContain('grpc_pool_quorum_');
+
+    const withBoth = renderOpenMetrics(snapshot({
+      deduplication: { size: 5, maxSize: 10000, evictions: 3, estimatedBytes: 4096 },
+      quorum: { quorum: 2, pending: 4, confirmed: 10, expired: 1 }
+    })).split('\n');
+    expect(withBoth).toContain('grpc_pool_dedup_cache_bytes 4096');
+    expect(withBoth).toContain('grpc_pool_quorum_pending 4');
+    expect(withBoth).toContain('grpc_pool_quorum_confirmed_total 10');
+    expect(withBoth).toContain('grpc_pool_quorum_expired_total 1');
+  });
+
+  it('renders one sample per endpoint', () => {
+    const lines = renderOpenMetrics(snapshot({
+      endpoints: [endpoint(), endpoint({ clientId: 'client-b', endpoint: 'https://b.example', connected: false })]
+    })).split('\n');
+
+    expect(lines.filter(line => line.startsWith('grpc_pool_endpoint_connected{'))).toEqual([
+      `grpc_pool_endpoint_connected${LABELS} 1`,
+      'grpc_pool_endpoint_connected{client_id="client-b",endpoint="https://b.example"} 0'
+    ]);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * lib/metrics.ts - Pool health metrics and OpenMetrics exporter
+ *
+ * Counts per-endpoint traffic and reconnections as they happen and renders
+ * pool snapshots in the OpenMetrics text format, with a tiny HTTP handler
+ * for Prometheus-compatible scrapers.
+ *
+ * @module lib/metrics
+ * @author StalkChain Team
+ * @version 1.1.2
+ */
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { PoolMetrics } from '../types';
+
+/**
+ * Content type of the OpenMetrics text exposition format
+ */
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+/**
+ * Prefix shared by every exported metric name
+ */
+const METRIC_PREFIX = 'grpc_pool_';
+
+/**
+ * Running counters for one endpoint
+ */
+interface EndpointCounters {
+  messagesReceived: number;
+  duplicates: number;
+  reconnects: number;
+  staleReconnects: number;
+}
+
+/**
+ * Collects per-endpoint counters as events happen
+ *
+ * Gauges such as connection state and time since last message are read from
+ * the clients when a snapshot is taken, so only counters are kept here.
+ */
+export class MetricsCollector {
+  private counters: Map<string, EndpointCounters> = new Map();
+
+  /**
+   * Count an update received from an endpoint
+   */
+  recordMessage(clientId: string): void {
+    this.get(clientId).messagesReceived++;
+  }
+
+  /**
+   * Count an update from an endpoint that was filtered as a duplicate
+   */
+  recordDuplicate(clientId: string): void {
+    this.get(clientId).duplicates++;
+  }
+
+  /**
+   * Count a successful reconnection of an endpoint
+   */
+  recordReconnect(clientId: string): void {
+    this.get(clientId).reconnects++;
+  }
+
+  /**
+   * Count a reconnection forced by stale connection detection
+   */
+  recordStaleReconnect(clientId: string): void {
+    this.get(clientId).staleReconnects++;
+  }
+
+  /**
+   * Get the counters of an endpoint (all zero if nothing was recorded yet)
+   */
+  get(clientId: string): EndpointCounters {
+    let counters = this.counters.get(clientId);
+    if (!counters) {
+      counters = { messagesReceived: 0, duplicates: 0, reconnects: 0, staleReconnects: 0 };
+      this.counters.set(clientId, counters);
+    }
+    return counters;
+  }
+
+  /**
+   * Forget an endpoint that has left the pool
+   */
+  removeClient(clientId: string): void {
+    this.counters.delete(clientId);
+  }
+}
+
+/**
+ * Render a metrics snapshot in the OpenMetrics text format
+ *
+ * @param metrics - Snapshot from pool.getMetrics()
+ * @returns Exposition text terminated by `# EOF`
+ */
+export function renderOpenMetrics(metrics: PoolMetrics): string {
+  const lines: string[] = [];
+
+  const family = (name: string, type: 'counter' | 'gauge', help: string, samples: Array<[string, number]>): void => {
+    lines.push(`# TYPE ${METRIC_PREFIX}${name} ${type}`);
+    lines.push(`# HELP ${METRIC_PREFIX}${name} ${help}`);
+    samples.forEach(([labels, value]) => {
+      const suffix = type === 'counter' ? '_total' : '';
+      lines.push(`${METRIC_PREFIX}${name}${suffix}${labels} ${formatValue(value)}`);
+    });
+  };
+
+  const endpoints = metrics.endpoints.map(endpoint => ({
+    labels: `{client_id="${escapeLabel(endpoint.clientId)}",endpoint="${escapeLabel(endpoint.endpoint)}"}`,
+    endpoint
+  }));
+  const perEndpoint = (value: (endpoint: PoolMetrics['endpoints'][number]) => number): Array<[string, number]> =>
+    endpoints.map(({ labels, endpoint }) => [labels, value(endpoint)]);
+
+  family('endpoint_connected', 'gauge', 'Whether the endpoint stream is connected (1) or not (0).',
+    perEndpoint(endpoint => endpoint.connected ? 1 : 0));
+  family('messages_received', 'counter', 'Updates received from the endpoint, including duplicates.',
+    perEndpoint(endpoint => endpoint.messagesReceived));
+  family('duplicates', 'counter', 'Updates from the endpoint filtered as duplicates.',
+    perEndpoint(endpoint => endpoint.duplicates));
+  family('reconnects', 'counter', 'Successful reconnections of the endpoint.',
+    perEndpoint(endpoint => endpoint.reconnects));
+  family('stale_reconnects', 'counter', 'Reconnections forced by stale connection detection.',
+    perEndpoint(endpoint => endpoint.staleReconnects));
+  family('retry_attempts', 'gauge', 'Consecutive failed connection attempts since the last successful connection.',
+    perEndpoint(endpoint => endpoint.retryAttempts));
+  family('seconds_since_last_message', 'gauge', 'Seconds since the endpoint last delivered data.',
+    perEndpoint(endpoint => endpoint.timeSinceLastMessageMs / 1000));
+  family('health_score', 'gauge', 'Endpoint health score from 0 (unusable) to 100 (flawless).',
+    perEndpoint(endpoint => endpoint.healthScore));
+  family('endpoint_quarantined', 'gauge', 'Whether the endpoint is quarantined (1) or not (0).',
+    perEndpoint(endpoint => endpoint.quarantined ? 1 : 0));
+  family('ping_rtt_seconds', 'gauge', 'Most recent ping round trip to the endpoint.',
+    endpoints
+      .filter(({ endpoint }) => endpoint.pingRttMs !== null)
+      .map(({ labels, endpoint }) => [labels, (endpoint.pingRttMs ?? 0) / 1000]));
+
+  family('dedup_cache_size', 'gauge', 'Entries in the deduplication cache.',
+    [['', metrics.deduplication.size]]);
+  family('dedup_cache_max_size', 'gauge', 'Maximum entries in the deduplication cache.',
+    [['', metrics.deduplication.maxSize]]);
+  family('dedup_evictions', 'counter', 'Deduplication entries evicted to make room before their TTL expired.',
+    [['', metrics.deduplication.evictions]]);
+  if (metrics.deduplication.estimatedBytes !== undefined) {
+    family('dedup_cache_bytes', 'gauge', 'Approximate memory held by the deduplication cache.',
+      [['', metrics.deduplication.estimatedBytes]]);
+  }
+
+  if (metrics.quorum) {
+    family('quorum_pending', 'gauge', 'Transactions waiting for more endpoints to reach the quorum.',
+      [['', metrics.quorum.pending]]);
+    family('quorum_confirmed', 'counter', 'Transactions reported by enough endpoints to reach the quorum.',
+      [['', metrics.quorum.confirmed]]);
+    family('quorum_expired', 'counter', 'Transactions dropped for not reaching the quorum within the window.',
+      [['', metrics.quorum.expired]]);
+  }
+
+  lines.push('# EOF');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Create an HTTP request handler serving pool metrics for scrapers
+ *
+ * Responds to GET and HEAD on any path; mount it on a route of your own
+ * server or pass it straight to `http.createServer()`.
+ *
+ * @param source - Anything with getMetrics(), usually the pool
+ */
+export function createMetricsHandler(source: { getMetrics(): PoolMetrics }): (req: IncomingMessage, res: ServerResponse) => void {
+  return (req, res) => {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { Allow: 'GET, HEAD' });
+      res.end();
+      return;
+    }
+
+    const body = renderOpenMetrics(source.getMetrics());
+    res.writeHead(200, {
+      'Content-Type': OPENMETRICS_CONTENT_TYPE,
+      'Content-Length': Buffer.byteLength(body)
+    });
+    res.end(req.method === 'HEAD' ? undefined : body);
+  };
+}
+
+/**
+ * Escape a label value per the exposition format
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Format a sample value, keeping integers free of a decimal point
+ */
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (!Number.isFinite(value)) return value > 0 ? '+Inf' : '-Inf';
+  return String(value);
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, jest } from '@jest/globals';
+import { OutputBuffer } from './output';
+import { OverflowPolicy } from '../types';
+
+function createBuffer(overflowPolicy: OverflowPolicy, highWaterMark: number = 3) {
+  const blockedChanges: boolean[] = [];
+  const onClose = jest.fn();
+  const buffer = new OutputBuffer<number>({
+    highWaterMark,
+    overflowPolicy,
+    onBlockedChange: blocked => blockedChanges.push(blocked),
+    onClose
+  });
+  return { buffer, blockedChanges, onClose };
+}
+
+function pushRange(buffer: OutputBuffer<number>, from: number, to: number): void {
+  for (let item = from; item <= to; item++) {
+    buffer.push(item);
+  }
+}
+
+async function readAll(buffer: OutputBuffer<number>): Promise<number[]> {
+  buffer.end();
+  const items: number[] = [];
+  for await (const item of buffer.readable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('OutputBuffer', () => {
+  it('delivers buffered events in order and ends after the last one', async () => {
+    const { buffer, onClose } = createBuffer('block', 10);
+    pushRange(buffer, 1, 5);
+
+    expect(await readAll(buffer)).toEqual([1, 2, 3, 4, 5]);
+    expect(onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('block: keeps every event and reports blocked until the consumer drains the buffer', async () => {
+    const { buffer, blockedChanges } = createBuffer('block');
+    pushRange(buffer, 1, 4);
+
+    expect(buffer.getStats()).toEqual({ buffered: 4, dropped: 0, blocked: true });
+    expect(blockedChanges).toEqual([true]);
+
+    expect(await readAll(buffer)).toEqual([1, 2, 3, 4]);
+    expect(blockedChanges).toEqual([true, false]);
+    expect(buffer.getStats()).toEqual({ buffered: 0, dropped: 0, blocked: false });
+  });
+
+  it('drop-oldest: discards the oldest buffered events', async () => {
+    const { buffer, blockedChanges } = createBuffer('drop-oldest');
+    pushRange(buffer, 1, 5);
+
+    expect(buffer.getStats()).toEqual({ buffered: 3, dropped: 2, blocked: false });
+    expect(await readAll(buffer)).toEqual([3, 4, 5]);
+    expect(blockedChanges).toEqual([]);
+  });
+
+  it('drop-oldest: keeps the newest events of a long burst', async () => {
+    const { buffer } = createBuffer('drop-oldest', 1000);
+    pushRange(buffer, 1, 5000);
+
+    const items = await readAll(buffer);
+    expect(items).toHaveLength(1000);
+    expect(items[0]).toBe(4001);
+    expect(items[999]).toBe(5000);
+    expect(buffer.getStats().dropped).toBe(4000);
+  });
+
+  it('drop-newest: discards incoming events while full', async () => {
+    const { buffer, blockedChanges } = createBuffer('drop-newest');
+    pushRange(buffer, 1, 5);
+
+    expect(buffer.getStats()).toEqual({ buffered: 3, dropped: 2, blocked: false });
+    expect(await readAll(buffer)).toEqual([1, 2, 3]);
+    expect(blockedChanges).toEqual([]);
+  });
+
+  it('error: destroys the stream with an overflow error and ignores later events', async () => {
+    const { buffer, onClose } = createBuffer('error');
+    const failed = new Promise<Error>(resolve => buffer.readable.once('error', resolve));
+    pushRange(buffer, 1, 4);
+
+    expect((await failed).message).toBe('Output buffer overflow: more than 3 events buffered');
+    expect(buffer.readable.destroyed).toBe(true);
+    expect(onClose).toHaveBeenCalledTimes(1);
+
+    buffer.push(5);
+    expect(buffer.getStats().buffered).toBe(0);
+  });
+
+  it('unblocks and closes when the consumer destroys the stream', () => {
+    const { buffer, blockedChanges, onClose } = createBuffer('block');
+    pushRange(buffer, 1, 3);
+
+    buffer.readable.destroy();
+
+    expect(blockedChanges).toEqual([true, false]);
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(buffer.getStats().buffered).toBe(0);
+  });
+});
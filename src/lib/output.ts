@@ -0,0 +1,182 @@
+/**
+ * lib/output.ts - Bounded output buffer for stream and iterator consumers
+ *
+ * Buffers pool events between the gRPC streams and a slow consumer with a
+ * configurable high-water mark. When the buffer is full the overflow policy
+ * decides whether to pause the sources, drop events or fail the consumer.
+ *
+ * @module lib/output
+ * @author StalkChain Team
+ * @version 1.1.2
+ */
+
+import { Readable } from 'stream';
+import { OverflowPolicy } from '../types';
+
+/**
+ * Bounded buffer exposed to the consumer as an object-mode Readable
+ *
+ * Events are queued here and handed to the Readable only when it asks for
+ * more, so the high-water mark bounds memory regardless of consumer speed.
+ * The queue is consumed from a head index rather than shifted, so taking an
+ * event is O(1) however many are buffered.
+ */
+export class OutputBuffer<T> {
+  readonly readable: Readable;
+  private queue: (T | undefined)[] = []; // Buffered events, oldest at queueHead
+  private queueHead: number = 0;
+  private reading: boolean = false;
+  private ending: boolean = false;
+  private ended: boolean = false;
+  private blocked: boolean = false;
+  private dropped: number = 0;
+  private config: {
+    highWaterMark: number;
+    overflowPolicy: OverflowPolicy;
+    onBlockedChange: (blocked: boolean) => void;
+    onClose: () => void;
+  };
+
+  constructor(config: {
+    highWaterMark: number;
+    overflowPolicy: OverflowPolicy;
+    onBlockedChange: (blocked: boolean) => void;
+    onClose: () => void;
+  }) {
+    this.config = config;
+
+    this.readable = new Readable({
+      objectMode: true,
+      read: () => {
+        this.reading = true;
+        this.flush();
+      },
+      destroy: (error, callback) => {
+        this.queue = [];
+        this.queueHead = 0;
+        this.setBlocked(false);
+        this.config.onClose();
+        callback(error);
+      }
+    });
+  }
+
+  /**
+   * Queue an event, applying the overflow policy when the buffer is full
+   */
+  push(item: T): void {
+    if (this.ending || this.readable.destroyed) {
+      return;
+    }
+
+    if (this.size() >= this.config.highWaterMark) {
+      switch (this.config.overflowPolicy) {
+        case 'drop-newest':
+          this.dropped++;
+          return;
+        case 'drop-oldest':
+          this.shiftQueue();
+          this.dropped++;
+          break;
+        case 'error':
+          this.readable.destroy(new Error(`Output buffer overflow: more than ${this.config.highWaterMark} events buffered`));
+          return;
+        case 'block':
+          // Keep buffering what is already in flight; the sources get paused below
+          break;
+      }
+    }
+
+    this.queue.push(item);
+
+    if (this.config.overflowPolicy === 'block' && this.size() >= this.config.highWaterMark) {
+      this.setBlocked(true);
+    }
+
+    if (this.reading) {
+      this.flush();
+    }
+  }
+
+  /**
+   * End the stream once everything buffered has been read
+   */
+  end(): void {
+    this.ending = true;
+    if (this.reading) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Get buffer statistics for monitoring
+   */
+  getStats(): { buffered: number; dropped: number; blocked: boolean } {
+    return {
+      buffered: this.size(),
+      dropped: this.dropped,
+      blocked: this.blocked
+    };
+  }
+
+  /**
+   * Hand queued events to the Readable until it stops asking for more
+   */
+  private flush(): void {
+    while (this.size() > 0) {
+      const item = this.shiftQueue();
+      if (!this.readable.push(item)) {
+        this.reading = false;
+        break;
+      }
+    }
+
+    // Resume sources only once half the buffer has drained to avoid pausing on every event
+    if (this.blocked && this.size() <= Math.floor(this.config.highWaterMark / 2)) {
+      this.setBlocked(false);
+    }
+
+    if (this.ending && !this.ended && this.size() === 0) {
+      this.ended = true;
+      this.readable.push(null);
+    }
+  }
+
+  /**
+   * Number of buffered events
+   */
+  private size(): number {
+    return this.queue.length - this.queueHead;
+  }
+
+  /**
+   * Remove and return the oldest buffered event
+   *
+   * Consumed slots are dropped once they make up most of the queue, or as
+   * soon as the queue is empty.
+   */
+  private shiftQueue(): T {
+    const item = this.queue[this.queueHead] as T;
+    this.queue[this.queueHead] = undefined;
+    this.queueHead++;
+
+    if (this.queueHead === this.queue.length) {
+      this.queue = [];
+      this.queueHead = 0;
+    } else if (this.queueHead >= 1024 && this.queueHead * 2 >= this.queue.length) {
+      this.queue.splice(0, this.queueHead);
+      this.queueHead = 0;
+    }
+
+    return item;
+  }
+
+  /**
+   * Report blocked state changes to the owner
+   */
+  private setBlocked(blocked: boolean): void {
+    if (this.blocked === blocked) return;
+    this.blocked = blocked;
+    this.config.onBlockedChange(blocked);
+  }
+}
@@ -0,0 +1,587 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { FakeStream } from '../__mocks__/@triton-one/yellowstone-grpc';
+import { GrpcPool } from './pool';
+import { EndpointEvent, FailoverEvent, PoolEndpoint, PoolOptions, StaleEvent, TransactionEvent } from '../types';
+import { LogFields, LogLevel, PoolLogger } from './logger';
+
+jest.mock('@triton-one/yellowstone-grpc');
+const { default: FakeClient, grpcError } = jest.requireMock<typeof import('../__mocks__/@triton-one/yellowstone-grpc')>('@triton-one/yellowstone-grpc');
+
+const PROGRAM = '11111111111111111111111111111111';
+const REQUEST = { transactions: { txns: { accountInclude: [PROGRAM] } } };
+
+function endpoint(name: string): PoolEndpoint {
+  return { endpoint: `https://${name}.example`, token: `${name}-token` };
+}
+
+function streamOf(name: string): FakeStream {
+  return FakeClient.forEndpoint(`https://${name}.example`).stream;
+}
+
+function transaction(id: number, slot: number = 100, filters: string[] = ['txns']): any {
+  return { filters, transaction: { slot: String(slot), transaction: { signature: Buffer.alloc(64, id) } } };
+}
+
+function recordingLogger(): { logger: PoolLogger; lines: { level: LogLevel; fields: LogFields; message: string }[] } {
+  const lines: { level: LogLevel; fields: LogFields; message: string }[] = [];
+  const record = (level: LogLevel) => (fields: LogFields, message: string): void => {
+    lines.push({ level, fields, message });
+  };
+  return {
+    logger: { debug: record('debug'), info: record('info'), warn: record('warn'), error: record('error') },
+    lines
+  };
+}
+
+function slotUpdate(slot: number, filters: string[] = ['slots']): any {
+  return { filters, slot: { slot: String(slot), status: 0 } };
+}
+
+describe('GrpcPool', () => {
+  let pool: GrpcPool | undefined;
+  let endpointEvents: EndpointEvent[];
+  let transactions: TransactionEvent[];
+
+  async function connectPool(names: string[], options: PoolOptions = {}): Promise<GrpcPool> {
+    pool = new GrpcPool({ endpoints: names.map(endpoint) }, options);
+    pool.on('endpoint', (event: EndpointEvent) => endpointEvents.push(event));
+    pool.on('transaction', (event: TransactionEvent) => transactions.push(event));
+    pool.on('error', () => {});
+    await pool.connect();
+    return pool;
+  }
+
+  function statusesOf(clientId: string): string[] {
+    return endpointEvents.filter(event => event.clientId === clientId).map(event => event.status);
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    FakeClient.reset();
+    endpointEvents = [];
+    transactions = [];
+    (['debug', 'log', 'warn', 'error'] as const).forEach(method => {
+      jest.spyOn(console, method).mockImplementation(() => {});
+    });
+  });
+
+  afterEach(async () => {
+    await pool?.close();
+    pool = undefined;
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('endpoint management', () => {
+    it('subscribes an added endpoint and deduplicates it against the others', async () => {
+      const pool = await connectPool(['a']);
+      await pool.subscribe(REQUEST);
+
+      const clientId = await pool.addEndpoint(endpoint('b'));
+
+      expect(statusesOf(clientId)).toEqual(['added', 'connected']);
+      expect(streamOf('b').lastRequest.transactions).toEqual(REQUEST.transactions);
+
+      streamOf('b').push(transaction(1));
+      streamOf('a').push(transaction(1));
+      expect(transactions.map(event => event.source)).toEqual(['https://b.example']);
+    });
+
+    it('refuses to add endpoints before connect()', async () => {
+      pool = new GrpcPool({ endpoints: [endpoint('a')] });
+      await expect(pool.addEndpoint(endpoint('b'))).rejects.toThrow('Pool not connected');
+    });
+
+    it('drains a removed endpoint without touching the others', async () => {
+      const pool = await connectPool(['a', 'b']);
+      await pool.subscribe(REQUEST);
+      const [a, b] = pool.getStatus();
+      const removedStream = streamOf('a');
+
+      expect(await pool.removeEndpoint(a!.clientId)).toBe(true);
+
+      expect(removedStream.ended).toBe(true);
+      expect(removedStream.destroyed).toBe(true);
+      expect(statusesOf(a!.clientId)).toContain('removed');
+      expect(pool.getStatus().map(status => status.clientId)).toEqual([b!.clientId]);
+      expect(streamOf('b').ended).toBe(false);
+
+      streamOf('b').push(transaction(1));
+      expect(transactions).toHaveLength(1);
+
+      expect(await pool.removeEndpoint(a!.clientId)).toBe(false);
+    });
+
+    it('reconnects an endpoint with a new token and keeps its subscription', async () => {
+      const pool = await connectPool(['a', 'b']);
+      await pool.subscribe(REQUEST);
+      const [a] = pool.getStatus();
+      const previous = FakeClient.forEndpoint('https://a.example');
+
+      expect(await pool.updateToken(a!.clientId, 'rotated-token')).toBe(true);
+
+      expect(previous.channelClosed).toBe(true);
+      expect(previous.stream.destroyed).toBe(true);
+      expect(FakeClient.forEndpoint('https://a.example').token).toBe('rotated-token');
+      expect(streamOf('a').lastRequest.transactions).toEqual(REQUEST.transactions);
+      expect(statusesOf(a!.clientId)).toEqual(['connected', 'disconnected', 'reconnected']);
+
+      expect(await pool.updateToken('client-unknown', 'token')).toBe(false);
+    });
+  });
+
+  describe('late-joining endpoints', () => {
+    it('subscribes an endpoint that only comes up after the pool connected', async () => {
+      FakeClient.failures.set('https://b.example', grpcError(14, 'unavailable'));
+      const pool = await connectPool(['a', 'b'], { initialRetryDelayMs: 100 });
+      await pool.subscribe(REQUEST);
+      const [, b] = pool.getStatus();
+      expect(b!.connected).toBe(false);
+
+      FakeClient.failures.delete('https://b.example');
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(statusesOf(b!.clientId)).toEqual(['connected']);
+      expect(streamOf('b').requests).toHaveLength(1);
+      expect(streamOf('b').lastRequest.transactions).toEqual(REQUEST.transactions);
+
+      streamOf('b').push(transaction(1));
+      expect(transactions.map(event => event.source)).toEqual(['https://b.example']);
+    });
+
+    it('leaves an endpoint that joined before subscribe() to subscribe()', async () => {
+      FakeClient.failures.set('https://b.example', grpcError(14, 'unavailable'));
+      const pool = await connectPool(['a', 'b'], { initialRetryDelayMs: 100 });
+
+      FakeClient.failures.delete('https://b.example');
+      await jest.advanceTimersByTimeAsync(100);
+      expect(streamOf('b').requests).toHaveLength(0);
+
+      await pool.subscribe(REQUEST);
+      expect(streamOf('b').requests).toHaveLength(1);
+    });
+
+    it('stops retrying when no endpoint could be reached', async () => {
+      FakeClient.failures.set('https://a.example', grpcError(14, 'unavailable'));
+      pool = new GrpcPool({ endpoints: [endpoint('a')] }, { initialRetryDelayMs: 100 });
+      pool.on('error', () => {});
+
+      await expect(pool.connect()).rejects.toThrow('Failed to connect to any gRPC endpoints');
+
+      const attempts = FakeClient.forEndpoint('https://a.example').subscribeAttempts;
+      await jest.advanceTimersByTimeAsync(10_000);
+      expect(FakeClient.forEndpoint('https://a.example').subscribeAttempts).toBe(attempts);
+    });
+  });
+
+  describe('output backpressure', () => {
+    it('pauses every stream while a blocking consumer is full and resumes once it drained', async () => {
+      const pool = await connectPool(['a', 'b']);
+      await pool.subscribe(REQUEST);
+      const readable = pool.toReadable({ highWaterMark: 2, overflowPolicy: 'block' });
+
+      streamOf('a').push(transaction(1));
+      expect(streamOf('a').paused).toBe(false);
+      streamOf('a').push(transaction(2));
+
+      expect(streamOf('a').paused).toBe(true);
+      expect(streamOf('b').paused).toBe(true);
+      expect(pool.getOutputStats()).toEqual({ streams: 1, buffered: 2, dropped: 0, paused: true });
+
+      expect(readable.read()).toMatchObject({ source: 'https://a.example' });
+
+      expect(streamOf('a').paused).toBe(false);
+      expect(streamOf('b').paused).toBe(false);
+      expect(pool.getOutputStats().paused).toBe(false);
+      readable.destroy();
+    });
+
+    it('keeps streaming and counts drops for dropping consumers', async () => {
+      const pool = await connectPool(['a']);
+      await pool.subscribe(REQUEST);
+      const readable = pool.toReadable({ highWaterMark: 1, overflowPolicy: 'drop-newest' });
+
+      streamOf('a').push(transaction(1));
+      streamOf('a').push(transaction(2));
+
+      expect(streamOf('a').paused).toBe(false);
+      expect(pool.getOutputStats()).toEqual({ streams: 1, buffered: 1, dropped: 1, paused: false });
+
+      readable.destroy();
+      expect(pool.getOutputStats()).toEqual({ streams: 0, buffered: 0, dropped: 1, paused: false });
+    });
+  });
+
+  describe('logging', () => {
+    it('sends pool and client lines to a custom logger instead of the console', async () => {
+      const { logger, lines } = recordingLogger();
+      FakeClient.failures.set('https://b.example', grpcError(14, 'unavailable'));
+
+      await connectPool(['a', 'b'], { logger });
+
+      expect(lines).toContainEqual({ level: 'info', fields: { endpoints: 2 }, message: 'Connecting to gRPC endpoints' });
+      expect(lines).toContainEqual(expect.objectContaining({
+        level: 'warn',
+        message: 'Connection attempt failed',
+        fields: expect.objectContaining({ endpoint: 'https://b.example' })
+      }));
+      expect(console.log).not.toHaveBeenCalled();
+      expect(console.warn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deduplication snapshots', () => {
+    it('suppresses updates a previous run emitted after a restart', async () => {
+      const dir = await fs.mkdtemp(join(tmpdir(), 'grpc-pool-test-'));
+      const options = { deduplicationSnapshotPath: join(dir, 'dedup.json') };
+      try {
+        const first = await connectPool(['a'], options);
+        await first.subscribe(REQUEST);
+        streamOf('a').push(transaction(1));
+        const emitted = transactions.map(event => event.signature);
+        await first.close();
+
+        const second = await connectPool(['a'], options);
+        await second.subscribe(REQUEST);
+        streamOf('a').push(transaction(1));
+        streamOf('a').push(transaction(2));
+
+        // Only the transaction the first run never saw is emitted again
+        expect(emitted).toHaveLength(1);
+        expect(transactions).toHaveLength(2);
+        expect(transactions[1]!.signature).not.toBe(emitted[0]);
+        expect(second.getDeduplicationStats().size).toBe(2);
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('replay and gaps', () => {
+    const SLOT_REQUEST = { ...REQUEST, slots: { slots: {} } };
+
+    it('asks a reconnected endpoint to replay from the last slot the pool saw', async () => {
+      const pool = await connectPool(['a'], { initialRetryDelayMs: 100, replayOnReconnect: true });
+      const gaps: unknown[] = [];
+      pool.on('gap', gap => gaps.push(gap));
+      await pool.subscribe(SLOT_REQUEST);
+      streamOf('a').push(slotUpdate(100));
+
+      streamOf('a').finish();
+      await jest.advanceTimersByTimeAsync(100);
+
+      expect(streamOf('a').lastRequest).toMatchObject({ fromSlot: '100' });
+      streamOf('a').push(slotUpdate(100));
+      streamOf('a').push(slotUpdate(101));
+      expect(gaps).toEqual([]);
+    });
+
+    it('reports the slots missed while every endpoint was down', async () => {
+      const pool = await connectPool(['a'], { initialRetryDelayMs: 100 });
+      const gaps: unknown[] = [];
+      pool.on('gap', gap => gaps.push(gap));
+      await pool.subscribe(SLOT_REQUEST);
+      streamOf('a').push(slotUpdate(100));
+
+      streamOf('a').finish();
+      await jest.advanceTimersByTimeAsync(100);
+      expect(streamOf('a').lastRequest.fromSlot).toBeUndefined();
+      streamOf('a').push(slotUpdate(150));
+      streamOf('a').push(slotUpdate(160));
+
+      expect(gaps).toEqual([expect.objectContaining({
+        fromSlot: 101,
+        toSlot: 149,
+        endpoint: 'https://a.example',
+        reason: 'replay-disabled'
+      })]);
+    });
+
+    it('reports a gap when the provider refused the replay', async () => {
+      const pool = await connectPool(['a'], { initialRetryDelayMs: 100, replayOnReconnect: true });
+      const gaps: unknown[] = [];
+      pool.on('gap', gap => gaps.push(gap));
+      await pool.subscribe(SLOT_REQUEST);
+      streamOf('a').push(slotUpdate(100));
+
+      streamOf('a').finish();
+      await jest.advanceTimersByTimeAsync(100);
+      streamOf('a').fail(new Error('slot 100 is not available'));
+      await jest.advanceTimersByTimeAsync(1_000);
+      expect(streamOf('a').lastRequest.fromSlot).toBeUndefined();
+      streamOf('a').push(slotUpdate(150));
+
+      expect(gaps).toEqual([expect.objectContaining({ fromSlot: 101, toSlot: 149, reason: 'replay-unavailable' })]);
+    });
+
+    it('does not report a gap while another endpoint kept streaming', async () => {
+      const pool = await connectPool(['a', 'b'], { initialRetryDelayMs: 100 });
+      const gaps: unknown[] = [];
+      pool.on('gap', gap => gaps.push(gap));
+      await pool.subscribe(SLOT_REQUEST);
+      streamOf('a').push(slotUpdate(100));
+
+      streamOf('a').finish();
+      streamOf('b').push(slotUpdate(120));
+      await jest.advanceTimersByTimeAsync(100);
+      streamOf('a').push(slotUpdate(150));
+
+      expect(gaps).toEqual([]);
+    });
+  });
+
+  describe('primary-backup failover', () => {
+    const OPTIONS: PoolOptions = { failoverMode: 'primary-backup', promotionWindowMs: 1000, initialRetryDelayMs: 100 };
+
+    async function connectPrimaryBackup(names: string[]): Promise<{ pool: GrpcPool; failovers: FailoverEvent[] }> {
+      const pool = await connectPool(names, OPTIONS);
+      const failovers: FailoverEvent[] = [];
+      pool.on('failover', (event: FailoverEvent) => failovers.push(event));
+      await pool.subscribe(REQUEST);
+      return { pool, failovers };
+    }
+
+    it('streams the subscription from the first endpoint and a heartbeat from the others', async () => {
+      await connectPrimaryBackup(['a', 'b']);
+
+      expect(streamOf('a').lastRequest.transactions).toEqual(REQUEST.transactions);
+      expect(streamOf('b').lastRequest.transactions).toEqual({});
+    });
+
+    it('promotes a backup once the active endpoint stays down for the promotion window', async () => {
+      const { failovers } = await connectPrimaryBackup(['a', 'b']);
+
+      FakeClient.failures.set('https://a.example', new Error('down'));
+      streamOf('a').finish();
+      await jest.advanceTimersByTimeAsync(999);
+      expect(failovers).toEqual([]);
+      await jest.advanceTimersByTimeAsync(1);
+
+      expect(failovers).toEqual([expect.objectContaining({
+        fromEndpoint: 'https://a.example',
+        toEndpoint: 'https://b.example',
+        reason: 'disconnected'
+      })]);
+      expect(streamOf('b').lastRequest.transactions).toEqual(REQUEST.transactions);
+    });
+
+    it('hands over straight away when the first endpoint is down at connect', async () => {
+      FakeClient.failures.set('https://a.example', new Error('down'));
+      const pool = await connectPool(['a', 'b'], OPTIONS);
+      await pool.subscribe(REQUEST);
+
+      expect(pool.getStatus().map(status => status.role)).toEqual(['backup', 'active']);
+      expect(streamOf('b').lastRequest.transactions).toEqual(REQUEST.transactions);
+    });
+
+    it('keeps the active endpoint when it comes back within the promotion window', async () => {
+      const { failovers } = await connectPrimaryBackup(['a', 'b']);
+
+      streamOf('a').finish();
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(failovers).toEqual([]);
+      expect(streamOf('a').lastRequest.transactions).toEqual(REQUEST.transactions);
+      expect(streamOf('b').lastRequest.transactions).toEqual({});
+    });
+
+    it('promotes a connected backup when the active endpoint is removed', async () => {
+      const { pool, failovers } = await connectPrimaryBackup(['a', 'b']);
+      const active = pool.getStatus().find(status => status.endpoint === 'https://a.example')!;
+
+      await pool.removeEndpoint(active.clientId);
+
+      expect(failovers).toEqual([expect.objectContaining({ toEndpoint: 'https://b.example', reason: 'removed' })]);
+      expect(streamOf('b').lastRequest.transactions).toEqual(REQUEST.transactions);
+    });
+
+    it('hands the subscription to a disconnected endpoint when the removed active one had no connected backup', async () => {
+      FakeClient.failures.set('https://b.example', new Error('down'));
+      const { pool, failovers } = await connectPrimaryBackup(['a', 'b']);
+      const active = pool.getStatus().find(status => status.endpoint === 'https://a.example')!;
+
+      await pool.removeEndpoint(active.clientId);
+      expect(failovers).toEqual([]);
+      expect(pool.getStatus().map(status => status.role)).toEqual(['active']);
+
+      FakeClient.failures.clear();
+      await jest.advanceTimersByTimeAsync(1000);
+      expect(streamOf('b').lastRequest.transactions).toEqual(REQUEST.transactions);
+    });
+
+    it('makes an added endpoint active once every endpoint was removed', async () => {
+      const { pool } = await connectPrimaryBackup(['a']);
+      await pool.removeEndpoint(pool.getStatus()[0]!.clientId);
+
+      await pool.addEndpoint(endpoint('b'));
+
+      expect(pool.getStatus().map(status => status.role)).toEqual(['active']);
+      expect(streamOf('b').lastRequest.transactions).toEqual(REQUEST.transactions);
+    });
+  });
+
+  describe('quorum', () => {
+    it('emits a transaction once a majority of endpoints reported it', async () => {
+      const pool = await connectPool(['a', 'b', 'c'], { failoverMode: 'quorum' });
+      await pool.subscribe(REQUEST);
+
+      streamOf('a').push(transaction(1));
+      expect(transactions).toHaveLength(0);
+      streamOf('b').push(transaction(1));
+      expect(transactions.map(event => event.confirmedBy)).toEqual([['https://a.example', 'https://b.example']]);
+    });
+
+    it('counts copies arriving after the quorum window as duplicates, not expired quorums', async () => {
+      const pool = await connectPool(['a', 'b', 'c'], { failoverMode: 'quorum', quorumWindowMs: 1000 });
+      const duplicates: unknown[] = [];
+      pool.on('duplicate', event => duplicates.push(event));
+      await pool.subscribe(REQUEST);
+
+      streamOf('a').push(transaction(1));
+      streamOf('b').push(transaction(1));
+      await jest.advanceTimersByTimeAsync(5000);
+      streamOf('c').push(transaction(1));
+      await jest.advanceTimersByTimeAsync(5000);
+
+      expect(transactions).toHaveLength(1);
+      expect(duplicates).toHaveLength(1);
+      expect(pool.getQuorumStats()).toEqual({ quorum: 2, pending: 0, confirmed: 1, expired: 0 });
+    });
+
+    it('recomputes the default quorum as endpoints are added and removed', async () => {
+      const pool = await connectPool(['a', 'b', 'c'], { failoverMode: 'quorum' });
+      await pool.subscribe(REQUEST);
+      const clientIdOf = (name: string): string =>
+        pool.getStatus().find(status => status.endpoint === `https://${name}.example`)!.clientId;
+
+      await pool.removeEndpoint(clientIdOf('c'));
+      await pool.removeEndpoint(clientIdOf('b'));
+      expect(pool.getQuorumStats()?.quorum).toBe(1);
+      streamOf('a').push(transaction(1));
+      expect(transactions).toHaveLength(1);
+
+      await pool.addEndpoint(endpoint('d'));
+      await pool.addEndpoint(endpoint('e'));
+      expect(pool.getQuorumStats()?.quorum).toBe(2);
+    });
+
+    it('keeps an explicit quorum when endpoints change', async () => {
+      const pool = await connectPool(['a', 'b', 'c'], { failoverMode: 'quorum', quorum: 3 });
+
+      await pool.removeEndpoint(pool.getStatus()[2]!.clientId);
+
+      expect(pool.getQuorumStats()?.quorum).toBe(3);
+    });
+  });
+
+  describe('stale detection', () => {
+    const HEARTBEAT = ['__pool_slots'];
+
+    async function connectWithStale(names: string[], options: PoolOptions = {}): Promise<{ pool: GrpcPool; stale: StaleEvent[] }> {
+      const pool = await connectPool(names, { staleTimeoutMs: 10_000, initialRetryDelayMs: 100, ...options });
+      const stale: StaleEvent[] = [];
+      pool.on('stale', (event: StaleEvent) => stale.push(event));
+      await pool.subscribe(REQUEST);
+      return { pool, stale };
+    }
+
+    it('reconnects an endpoint that delivered nothing for staleTimeoutMs, while the heartbeat keeps a quiet one alive', async () => {
+      const { stale } = await connectWithStale(['a', 'b']);
+      const silentStream = streamOf('a');
+
+      for (let slot = 100; slot < 106; slot++) {
+        streamOf('b').push(slotUpdate(slot, HEARTBEAT));
+        await jest.advanceTimersByTimeAsync(2000);
+      }
+
+      expect(stale).toEqual([expect.objectContaining({ endpoint: 'https://a.example', reason: 'no-data' })]);
+      expect(silentStream.ended).toBe(true);
+      expect(streamOf('a')).not.toBe(silentStream);
+      expect(streamOf('a').lastRequest.transactions).toEqual(REQUEST.transactions);
+      expect(FakeClient.forEndpoint('https://b.example').streams).toHaveLength(1);
+    });
+
+    it('reconnects an endpoint that falls more than maxSlotLag slots behind the pool', async () => {
+      const { stale } = await connectWithStale(['a', 'b'], { maxSlotLag: 10 });
+
+      streamOf('a').push(slotUpdate(200, HEARTBEAT));
+      streamOf('b').push(slotUpdate(150, HEARTBEAT));
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(stale).toEqual([expect.objectContaining({ endpoint: 'https://b.example', reason: 'slot-lag', slotLag: 50 })]);
+    });
+
+    it('does not count heartbeat-only updates as endpoint messages', async () => {
+      const pool = await connectPool(['a']);
+      await pool.subscribe(REQUEST);
+
+      streamOf('a').push(slotUpdate(100, HEARTBEAT));
+      streamOf('a').push(slotUpdate(101, HEARTBEAT));
+      streamOf('a').push(transaction(1, 101));
+
+      expect(pool.getMetrics().endpoints[0]?.messagesReceived).toBe(1);
+    });
+  });
+
+  describe('pong timeout', () => {
+    async function connectPinging(): Promise<{ pool: GrpcPool; stale: StaleEvent[] }> {
+      pool = new GrpcPool(
+        { endpoints: ['a', 'b'].map(name => ({ ...endpoint(name), ping: true })) },
+        { pingIntervalMs: 1000, pongTimeoutMs: 3000, staleTimeoutMs: 60_000, initialRetryDelayMs: 100 }
+      );
+      const stale: StaleEvent[] = [];
+      pool.on('stale', (event: StaleEvent) => stale.push(event));
+      pool.on('error', () => {});
+      await pool.connect();
+      await pool.subscribe(REQUEST);
+      return { pool, stale };
+    }
+
+    it('reconnects an endpoint whose pings go unanswered and measures the ones that answer', async () => {
+      const { pool, stale } = await connectPinging();
+      const silentStream = streamOf('b');
+
+      // a answers each ping 800ms after it was sent; b never answers
+      for (let second = 0; second < 6; second++) {
+        await jest.advanceTimersByTimeAsync(800);
+        const stream = streamOf('a');
+        const id = stream.pings[stream.pings.length - 1];
+        if (id !== undefined) stream.push({ filters: [], pong: { id } });
+        await jest.advanceTimersByTimeAsync(200);
+      }
+
+      expect(stale).toEqual([expect.objectContaining({ endpoint: 'https://b.example', reason: 'no-pong' })]);
+      expect(silentStream.ended).toBe(true);
+      expect(streamOf('b')).not.toBe(silentStream);
+      expect(pool.getStatus()[0]).toMatchObject({ endpoint: 'https://a.example', pingRttMs: 800 });
+    });
+  });
+
+  describe('failed endpoints', () => {
+    it('reports an endpoint that rejected its token as failed and keeps the others streaming', async () => {
+      const pool = await connectPool(['a', 'b'], { initialRetryDelayMs: 100 });
+      await pool.subscribe(REQUEST);
+      const failed = pool.getStatus().find(status => status.endpoint === 'https://b.example')!;
+
+      streamOf('b').fail(grpcError(16, 'invalid token'));
+      await jest.advanceTimersByTimeAsync(1000);
+
+      expect(endpointEvents.filter(event => event.status === 'failed')).toEqual([expect.objectContaining({
+        clientId: failed.clientId,
+        failureReason: 'auth',
+        details: expect.stringContaining('invalid token')
+      })]);
+      expect(pool.getStatus().find(status => status.clientId === failed.clientId)?.failureReason).toBe('auth');
+      expect(pool.getStatus().find(status => status.endpoint === 'https://a.example')?.connected).toBe(true);
+
+      streamOf('a').push(transaction(1));
+      expect(transactions).toHaveLength(1);
+
+      await pool.updateToken(failed.clientId, 'fresh-token');
+      expect(pool.getStatus().find(status => status.clientId === failed.clientId)?.failureReason).toBeUndefined();
+    });
+  });
+});
@@ -11,10 +11,72 @@
  */
 
 import { EventEmitter } from 'events';
-import { PoolConfig, PoolOptions, StreamData, TransactionEvent, DuplicateEvent, EndpointEvent } from '../types';
+import { Readable } from 'stream';
+import {
+  PoolConfig,
+  PoolOptions,
+  PoolEndpoint,
+  SubscribeRequest,
+  SubscribeOptions,
+  SubscriptionLimits,
+  OutputStreamOptions,
+  StreamData,
+  FullTransactionData,
+  FullSlotData,
+  FullBlockMetaData,
+  DeduplicationStore,
+  DeduplicationStats,
+  DeduplicationMode,
+  GapEvent,
+  GapReason,
+  EndpointStatus,
+  FailoverMode,
+  BackupSubscription,
+  FailoverReason,
+  FailoverEvent,
+  QuorumStats,
+  StaleReason,
+  StaleEvent,
+  TransactionEvent,
+  DecodedTransaction,
+  AccountEvent,
+  SlotEvent,
+  BlockEvent,
+  BlockMetaEvent,
+  TransactionStatusEvent,
+  DuplicateEvent,
+  EndpointLatencyStats,
+  LatencyReportEvent,
+  PoolMetrics,
+  EndpointEvent,
+  RetryJitter,
+  EndpointFailure
+} from '../types';
 import { GrpcClient } from './client';
-import { DeduplicationService } from './deduplication';
-import { DEFAULT_CONFIG } from '../constants';
+import { EndpointError } from './errors';
+import { validateSubscribeRequest } from './request';
+import { decodeTransaction } from './transaction';
+import { InstructionDecoderRegistry } from './instructions';
+import { DeduplicationService, signatureKey, accountKey, slotKey, blockKey } from './deduplication';
+import { BloomDeduplicationStore } from './bloom';
+import { readSnapshotFile, writeSnapshotFile } from './snapshot';
+import { TransactionStatusTracker, StatusTransition } from './status-tracker';
+import { SubscriptionRegistry } from './subscriptions';
+import { OutputBuffer } from './output';
+import { LatencyTracker } from './latency';
+import { QuorumTracker } from './quorum';
+import { HealthTracker, HealthAction } from './health';
+import { MetricsCollector, renderOpenMetrics } from './metrics';
+import { PoolLogger, createConsoleLogger, toErrorFields } from './logger';
+import {
+  DEFAULT_CONFIG,
+  CommitmentLevel,
+  SlotStatus,
+  SLOT_STATUS_BY_WIRE_VALUE,
+  EMPTY_SUBSCRIBE_REQUEST,
+  INTERNAL_FILTER_PREFIX,
+  INTERNAL_SLOT_FILTER
+} from '../constants';
 import bs58 from 'bs58';
 
 /**
@@ -23,14 +85,95 @@ import bs58 from 'bs58';
 interface ResolvedConfig {
   pingIntervalMs: number;
   staleTimeoutMs: number;
+  pongTimeoutMs: number;
+  healthWindowMs: number;
+  quarantineThreshold: number;
+  quarantineDurationMs: number;
+  probeDurationMs: number;
+  slotHeartbeat: boolean;
+  maxSlotLag: number;
   deduplicationTtlMs: number;
   maxCacheSize: number;
+  maxCacheBytes: number | null;
+  deduplicationMode: DeduplicationMode;
+  falsePositiveRate: number;
+  deduplicationSnapshotPath: string | null;
+  deduplicationSnapshotIntervalMs: number;
+  replayOnReconnect: boolean;
+  failoverMode: FailoverMode;
+  promotionWindowMs: number;
+  backupSubscription: BackupSubscription;
+  quorum: number;
+  quorumWindowMs: number;
   initialRetryDelayMs: number;
   maxRetryDelayMs: number;
   retryBackoffFactor: number;
+  retryJitter: RetryJitter;
+  maxRetryAttempts: number;
+  maxDowntimeMs: number;
+  subscriptionLimits: SubscriptionLimits;
   staleCheckFraction: number;
   minStaleCheckIntervalMs: number;
   maxStaleCheckIntervalMs: number;
+  decodeTransactions: boolean;
+  instructionDecoders: InstructionDecoderRegistry | null;
+  trackTransactionStatus: boolean;
+  transactionStatusTtlMs: number;
+  latencyWindowMs: number;
+  latencyReportIntervalMs: number;
+}
+
+/**
+ * Convert a Yellowstone slot status (protobuf enum number or JSON name) to SlotStatus
+ */
+function toSlotStatus(status: number | string | undefined): SlotStatus | undefined {
+  if (typeof status === 'number') {
+    return SLOT_STATUS_BY_WIRE_VALUE[status];
+  }
+
+  if (typeof status === 'string') {
+    const name = status.toLowerCase().replace(/^slot_/, '');
+    return Object.values(SlotStatus).find(value => value === name);
+  }
+
+  return undefined;
+}
+
+/**
+ * Convert a subscription commitment (CommitmentLevel name or protobuf enum number) to CommitmentLevel
+ */
+function toCommitmentLevel(commitment: unknown): CommitmentLevel | undefined {
+  if (typeof commitment === 'number') {
+    return [CommitmentLevel.PROCESSED, CommitmentLevel.CONFIRMED, CommitmentLevel.FINALIZED][commitment];
+  }
+
+  if (typeof commitment === 'string') {
+    const name = commitment.toLowerCase();
+    return Object.values(CommitmentLevel).find(value => value === name);
+  }
+
+  return undefined;
+}
+
+/**
+ * Slot an update belongs to, if it carries one
+ */
+function slotOfUpdate(data: StreamData): number | null {
+  const slot = data.transaction?.slot
+    ?? data.account?.slot
+    ?? data.slot?.slot
+    ?? data.block?.slot
+    ?? data.blockMeta?.slot
+    ?? data.transactionStatus?.slot;
+
+  return slot !== undefined && slot !== null ? Number(slot) : null;
+}
+
+/**
+ * Check whether an update matched only filters the pool added for itself
+ */
+function isInternalOnly(filters: string[] | undefined): boolean {
+  return !!filters && filters.length > 0 && filters.every(name => name.startsWith(INTERNAL_FILTER_PREFIX));
 }
 
 /**
@@ -45,11 +188,33 @@ export class GrpcPool extends EventEmitter {
   private options: ResolvedConfig;
   private clients: GrpcClient[] = [];
   private connected: boolean = false;
+  private running: boolean = false; // True between a successful connect() and close()
   private pingInterval: NodeJS.Timeout | null = null;
   private staleCheckInterval: NodeJS.Timeout | null = null;
-  private currentSubscription: any = null;
-  private deduplicationService: DeduplicationService;
+  private latencyReportInterval: NodeJS.Timeout | null = null;
+  private healthCheckInterval: NodeJS.Timeout | null = null;
+  private snapshotInterval: NodeJS.Timeout | null = null;
+  private snapshotWrite: Promise<void> | null = null; // Save in progress, so saves never overlap
+  private subscriptions: SubscriptionRegistry = new SubscriptionRegistry(); // Base and named subscriptions
+  private outputBuffers: Set<OutputBuffer<TransactionEvent>> = new Set(); // Open toReadable()/transactions() consumers
+  private blockingOutputs: Set<OutputBuffer<TransactionEvent>> = new Set(); // Consumers currently holding the streams paused
+  private droppedByClosedOutputs: number = 0; // Dropped counts of consumers that have since closed
+  private deduplicationStore: DeduplicationStore;
+  private ownsDeduplicationStore: boolean; // Only stores the pool created are destroyed on close
+  private statusTracker: TransactionStatusTracker | null = null;
+  private latencyTracker: LatencyTracker;
+  private quorumTracker: QuorumTracker | null = null;
+  private healthTracker: HealthTracker;
+  private activeClient: GrpcClient | null = null; // primary-backup: the endpoint streaming the subscription
+  private quorumFromEndpoints: boolean; // quorum: follow a majority of the endpoints rather than a fixed quorum
+  private promotionDeadline: number | null = null; // primary-backup: when a backup takes over from a disconnected active endpoint
+  private promotionTimer: NodeJS.Timeout | null = null;
+  private metrics: MetricsCollector = new MetricsCollector();
+  private logger: PoolLogger;
   private endpointStates: Map<string, boolean> = new Map(); // Track individual endpoint connection states by clientId
+  private lastSlot: number = 0; // Highest slot seen from any endpoint
+  private lastSlotByClient: Map<string, number> = new Map(); // Highest slot seen per clientId
+  private outage: { lastSlot: number; reason: GapReason; replayRefused: boolean } | null = null; // Set while every endpoint is down, until data resumes
 
   constructor(config: PoolConfig, options: PoolOptions = {}) {
     super();
@@ -59,201 +224,1145 @@ export class GrpcPool extends EventEmitter {
     this.options = {
       pingIntervalMs: options.pingIntervalMs ?? DEFAULT_CONFIG.PING_INTERVAL_MS,
       staleTimeoutMs: options.staleTimeoutMs ?? DEFAULT_CONFIG.STALE_CONNECTION_TIMEOUT_MS,
+      pongTimeoutMs: options.pongTimeoutMs ?? DEFAULT_CONFIG.PONG_TIMEOUT_MS,
+      healthWindowMs: options.healthWindowMs ?? DEFAULT_CONFIG.HEALTH_WINDOW_MS,
+      quarantineThreshold: options.quarantineThreshold ?? DEFAULT_CONFIG.QUARANTINE_THRESHOLD,
+      quarantineDurationMs: options.quarantineDurationMs ?? DEFAULT_CONFIG.QUARANTINE_DURATION_MS,
+      probeDurationMs: options.probeDurationMs ?? DEFAULT_CONFIG.PROBE_DURATION_MS,
+      slotHeartbeat: options.slotHeartbeat ?? true,
+      maxSlotLag: options.maxSlotLag ?? DEFAULT_CONFIG.MAX_SLOT_LAG,
       deduplicationTtlMs: options.deduplicationTtlMs ?? DEFAULT_CONFIG.DEDUP_TTL_MS,
       maxCacheSize: options.maxCacheSize ?? DEFAULT_CONFIG.MAX_DEDUP_SIGNATURES,
+      maxCacheBytes: options.maxCacheBytes ?? null,
+      deduplicationMode: options.deduplicationMode ?? 'exact',
+      falsePositiveRate: options.falsePositiveRate ?? DEFAULT_CONFIG.DEDUP_FALSE_POSITIVE_RATE,
+      deduplicationSnapshotPath: options.deduplicationSnapshotPath ?? null,
+      deduplicationSnapshotIntervalMs: options.deduplicationSnapshotIntervalMs ?? DEFAULT_CONFIG.DEDUP_SNAPSHOT_INTERVAL_MS,
+      replayOnReconnect: options.replayOnReconnect ?? false,
+      failoverMode: options.failoverMode ?? 'active-active',
+      promotionWindowMs: options.promotionWindowMs ?? DEFAULT_CONFIG.PROMOTION_WINDOW_MS,
+      backupSubscription: options.backupSubscription ?? 'slots',
+      quorum: options.quorum ?? Math.floor(config.endpoints.length / 2) + 1,
+      quorumWindowMs: options.quorumWindowMs ?? DEFAULT_CONFIG.QUORUM_WINDOW_MS,
       initialRetryDelayMs: options.initialRetryDelayMs ?? DEFAULT_CONFIG.INITIAL_RETRY_DELAY_MS,
       maxRetryDelayMs: options.maxRetryDelayMs ?? DEFAULT_CONFIG.MAX_RETRY_DELAY_MS,
       retryBackoffFactor: options.retryBackoffFactor ?? DEFAULT_CONFIG.RETRY_BACKOFF_FACTOR,
+      retryJitter: options.retryJitter ?? 'equal',
+      maxRetryAttempts: options.maxRetryAttempts ?? 0,
+      maxDowntimeMs: options.maxDowntimeMs ?? 0,
+      subscriptionLimits: options.subscriptionLimits ?? {},
       staleCheckFraction: DEFAULT_CONFIG.STALE_CHECK_FRACTION,
       minStaleCheckIntervalMs: DEFAULT_CONFIG.MIN_STALE_CHECK_INTERVAL_MS,
-      maxStaleCheckIntervalMs: DEFAULT_CONFIG.MAX_STALE_CHECK_INTERVAL_MS
+      maxStaleCheckIntervalMs: DEFAULT_CONFIG.MAX_STALE_CHECK_INTERVAL_MS,
+      decodeTransactions: options.decodeTransactions ?? options.instructionDecoders !== undefined,
+      instructionDecoders: options.instructionDecoders ?? null,
+      trackTransactionStatus: options.trackTransactionStatus ?? false,
+      transactionStatusTtlMs: options.transactionStatusTtlMs ?? DEFAULT_CONFIG.TRANSACTION_STATUS_TTL_MS,
+      latencyWindowMs: options.latencyWindowMs ?? DEFAULT_CONFIG.LATENCY_WINDOW_MS,
+      latencyReportIntervalMs: options.latencyReportIntervalMs ?? DEFAULT_CONFIG.LATENCY_REPORT_INTERVAL_MS
     };
     
-    this.deduplicationService = new DeduplicationService(this.options);
+    this.quorumFromEndpoints = options.quorum === undefined;
+    this.logger = options.logger ?? createConsoleLogger();
+    this.deduplicationStore = options.deduplicationStore ?? (
+      this.options.deduplicationMode === 'approximate'
+        ? new BloomDeduplicationStore(this.options)
+        : new DeduplicationService(this.options)
+    );
+    this.ownsDeduplicationStore = !options.deduplicationStore;
+    this.latencyTracker = new LatencyTracker(this.options);
+    this.healthTracker = new HealthTracker(this.options);
+    
+    if (this.options.trackTransactionStatus) {
+      this.statusTracker = new TransactionStatusTracker(this.options);
+    }
+
+    if (this.options.failoverMode === 'quorum') {
+      this.quorumTracker = new QuorumTracker(this.options);
+
+      if (this.options.quorum > config.endpoints.length) {
+        this.logger.warn(
+          { quorum: this.options.quorum, endpoints: config.endpoints.length },
+          'Quorum exceeds the configured endpoints; transactions are only emitted once more endpoints are added'
+        );
+      }
+    }
   }
 
   /**
    * Connect to all endpoints in the pool and set up internal stream management
    */
   async connect(): Promise<void> {
-    console.log(`🚀 Connecting to ${this.config.endpoints.length} gRPC endpoints...`);
+    this.logger.info({ endpoints: this.config.endpoints.length }, 'Connecting to gRPC endpoints');
+
+    // Suppress updates a previous run already emitted before any stream starts
+    await this.restoreDeduplicationSnapshot();
 
-    // Create clients for each endpoint and initialize their states by clientId
+    // Create clients for each endpoint and wire them up before connecting, so an
+    // endpoint that only comes up later (via retry) is handled like the others:
+    // its 'connected' event is reported, and it receives the active subscriptions
     this.clients = this.config.endpoints.map(endpoint => {
-      const client = new GrpcClient(endpoint, {
-        staleTimeoutMs: this.options.staleTimeoutMs,
-        initialRetryDelayMs: this.options.initialRetryDelayMs,
-        maxRetryDelayMs: this.options.maxRetryDelayMs,
-        retryBackoffFactor: this.options.retryBackoffFactor
-      });
-      this.endpointStates.set(client.getId(), false);
+      const client = this.createClient(endpoint);
+      this.attachClient(client);
       return client;
     });
 
+    // In primary-backup mode the first configured endpoint starts as the active one
+    this.activeClient = this.clients[0] ?? null;
+
     // Connect to all endpoints
     const connectionPromises = this.clients.map(client => 
-      client.connect().catch(error => {
-        console.error(`Connection failed for ${client.getEndpoint().endpoint}:`, error.message);
-        return null; // Don't fail the whole pool if one endpoint fails
+      client.connect().catch(() => {
+        return null; // Don't fail the whole pool if one endpoint fails; the client logs the failure
       })
     );
 
-    await Promise.allSettled(connectionPromises);
+    await Promise.allSettled(connectionPromises);
+
+    // Check if at least one connection succeeded
+    const connectedClients = this.clients.filter(client => client.isConnected());
+    
+    if (connectedClients.length === 0) {
+      // Stop background retries so a later connect() starts from a clean slate
+      await Promise.allSettled(this.clients.map(client => client.close()));
+      this.clients.forEach(client => client.removeAllListeners());
+      this.clients = [];
+      this.activeClient = null;
+      this.endpointStates.clear();
+      throw new Error('❌ Failed to connect to any gRPC endpoints');
+    }
+
+    // Pool 'connected' was already emitted when the first endpoint connected
+    this.running = true;
+
+    // A primary that could not be reached hands over to a backup straight away
+    if (this.options.failoverMode === 'primary-backup' && !this.activeClient?.isConnected()) {
+      this.promoteBackup('unavailable');
+    }
+    
+    this.logger.info(
+      { connected: connectedClients.length, endpoints: this.config.endpoints.length },
+      'Connected to gRPC endpoints'
+    );
+
+    // Start automatic ping management
+    this.startPingInterval();
+
+    // Start stale connection monitoring
+    this.startStaleDetection();
+
+    // Start periodic latency reports
+    this.startLatencyReports();
+
+    // Start periodic deduplication snapshots
+    this.startSnapshotInterval();
+
+    // Start endpoint health checks and quarantine
+    this.startHealthChecks();
+  }
+
+  /**
+   * Create a client for an endpoint using the pool's retry and stale settings
+   */
+  private createClient(endpoint: PoolEndpoint): GrpcClient {
+    const client: GrpcClient = new GrpcClient(endpoint, {
+      staleTimeoutMs: this.options.staleTimeoutMs,
+      initialRetryDelayMs: this.options.initialRetryDelayMs,
+      maxRetryDelayMs: this.options.maxRetryDelayMs,
+      retryBackoffFactor: this.options.retryBackoffFactor,
+      retryJitter: this.options.retryJitter,
+      maxRetryAttempts: this.options.maxRetryAttempts,
+      maxDowntimeMs: this.options.maxDowntimeMs,
+      logger: this.logger,
+      // Replay from the last slot the pool saw, inclusive, so nothing after it is lost
+      replayFromSlot: (): number | null => this.options.replayOnReconnect && this.lastSlot > 0 && !this.isBackup(client) ? this.lastSlot : null
+    });
+
+    // Endpoints added while a consumer is behind start paused like the rest
+    if (this.blockingOutputs.size > 0) {
+      client.pause();
+    }
+
+    return client;
+  }
+
+  /**
+   * Wire a client's data, error and connection listeners into the pool
+   */
+  private attachClient(client: GrpcClient): void {
+    client.on('data', (data: StreamData) => {
+      // Pongs and filter-only frames carry no update, and the pool's own slot
+      // heartbeat is not traffic the user subscribed to
+      if (data.receivedTimestamp !== undefined && !isInternalOnly(data.filters)) {
+        this.metrics.recordMessage(client.getId());
+      }
+
+      const slot = slotOfUpdate(data);
+      if (slot !== null) {
+        this.recordSlot(client, slot, data.slot !== undefined);
+      }
+
+      // Backups only stream a heartbeat, which is not user data
+      if (this.isBackup(client)) {
+        return;
+      }
+
+      // Route each kind of update to its handler; pong responses are handled silently
+      if (data.transaction) {
+        this.handleTransaction(client, data);
+      }
+
+      if (data.account) {
+        this.handleAccount(client, data);
+      }
+
+      if (data.transactionStatus) {
+        this.handleTransactionStatus(client, data);
+      }
+
+      if (data.slot) {
+        this.handleSlot(client, data);
+      }
+
+      if (data.block) {
+        this.handleBlock(client, data);
+      }
+
+      if (data.blockMeta) {
+        this.handleBlockMeta(client, data);
+      }
+    });
+
+    client.on('error', (error: EndpointError) => {
+      this.healthTracker.recordError(client.getId());
+      this.emit('error', error);
+    });
+
+    client.on('failed', (failure: EndpointFailure) => {
+      const clientId = client.getId();
+      if (this.endpointStates.has(clientId)) {
+        this.endpointStates.set(clientId, false);
+      }
+      this.healthTracker.recordDisconnected(clientId);
+
+      const endpointEvent: EndpointEvent = {
+        clientId,
+        endpoint: client.getEndpoint().endpoint,
+        status: 'failed',
+        timestamp: Date.now(),
+        details: failure.error?.message ?? `Gave up after ${failure.attempts} attempts`,
+        failureReason: failure.reason
+      };
+      this.emit('endpoint', endpointEvent);
+
+      this.checkPoolConnectionStatus();
+      this.checkActiveEndpoint();
+    });
+
+    client.on('replay-failed', ({ fromSlot, error }: { fromSlot: number; error?: Error }) => {
+      this.logger.warn(
+        { clientId: client.getId(), endpoint: client.getEndpoint().endpoint, fromSlot, ...(error ? { err: toErrorFields(error) } : {}) },
+        'Endpoint could not replay from slot, resubscribing without replay'
+      );
+
+      if (this.outage) {
+        this.outage.replayRefused = true;
+      }
+    });
+
+    client.on('connected', () => {
+      const endpoint = client.getEndpoint().endpoint;
+      const clientId = client.getId();
+      const wasConnected = this.endpointStates.get(clientId);
+      this.endpointStates.set(clientId, true);
+      
+      // Determine status: reconnected if was previously false, connected if undefined or first time
+      let status: 'connected' | 'reconnected' = 'connected';
+      if (wasConnected === false) {
+        status = 'reconnected';
+        this.metrics.recordReconnect(clientId);
+      }
+      this.healthTracker.recordConnected(clientId, wasConnected === false);
+      
+      // Emit endpoint event
+      const endpointEvent: EndpointEvent = {
+        clientId,
+        endpoint,
+        status,
+        timestamp: Date.now()
+      };
+      this.addPingRtt(endpointEvent, client);
+      this.emit('endpoint', endpointEvent);
+
+      // Clients connecting for the first time after subscribe() have nothing to resubscribe yet
+      if (!client.hasSubscription() && !this.subscriptions.isEmpty()) {
+        client.subscribe(this.buildClientRequest(client)).catch(error => {
+          this.logger.error({ clientId, endpoint, err: toErrorFields(error) }, 'Subscription failed');
+        });
+      }
+      
+      // Check if pool should be considered connected
+      this.checkPoolConnectionStatus();
+      this.checkActiveEndpoint();
+    });
+
+    client.on('disconnected', () => {
+      const endpoint = client.getEndpoint().endpoint;
+      const clientId = client.getId();
+      this.endpointStates.set(clientId, false);
+      this.healthTracker.recordDisconnected(clientId);
+      
+      // Emit endpoint disconnection event
+      const endpointEvent: EndpointEvent = {
+        clientId,
+        endpoint,
+        status: 'disconnected',
+        timestamp: Date.now()
+      };
+      this.addPingRtt(endpointEvent, client);
+      this.emit('endpoint', endpointEvent);
+      
+      // Check if pool should be considered disconnected
+      this.checkPoolConnectionStatus();
+      this.checkActiveEndpoint();
+    });
+  }
+
+  /**
+   * Attach an endpoint's last known ping round trip to an endpoint event
+   */
+  private addPingRtt(endpointEvent: EndpointEvent, client: GrpcClient): void {
+    const rttMs = client.getLastRttMs();
+    if (rttMs !== null) {
+      endpointEvent.pingRttMs = rttMs;
+    }
+  }
+
+  /**
+   * Check an update's key against the deduplication store and continue accordingly
+   *
+   * In-process stores answer synchronously, keeping updates in arrival order.
+   * Shared stores answer asynchronously; if one fails, the update is treated
+   * as unique so data is not lost.
+   */
+  private deduplicate(client: GrpcClient, key: string, onUnique: () => void, onDuplicate?: () => void): void {
+    const handle = (duplicate: boolean): void => {
+      if (duplicate) {
+        this.metrics.recordDuplicate(client.getId());
+        onDuplicate?.();
+      } else {
+        onUnique();
+      }
+    };
+
+    let result: boolean | Promise<boolean>;
+    try {
+      result = this.deduplicationStore.checkAndSet(key, this.options.deduplicationTtlMs);
+    } catch (error) {
+      this.logDeduplicationFailure(client, error);
+      result = false;
+    }
+
+    if (typeof result === 'boolean') {
+      handle(result);
+      return;
+    }
+
+    result.then(handle, error => {
+      this.logDeduplicationFailure(client, error);
+      handle(false);
+    });
+  }
+
+  /**
+   * Log a deduplication store failure
+   */
+  private logDeduplicationFailure(client: GrpcClient, error: unknown): void {
+    this.logger.warn(
+      { clientId: client.getId(), endpoint: client.getEndpoint().endpoint, err: toErrorFields(error) },
+      'Deduplication store check failed, treating update as unique'
+    );
+  }
+
+  /**
+   * Deduplicate a transaction update by signature and emit it to the user
+   */
+  private handleTransaction(client: GrpcClient, data: StreamData): void {
+    if (!data.transaction) return;
+
+    // Extract signature buffer from full transaction data for deduplication
+    const signatureBuffer = data.transaction.transaction?.signature;
+    
+    // Only process transactions that have signatures
+    if (!signatureBuffer || !Buffer.isBuffer(signatureBuffer)) {
+      return; // Skip transactions without valid signatures
+    }
+    
+    const receivedTimestamp = data.receivedTimestamp || Date.now();
+    const participant = { clientId: client.getId(), endpoint: client.getEndpoint().endpoint };
+    const key = signatureKey(signatureBuffer);
+
+    // Quorum mode holds a transaction back until enough endpoints reported it
+    if (this.quorumTracker && this.quorumTracker.report(key, participant, receivedTimestamp) === 'pending') {
+      return;
+    }
+
+    // === DEDUPLICATION CHECK ===
+    this.deduplicate(client, key, () => {
+      this.emitTransaction(client, data, signatureBuffer, participant, receivedTimestamp);
+    }, () => {
+      // Emit duplicate event for filtered transactions
+      const duplicateEvent: DuplicateEvent = {
+        signature: bs58.encode(signatureBuffer), // Full signature, not truncated
+        source: client.getEndpoint().endpoint,
+        timestamp: Date.now()
+      };
+      this.latencyTracker.recordDuplicate(duplicateEvent.signature, participant, receivedTimestamp);
+      this.emit('duplicate', duplicateEvent);
+    });
+  }
+
+  /**
+   * Emit a transaction that passed deduplication
+   */
+  private emitTransaction(
+    client: GrpcClient,
+    data: StreamData,
+    signatureBuffer: Buffer,
+    participant: { clientId: string; endpoint: string },
+    receivedTimestamp: number
+  ): void {
+    if (!data.transaction) return;
+
+    // Create transaction event with full transaction data + our metadata
+    const transactionEvent: TransactionEvent = {
+      signature: bs58.encode(signatureBuffer), // Full base58 signature
+      data: data.transaction,           // Full gRPC transaction object
+      source: client.getEndpoint().endpoint,  // Which endpoint sent this
+      timestamp: receivedTimestamp,     // Use client timestamp or fallback
+      subscriptions: this.subscriptions.namesForFilters(data.filters) // Named subscriptions that matched
+    };
+
+    if (this.quorumTracker) {
+      transactionEvent.confirmedBy = this.quorumTracker.getReporters(signatureKey(signatureBuffer));
+    }
+
+    if (this.options.decodeTransactions) {
+      const decoded = this.decodeTransaction(client, data.transaction, transactionEvent.signature);
+      if (decoded) {
+        transactionEvent.decoded = decoded;
+
+        if (this.options.instructionDecoders) {
+          transactionEvent.parsedInstructions = this.options.instructionDecoders.decodeTransaction(decoded);
+        }
+      }
+    }
+
+    this.recordRace(transactionEvent.signature, signatureBuffer, data.filters, participant, receivedTimestamp);
+    
+    // Emit transaction event to user (only unique transactions reach here)
+    this.emit('transaction', transactionEvent);
+
+    if (this.statusTracker) {
+      const transitions = this.statusTracker.track(
+        transactionEvent.signature,
+        Number(data.transaction.slot ?? 0),
+        this.getSubscriptionCommitment(),
+        data.transaction.transaction?.meta?.err
+      );
+      this.emitStatusTransitions(transitions, client);
+    }
+  }
+
+  /**
+   * Record the delivery race of a transaction that is about to be emitted
+   *
+   * Every connected endpoint whose subscription carries one of the filters
+   * the transaction matched is expected to deliver it too; endpoints left out
+   * by tags or overrides, and backups streaming only the slot heartbeat, are
+   * not. In quorum mode the emitting endpoint merely completed the quorum:
+   * the race is credited to the first reporter, and the reporters in between
+   * lagged behind it.
+   */
+  private recordRace(
+    signature: string,
+    signatureBuffer: Buffer,
+    filters: string[] | undefined,
+    participant: { clientId: string; endpoint: string },
+    receivedTimestamp: number
+  ): void {
+    const participants = this.clients
+      .filter(candidate => candidate.isConnected() && !this.isBackup(candidate) && this.streamsTransaction(candidate, filters))
+      .map(candidate => ({ clientId: candidate.getId(), endpoint: candidate.getEndpoint().endpoint }));
+
+    const reports = this.quorumTracker ? this.quorumTracker.getReports(signatureKey(signatureBuffer)) : [];
+    const [first, ...later] = reports;
+    if (!first) {
+      this.latencyTracker.recordWinner(signature, participant, participants, receivedTimestamp);
+      return;
+    }
+
+    this.latencyTracker.recordWinner(signature, first, participants, first.timestamp);
+    later.forEach(report => this.latencyTracker.recordDuplicate(signature, report, report.timestamp));
+  }
+
+  /**
+   * Check whether a client's subscription would deliver a transaction that matched the given filters
+   *
+   * Without filter names on the update, any transaction filter counts.
+   */
+  private streamsTransaction(client: GrpcClient, filters: string[] | undefined): boolean {
+    const transactions = client.getSubscription()?.transactions;
+    if (!transactions) return false;
+
+    if (!filters || filters.length === 0) {
+      return Object.keys(transactions).length > 0;
+    }
+    return filters.some(name => Object.prototype.hasOwnProperty.call(transactions, name));
+  }
+
+  /**
+   * Build the decoded view of a transaction
+   *
+   * A transaction that cannot be decoded is still emitted, without the view.
+   */
+  private decodeTransaction(client: GrpcClient, transaction: FullTransactionData, signature: string): DecodedTransaction | null {
+    try {
+      return decodeTransaction(transaction);
+    } catch (error) {
+      this.logger.warn(
+        { clientId: client.getId(), endpoint: client.getEndpoint().endpoint, signature, err: toErrorFields(error) },
+        'Failed to decode transaction, emitting it without a decoded view'
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Feed a transaction status update into lifecycle tracking
+   *
+   * Status updates are only used for tracking and are not emitted on their own.
+   */
+  private handleTransactionStatus(client: GrpcClient, data: StreamData): void {
+    const update = data.transactionStatus;
+    if (!this.statusTracker || !update) return;
+
+    const signatureBuffer = update.signature;
+    if (!signatureBuffer || !Buffer.isBuffer(signatureBuffer)) {
+      return;
+    }
+
+    const transitions = this.statusTracker.track(
+      bs58.encode(signatureBuffer),
+      Number(update.slot ?? 0),
+      this.getSubscriptionCommitment(),
+      update.err
+    );
+    this.emitStatusTransitions(transitions, client);
+  }
+
+  /**
+   * Emit 'transaction-status' events for tracker transitions
+   */
+  private emitStatusTransitions(transitions: StatusTransition[], client: GrpcClient): void {
+    const timestamp = Date.now();
+    transitions.forEach(transition => {
+      const statusEvent: TransactionStatusEvent = {
+        ...transition,
+        source: client.getEndpoint().endpoint,
+        timestamp
+      };
+      this.emit('transaction-status', statusEvent);
+    });
+  }
+
+  /**
+   * Commitment level the current subscription streams at (Yellowstone defaults to processed)
+   */
+  private getSubscriptionCommitment(): CommitmentLevel {
+    return toCommitmentLevel(this.subscriptions.getCommitment()) ?? CommitmentLevel.PROCESSED;
+  }
+
+  /**
+   * Deduplicate an account update by (pubkey, slot, writeVersion) and emit it to the user
+   */
+  private handleAccount(client: GrpcClient, data: StreamData): void {
+    const info = data.account?.account;
+    if (!info) return;
+
+    const pubkeyBuffer = info.pubkey;
+    const ownerBuffer = info.owner;
+    
+    // Only process account updates that carry a valid address and owner
+    if (!pubkeyBuffer || !Buffer.isBuffer(pubkeyBuffer) || !ownerBuffer || !Buffer.isBuffer(ownerBuffer)) {
+      return;
+    }
+
+    const slot = data.account?.slot ?? '0';
+    const writeVersion = info.writeVersion ?? '0';
+
+    // Same write delivered by several endpoints is only emitted once
+    this.deduplicate(client, accountKey(pubkeyBuffer, slot, writeVersion), () => {
+      const accountEvent: AccountEvent = {
+        pubkey: bs58.encode(pubkeyBuffer),
+        owner: bs58.encode(ownerBuffer),
+        lamports: String(info.lamports ?? '0'),
+        data: info.data ?? Buffer.alloc(0),
+        executable: info.executable ?? false,
+        writeVersion: String(writeVersion),
+        slot: Number(slot),
+        isStartup: data.account?.isStartup ?? false,
+        source: client.getEndpoint().endpoint,
+        timestamp: data.receivedTimestamp || Date.now()
+      };
+
+      if (info.txnSignature && Buffer.isBuffer(info.txnSignature) && info.txnSignature.length > 0) {
+        accountEvent.txnSignature = bs58.encode(info.txnSignature);
+      }
+
+      this.emit('account', accountEvent);
+    });
+  }
+
+  /**
+   * Deduplicate a slot update by (slot, status) and emit it to the user
+   */
+  private handleSlot(client: GrpcClient, data: StreamData): void {
+    const update = data.slot;
+    if (!update || update.slot === undefined) return;
+
+    const status = toSlotStatus(update.status);
+    if (!status) return; // Skip statuses this version does not know about
+
+    // Heartbeat-only updates must not claim keys user slot updates deduplicate on
+    if (!this.statusTracker && isInternalOnly(data.filters)) return;
+
+    this.deduplicate(client, slotKey(update.slot, status), () => {
+      this.emitSlot(client, data, update, status);
+    });
+  }
+
+  /**
+   * Apply and emit a slot update that passed deduplication
+   */
+  private emitSlot(client: GrpcClient, data: StreamData, update: FullSlotData, status: SlotStatus): void {
+    if (this.statusTracker) {
+      this.emitStatusTransitions(this.statusTracker.updateSlot(Number(update.slot), status), client);
+    }
+
+    // Updates requested only by the pool itself are not user data
+    if (isInternalOnly(data.filters)) {
+      return;
+    }
+
+    const slotEvent: SlotEvent = {
+      slot: Number(update.slot),
+      status,
+      source: client.getEndpoint().endpoint,
+      timestamp: data.receivedTimestamp || Date.now()
+    };
+
+    if (update.parent !== undefined && update.parent !== null) {
+      slotEvent.parent = Number(update.parent);
+    }
+
+    if (update.deadError) {
+      slotEvent.deadError = update.deadError;
+    }
+
+    this.emit('slot', slotEvent);
+  }
+
+  /**
+   * Deduplicate a block update by blockhash and emit it to the user
+   */
+  private handleBlock(client: GrpcClient, data: StreamData): void {
+    const block = data.block;
+    if (!block || !block.blockhash) return;
+
+    this.deduplicate(client, blockKey(block.blockhash, 'block'), () => {
+      const blockEvent: BlockEvent = {
+        ...this.buildBlockFields(block),
+        data: block,
+        source: client.getEndpoint().endpoint,
+        timestamp: data.receivedTimestamp || Date.now()
+      };
+
+      this.emit('block', blockEvent);
+    });
+  }
+
+  /**
+   * Deduplicate a block meta update by blockhash and emit it to the user
+   */
+  private handleBlockMeta(client: GrpcClient, data: StreamData): void {
+    const blockMeta = data.blockMeta;
+    if (!blockMeta || !blockMeta.blockhash) return;
+
+    this.deduplicate(client, blockKey(blockMeta.blockhash, 'blockMeta'), () => {
+      const blockMetaEvent: BlockMetaEvent = {
+        ...this.buildBlockFields(blockMeta),
+        data: blockMeta,
+        source: client.getEndpoint().endpoint,
+        timestamp: data.receivedTimestamp || Date.now()
+      };
+
+      this.emit('blockMeta', blockMetaEvent);
+    });
+  }
+
+  /**
+   * Extract the normalized header fields shared by block and block meta events
+   */
+  private buildBlockFields(block: FullBlockMetaData): Omit<BlockMetaEvent, 'data' | 'source' | 'timestamp'> {
+    const fields: Omit<BlockMetaEvent, 'data' | 'source' | 'timestamp'> = {
+      slot: Number(block.slot ?? 0),
+      blockhash: block.blockhash ?? '',
+      parentSlot: Number(block.parentSlot ?? 0),
+      parentBlockhash: block.parentBlockhash ?? '',
+      executedTransactionCount: Number(block.executedTransactionCount ?? 0)
+    };
+
+    if (block.blockHeight?.blockHeight !== undefined) {
+      fields.blockHeight = Number(block.blockHeight.blockHeight);
+    }
+
+    if (block.blockTime?.timestamp !== undefined) {
+      fields.blockTime = Number(block.blockTime.timestamp);
+    }
+
+    return fields;
+  }
+
+  /**
+   * Consume unique transactions as an object-mode Readable with backpressure
+   *
+   * Events are buffered up to `highWaterMark`; beyond that `overflowPolicy`
+   * decides whether the gRPC streams are paused ('block', the default), events
+   * are dropped, or the stream is destroyed with an error. Destroying the
+   * returned stream detaches it from the pool.
+   *
+   * @param options - Buffer size and overflow policy
+   */
+  toReadable(options: OutputStreamOptions = {}): Readable {
+    const listener = (event: TransactionEvent) => buffer.push(event);
+
+    const buffer: OutputBuffer<TransactionEvent> = new OutputBuffer<TransactionEvent>({
+      highWaterMark: options.highWaterMark ?? DEFAULT_CONFIG.OUTPUT_HIGH_WATER_MARK,
+      overflowPolicy: options.overflowPolicy ?? 'block',
+      onBlockedChange: (blocked) => this.setOutputBlocked(buffer, blocked),
+      onClose: () => {
+        this.off('transaction', listener);
+        this.outputBuffers.delete(buffer);
+        this.droppedByClosedOutputs += buffer.getStats().dropped;
+      }
+    });
+
+    this.outputBuffers.add(buffer);
+    this.on('transaction', listener);
+
+    return buffer.readable;
+  }
+
+  /**
+   * Consume unique transactions with `for await`, with the same backpressure as toReadable()
+   *
+   * Breaking out of the loop detaches the consumer from the pool.
+   *
+   * @param options - Buffer size and overflow policy
+   */
+  transactions(options: OutputStreamOptions = {}): AsyncIterable<TransactionEvent> {
+    return this.toReadable(options);
+  }
+
+  /**
+   * Get output stream statistics for monitoring
+   */
+  getOutputStats(): { streams: number; buffered: number; dropped: number; paused: boolean } {
+    let buffered = 0;
+    let dropped = this.droppedByClosedOutputs;
+
+    this.outputBuffers.forEach(buffer => {
+      const stats = buffer.getStats();
+      buffered += stats.buffered;
+      dropped += stats.dropped;
+    });
+
+    return {
+      streams: this.outputBuffers.size,
+      buffered,
+      dropped,
+      paused: this.blockingOutputs.size > 0
+    };
+  }
+
+  /**
+   * Pause all streams while any blocking consumer is full, resume when none are
+   */
+  private setOutputBlocked(buffer: OutputBuffer<TransactionEvent>, blocked: boolean): void {
+    const wasPaused = this.blockingOutputs.size > 0;
+
+    if (blocked) {
+      this.blockingOutputs.add(buffer);
+    } else {
+      this.blockingOutputs.delete(buffer);
+    }
+
+    const paused = this.blockingOutputs.size > 0;
+    if (paused && !wasPaused) {
+      this.clients.forEach(client => client.pause());
+    } else if (!paused && wasPaused) {
+      this.clients.forEach(client => client.resume());
+    }
+  }
+
+  /**
+   * Add an endpoint to a running pool
+   *
+   * The new client gets the pool's listeners and the active subscriptions as
+   * soon as it connects. If the first connection attempt fails it keeps
+   * retrying in the background like any other endpoint.
+   *
+   * @param endpoint - Endpoint configuration to add
+   * @returns clientId of the new client
+   */
+  async addEndpoint(endpoint: PoolEndpoint): Promise<string> {
+    if (!this.running) {
+      throw new Error('Pool not connected. Call connect() first.');
+    }
+
+    const client = this.createClient(endpoint);
+    const clientId = client.getId();
+    this.clients.push(client);
+    this.attachClient(client);
+    if (!this.activeClient) {
+      this.activeClient = client;
+    }
+    this.updateQuorum();
+
+    const endpointEvent: EndpointEvent = {
+      clientId,
+      endpoint: endpoint.endpoint,
+      status: 'added',
+      timestamp: Date.now()
+    };
+    this.emit('endpoint', endpointEvent);
+
+    try {
+      await client.connect();
+    } catch (error) {
+      // Already logged by the client, which keeps retrying in the background
+    }
+
+    return clientId;
+  }
+
+  /**
+   * Drain and remove an endpoint from the pool
+   *
+   * The other streams and the deduplication cache are left untouched.
+   *
+   * @param clientId - Client to remove
+   * @returns true if the client existed and was removed
+   */
+  async removeEndpoint(clientId: string): Promise<boolean> {
+    const client = this.clients.find(candidate => candidate.getId() === clientId);
+    if (!client) {
+      return false;
+    }
+
+    this.clients = this.clients.filter(candidate => candidate !== client);
+    this.updateQuorum();
+    this.endpointStates.delete(clientId);
+    this.latencyTracker.removeClient(clientId);
+    this.healthTracker.removeClient(clientId);
+    this.metrics.removeClient(clientId);
+    this.lastSlotByClient.delete(clientId);
+
+    await client.close();
+    client.removeAllListeners();
+
+    const endpointEvent: EndpointEvent = {
+      clientId,
+      endpoint: client.getEndpoint().endpoint,
+      status: 'removed',
+      timestamp: Date.now()
+    };
+    this.emit('endpoint', endpointEvent);
+
+    this.checkPoolConnectionStatus();
+
+    if (client === this.activeClient) {
+      this.replaceActiveClient();
+    }
+    return true;
+  }
+
+  /**
+   * Pick a new active endpoint after the active one was removed
+   *
+   * In primary-backup mode a connected backup is promoted. Without one, the
+   * first remaining endpoint becomes active and receives the full
+   * subscription, taking over as soon as it connects.
+   */
+  private replaceActiveClient(): void {
+    if (this.options.failoverMode === 'primary-backup' && this.promoteBackup('removed')) {
+      return;
+    }
+
+    this.activeClient = this.clients[0] ?? null;
+    if (this.activeClient && this.options.failoverMode === 'primary-backup') {
+      this.writeClientRequest(this.activeClient, this.options.replayOnReconnect && this.lastSlot > 0);
+      this.checkActiveEndpoint();
+    }
+  }
+
+  /**
+   * Follow the endpoint count with the default quorum after endpoints were added or removed
+   *
+   * A quorum given in the options is kept, with a warning while it exceeds
+   * the endpoints the pool has.
+   */
+  private updateQuorum(): void {
+    if (!this.quorumTracker) {
+      return;
+    }
+
+    if (this.quorumFromEndpoints) {
+      this.options.quorum = Math.floor(this.clients.length / 2) + 1;
+      this.quorumTracker.setQuorum(this.options.quorum);
+    } else if (this.options.quorum > this.clients.length) {
+      this.logger.warn(
+        { quorum: this.options.quorum, endpoints: this.clients.length },
+        'Quorum exceeds the endpoints in the pool; transactions are only emitted once more endpoints are added'
+      );
+    }
+  }
+
+  /**
+   * Replace the token of one endpoint and reconnect it
+   *
+   * The client reconnects with the new token and resubscribes; the endpoint
+   * reports 'disconnected' and 'reconnected' like any other reconnection.
+   *
+   * @param clientId - Client whose token should change
+   * @param token - New token
+   * @returns true if the client existed
+   */
+  async updateToken(clientId: string, token: string): Promise<boolean> {
+    const client = this.clients.find(candidate => candidate.getId() === clientId);
+    if (!client) {
+      return false;
+    }
+
+    await client.updateToken(token);
+    return true;
+  }
+
+  /**
+   * Check pool connection status and emit connected/disconnected events
+   */
+  private checkPoolConnectionStatus(): void {
+    const connectedEndpoints = Array.from(this.endpointStates.values()).filter(connected => connected).length;
+    const wasConnected = this.connected;
+    
+    if (connectedEndpoints > 0 && !wasConnected) {
+      // Pool just became connected
+      this.connected = true;
+      this.emit('connected');
+    } else if (connectedEndpoints === 0 && wasConnected) {
+      // Pool just became disconnected
+      this.connected = false;
+
+      // Remember where the data stopped to detect missed slots once it resumes
+      if (this.running && this.lastSlot > 0 && !this.outage) {
+        this.outage = {
+          lastSlot: this.lastSlot,
+          reason: this.options.replayOnReconnect ? 'replay-unavailable' : 'replay-disabled',
+          replayRefused: false
+        };
+      }
+
+      this.emit('disconnected');
+    }
+  }
+
+  /**
+   * Track the highest slot per endpoint and pool-wide, and report outage gaps
+   *
+   * The first slot update after every endpoint was down shows whether the
+   * outage was covered: a slot at most one past the last one seen means the
+   * replay picked up where the pool stopped, anything later is a gap. Other
+   * updates can skip slots that simply had nothing matching the filters, so
+   * they are only judged when the endpoint streams no slots at all, and then
+   * only report a gap when nothing was replayed.
+   *
+   * @param fromSlotStream - Whether the update is a slot update (heartbeat or user slot filter)
+   */
+  private recordSlot(client: GrpcClient, slot: number, fromSlotStream: boolean): void {
+    const clientId = client.getId();
+    if (slot > (this.lastSlotByClient.get(clientId) ?? 0)) {
+      this.lastSlotByClient.set(clientId, slot);
+    }
+
+    // Backup heartbeats say nothing about the data the pool emitted
+    if (this.isBackup(client)) {
+      return;
+    }
+
+    const outage = this.outage;
+    if (outage && (fromSlotStream || !this.streamsSlots(client))) {
+      this.outage = null;
+
+      const replayed = this.options.replayOnReconnect && !outage.replayRefused;
+      if (slot > outage.lastSlot + 1 && (fromSlotStream || !replayed)) {
+        const gapEvent: GapEvent = {
+          fromSlot: outage.lastSlot + 1,
+          toSlot: slot - 1,
+          clientId,
+          endpoint: client.getEndpoint().endpoint,
+          reason: outage.reason,
+          timestamp: Date.now()
+        };
+        this.logger.warn({ ...gapEvent }, 'Missed slots while all endpoints were down');
+        this.emit('gap', gapEvent);
+      }
+    }
+
+    if (slot > this.lastSlot) {
+      this.lastSlot = slot;
+    }
+  }
+
+  /**
+   * Check whether a client's subscription includes a slot stream
+   */
+  private streamsSlots(client: GrpcClient): boolean {
+    const slots = client.getSubscription()?.slots;
+    return !!slots && Object.keys(slots).length > 0;
+  }
+
+  /**
+   * Check whether a client is a backup that should not stream the subscription
+   */
+  private isBackup(client: GrpcClient): boolean {
+    return this.options.failoverMode === 'primary-backup' && client !== this.activeClient;
+  }
+
+  /**
+   * Keep an endpoint streaming in primary-backup mode
+   *
+   * Called whenever an endpoint connects or disconnects. A disconnected
+   * active endpoint has promotionWindowMs to come back before a backup takes
+   * over; if no backup is connected by then, the first one to connect does.
+   */
+  private checkActiveEndpoint(): void {
+    if (this.options.failoverMode !== 'primary-backup' || !this.running) {
+      return;
+    }
+
+    if (this.activeClient?.isConnected()) {
+      this.clearPromotionTimer();
+      this.promotionDeadline = null;
+      return;
+    }
+
+    if (this.promotionDeadline === null) {
+      this.promotionDeadline = Date.now() + this.options.promotionWindowMs;
+    }
 
-    // Check if at least one connection succeeded
-    const connectedClients = this.clients.filter(client => client.isConnected());
-    
-    if (connectedClients.length === 0) {
-      throw new Error('❌ Failed to connect to any gRPC endpoints');
+    const remaining = this.promotionDeadline - Date.now();
+    if (remaining <= 0) {
+      this.promoteBackup('disconnected');
+    } else if (!this.promotionTimer) {
+      this.promotionTimer = setTimeout(() => {
+        this.promotionTimer = null;
+        this.checkActiveEndpoint();
+      }, remaining);
     }
+  }
 
-    // Set up internal stream management
-    this.setupInternalStreams();
-    
-    // Update endpoint states for initially connected clients
-    connectedClients.forEach(client => {
-      const endpoint = client.getEndpoint().endpoint;
-      const clientId = client.getId();
-      this.endpointStates.set(clientId, true);
-      
-      // Emit initial endpoint connected events
-      const endpointEvent: EndpointEvent = {
-        clientId,
-        endpoint,
-        status: 'connected',
-        timestamp: Date.now()
+  /**
+   * Make the first connected backup (in configuration order) the active endpoint
+   *
+   * The previous active endpoint becomes a backup and keeps its connection.
+   * Updates the pool missed while switching are reported as a gap once the
+   * new active endpoint delivers, unless its replay covers them.
+   *
+   * @returns true if a backup was promoted
+   */
+  private promoteBackup(reason: FailoverReason): boolean {
+    const previous = this.activeClient;
+    const backup = this.clients.find(client => client !== previous && client.isConnected() && !client.isStale());
+    if (!previous || !backup) {
+      this.logger.warn({ reason }, 'No connected backup endpoint to promote');
+      return false;
+    }
+
+    this.activeClient = backup;
+    this.clearPromotionTimer();
+    this.promotionDeadline = null;
+
+    if (this.lastSlot > 0 && !this.outage) {
+      this.outage = {
+        lastSlot: this.lastSlot,
+        reason: this.options.replayOnReconnect ? 'replay-unavailable' : 'replay-disabled',
+        replayRefused: false
       };
-      this.emit('endpoint', endpointEvent);
-    });
-    
-    // Set pool as connected and emit connected event
-    this.connected = true;
-    this.emit('connected');
-    
-    console.log(`✅ Connected to ${connectedClients.length}/${this.config.endpoints.length} endpoints`);
+    }
 
-    // Start automatic ping management
-    this.startPingInterval();
+    const failoverEvent: FailoverEvent = {
+      fromClientId: previous.getId(),
+      fromEndpoint: previous.getEndpoint().endpoint,
+      toClientId: backup.getId(),
+      toEndpoint: backup.getEndpoint().endpoint,
+      reason,
+      timestamp: Date.now()
+    };
+    this.logger.warn({ ...failoverEvent }, 'Promoted backup endpoint');
+    this.emit('failover', failoverEvent);
 
-    // Start stale connection monitoring
-    this.startStaleDetection();
+    if (this.clients.includes(previous)) {
+      this.writeClientRequest(previous, false);
+    }
+    this.writeClientRequest(backup, this.options.replayOnReconnect && this.lastSlot > 0);
+    return true;
   }
 
   /**
-   * Set up internal stream listeners for all connected clients
+   * Send a client the request resolved for its current role
+   *
+   * Disconnected clients keep it for when they reconnect.
+   *
+   * @param replay - Ask the provider to replay from the pool's last slot
    */
-  private setupInternalStreams(): void {
-    const connectedClients = this.clients.filter(client => client.isConnected());
-    
-    connectedClients.forEach(client => {
-      client.on('data', (data: StreamData) => {
-        // Process transaction data and emit to user
-        if (data.transaction) {
-          // Extract signature buffer from full transaction data for deduplication
-          const signatureBuffer = data.transaction.transaction?.signature;
-          
-          // Only process transactions that have signatures
-          if (!signatureBuffer || !Buffer.isBuffer(signatureBuffer)) {
-            return; // Skip transactions without valid signatures
-          }
-          
-          // === DEDUPLICATION CHECK ===
-          {
-            const isDuplicate = this.deduplicationService.isDuplicate(signatureBuffer);
-            const signature = bs58.encode(signatureBuffer);
-            const truncatedSignature = signature.substring(0, 32) + '...';
-            
-            if (isDuplicate) {
-              // Emit duplicate event for filtered transactions
-              const duplicateEvent: DuplicateEvent = {
-                signature: bs58.encode(signatureBuffer), // Full signature, not truncated
-                source: client.getEndpoint().endpoint,
-                timestamp: Date.now()
-              };
-              this.emit('duplicate', duplicateEvent);
-              return; // Don't emit duplicate transactions
-            }
-          }
-
-          // Create transaction event with full transaction data + our metadata
-          const transactionEvent: TransactionEvent = {
-            signature: bs58.encode(signatureBuffer), // Full base58 signature
-            data: data.transaction,           // Full gRPC transaction object
-            source: client.getEndpoint().endpoint,  // Which endpoint sent this
-            timestamp: data.receivedTimestamp || Date.now() // Use client timestamp or fallback
-          };
-          
-          // Emit transaction event to user (only unique transactions reach here)
-          this.emit('transaction', transactionEvent);
-        }
-
-        // Handle pong responses silently
-      });
-
-      client.on('error', (error: Error) => {
-        this.emit('error', error);
-      });
+  private writeClientRequest(client: GrpcClient, replay: boolean): void {
+    if (this.subscriptions.isEmpty()) {
+      return; // Nothing subscribed yet; clients receive the request on subscribe()
+    }
 
-      client.on('connected', () => {
-        const endpoint = client.getEndpoint().endpoint;
-        const clientId = client.getId();
-        const wasConnected = this.endpointStates.get(clientId);
-        this.endpointStates.set(clientId, true);
-        
-        // Determine status: reconnected if was previously false, connected if undefined or first time
-        let status: 'connected' | 'reconnected' = 'connected';
-        if (wasConnected === false) {
-          status = 'reconnected';
-        }
-        
-        // Emit endpoint event
-        const endpointEvent: EndpointEvent = {
-          clientId,
-          endpoint,
-          status,
-          timestamp: Date.now()
-        };
-        this.emit('endpoint', endpointEvent);
-        
-        // Check if pool should be considered connected
-        this.checkPoolConnectionStatus();
-      });
+    const request = this.buildClientRequest(client);
+    if (!client.isConnected()) {
+      client.setSubscription(request);
+      return;
+    }
 
-      client.on('disconnected', () => {
-        const endpoint = client.getEndpoint().endpoint;
-        const clientId = client.getId();
-        this.endpointStates.set(clientId, false);
-        
-        // Emit endpoint disconnection event
-        const endpointEvent: EndpointEvent = {
-          clientId,
-          endpoint,
-          status: 'disconnected',
-          timestamp: Date.now()
-        };
-        this.emit('endpoint', endpointEvent);
-        
-        // Check if pool should be considered disconnected
-        this.checkPoolConnectionStatus();
-      });
+    const write = replay ? client.subscribeFromSlot(request, this.lastSlot) : client.subscribe(request);
+    write.catch(error => {
+      this.logger.error(
+        { clientId: client.getId(), endpoint: client.getEndpoint().endpoint, err: toErrorFields(error) },
+        'Subscription failed'
+      );
     });
   }
 
   /**
-   * Check pool connection status and emit connected/disconnected events
+   * Cancel a pending promotion check
    */
-  private checkPoolConnectionStatus(): void {
-    const connectedEndpoints = Array.from(this.endpointStates.values()).filter(connected => connected).length;
-    const wasConnected = this.connected;
-    
-    if (connectedEndpoints > 0 && !wasConnected) {
-      // Pool just became connected
-      this.connected = true;
-      this.emit('connected');
-    } else if (connectedEndpoints === 0 && wasConnected) {
-      // Pool just became disconnected
-      this.connected = false;
-      this.emit('disconnected');
+  private clearPromotionTimer(): void {
+    if (this.promotionTimer) {
+      clearTimeout(this.promotionTimer);
+      this.promotionTimer = null;
     }
   }
 
@@ -265,7 +1374,7 @@ export class GrpcPool extends EventEmitter {
       try {
         await this.pingAllEndpoints();
       } catch (error) {
-        console.error('❌ Ping interval failed:', error);
+        this.logger.error({ err: toErrorFields(error) }, 'Ping interval failed');
       }
     }, this.options.pingIntervalMs);
   }
@@ -281,82 +1390,451 @@ export class GrpcPool extends EventEmitter {
       Math.min(calculatedInterval, this.options.maxStaleCheckIntervalMs)
     );
 
-    console.log(`🔍 Starting stale detection: checking every ${Math.round(checkInterval / 1000)}s for connections stale after ${Math.round(this.options.staleTimeoutMs / 1000)}s`);
+    this.logger.debug(
+      { checkIntervalMs: checkInterval, staleTimeoutMs: this.options.staleTimeoutMs },
+      'Starting stale connection detection'
+    );
 
     this.staleCheckInterval = setInterval(async () => {
       try {
         await this.checkForStaleConnections();
       } catch (error) {
-        console.error('❌ Stale detection check failed:', error);
+        this.logger.error({ err: toErrorFields(error) }, 'Stale detection check failed');
       }
     }, checkInterval);
   }
 
+  /**
+   * Start periodic 'latency-report' events
+   */
+  private startLatencyReports(): void {
+    if (this.options.latencyReportIntervalMs <= 0) {
+      return;
+    }
+
+    this.latencyReportInterval = setInterval(() => {
+      const report: LatencyReportEvent = {
+        endpoints: this.latencyTracker.getStats(),
+        timestamp: Date.now()
+      };
+      this.emit('latency-report', report);
+    }, this.options.latencyReportIntervalMs);
+  }
+
+  /**
+   * Start periodic endpoint health evaluation
+   */
+  private startHealthChecks(): void {
+    this.healthCheckInterval = setInterval(() => {
+      this.checkEndpointHealth();
+    }, DEFAULT_CONFIG.HEALTH_CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Score every endpoint and advance its quarantine circuit breaker
+   */
+  private checkEndpointHealth(): void {
+    const latency = new Map(this.latencyTracker.getStats().map(stats => [stats.clientId, stats]));
+
+    this.clients.forEach(client => {
+      // Failed endpoints wait for updateToken() instead of being probed
+      if (client.isFailed()) return;
+
+      const clientId = client.getId();
+      const score = this.healthTracker.getScore(clientId, latency.get(clientId));
+
+      // Race statistics are cumulative and depend on what each endpoint streams, so only
+      // connection health (uptime, reconnects, errors, stale events) drives quarantine
+      const connectionScore = this.healthTracker.getScore(clientId);
+      const action = this.healthTracker.evaluate(clientId, connectionScore, this.canQuarantine(client));
+      if (action) {
+        this.applyHealthAction(client, action, score);
+      }
+    });
+  }
+
+  /**
+   * Check whether enough healthy endpoints would keep streaming if this one were quarantined
+   *
+   * Quorum mode needs `quorum` of them, or every transaction would stay pending.
+   */
+  private canQuarantine(client: GrpcClient): boolean {
+    const remaining = this.clients.filter(other =>
+      other !== client && other.isConnected() && this.healthTracker.getState(other.getId()) === 'healthy'
+    ).length;
+    const required = this.options.failoverMode === 'quorum' ? this.options.quorum : 1;
+    return remaining >= required;
+  }
+
+  /**
+   * Carry out a quarantine circuit breaker step
+   */
+  private applyHealthAction(client: GrpcClient, action: HealthAction, score: number): void {
+    const clientId = client.getId();
+    const endpoint = client.getEndpoint().endpoint;
+
+    if (action === 'recover') {
+      this.logger.info({ clientId, endpoint }, 'Endpoint recovered from quarantine');
+      return;
+    }
+
+    if (action === 'quarantine') {
+      this.logger.warn({ clientId, endpoint, healthScore: score }, 'Quarantining unhealthy endpoint');
+      client.suspend();
+    } else {
+      this.logger.info({ clientId, endpoint }, 'Probing quarantined endpoint');
+      client.forceReconnect().catch(() => {
+        // Already logged by the client; the probe fails if it does not connect
+      });
+    }
+
+    const endpointEvent: EndpointEvent = {
+      clientId,
+      endpoint,
+      status: action === 'quarantine' ? 'quarantined' : 'probing',
+      timestamp: Date.now(),
+      healthScore: score
+    };
+    this.emit('endpoint', endpointEvent);
+  }
+
+  /**
+   * Start periodic deduplication snapshot saves, if a snapshot path is set
+   */
+  private startSnapshotInterval(): void {
+    if (!this.options.deduplicationSnapshotPath || this.options.deduplicationSnapshotIntervalMs <= 0) {
+      return;
+    }
+
+    this.snapshotInterval = setInterval(() => {
+      // Skip this tick if the previous save is still writing
+      if (!this.snapshotWrite) {
+        this.saveDeduplicationSnapshot().catch(() => {});
+      }
+    }, this.options.deduplicationSnapshotIntervalMs);
+  }
+
+  /**
+   * Load the deduplication snapshot file into the store
+   *
+   * A missing file is a normal first start; an unreadable one is logged and
+   * the pool starts with an empty cache.
+   */
+  private async restoreDeduplicationSnapshot(): Promise<void> {
+    const path = this.options.deduplicationSnapshotPath;
+    if (!path) return;
+
+    if (!this.deduplicationStore.restore) {
+      this.logger.warn({ path }, 'Deduplication store does not support snapshots, not restoring');
+      return;
+    }
+
+    try {
+      const snapshot = await readSnapshotFile(path);
+      if (snapshot) {
+        this.deduplicationStore.restore(snapshot);
+        this.logger.info({ path, entries: snapshot.entries.length }, 'Restored deduplication snapshot');
+      }
+    } catch (error) {
+      this.logger.warn({ path, err: toErrorFields(error) }, 'Failed to restore deduplication snapshot');
+    }
+  }
+
+  /**
+   * Write the store's current state to the snapshot file
+   */
+  private async saveDeduplicationSnapshot(): Promise<void> {
+    const path = this.options.deduplicationSnapshotPath;
+    const store = this.deduplicationStore;
+    if (!path || !store.snapshot) return;
+
+    // Let an in-progress periodic save finish before writing again
+    if (this.snapshotWrite) {
+      await this.snapshotWrite;
+    }
+
+    const snapshot = store.snapshot();
+    this.snapshotWrite = writeSnapshotFile(path, snapshot)
+      .then(() => {
+        this.logger.debug({ path, entries: snapshot.entries.length }, 'Saved deduplication snapshot');
+      })
+      .catch(error => {
+        this.logger.warn({ path, err: toErrorFields(error) }, 'Failed to save deduplication snapshot');
+      })
+      .finally(() => {
+        this.snapshotWrite = null;
+      });
+
+    await this.snapshotWrite;
+  }
+
   /**
    * Check all clients for stale connections and force reconnect if needed
    */
   private async checkForStaleConnections(): Promise<void> {
-    const staleClients = this.clients.filter(client => client.isStale());
+    const poolSlot = this.getPoolSlot();
+    const staleClients = this.clients
+      .map(client => ({ client, reason: this.getStaleReason(client, poolSlot) }))
+      .filter((entry): entry is { client: GrpcClient; reason: StaleReason } => entry.reason !== null);
+
+    // A stale active endpoint hands over before it is reconnected
+    if (this.options.failoverMode === 'primary-backup' && staleClients.some(({ client }) => client === this.activeClient)) {
+      this.promoteBackup('stale');
+    }
     
     if (staleClients.length > 0) {
-      console.log(`🔍 Found ${staleClients.length} stale connection(s), forcing reconnection...`);
-      
-      const reconnectPromises = staleClients.map(async (client) => {
-        const timeSinceLastMessage = client.getTimeSinceLastMessage();
-        const endpoint = client.getEndpoint().endpoint;
-        console.log(`⚠️ Stale connection detected: ${endpoint} (${Math.round(timeSinceLastMessage / 1000)}s since last message)`);
+      const reconnectPromises = staleClients.map(async ({ client, reason }) => {
+        const staleEvent: StaleEvent = {
+          clientId: client.getId(),
+          endpoint: client.getEndpoint().endpoint,
+          reason,
+          timeSinceLastMessageMs: client.getTimeSinceLastMessage(),
+          timestamp: Date.now()
+        };
+        const slotLag = this.getSlotLag(client, poolSlot);
+        if (slotLag !== null) {
+          staleEvent.slotLag = slotLag;
+        }
+
+        this.logger.warn({ ...staleEvent }, 'Stale connection detected, forcing reconnection');
+        this.emit('stale', staleEvent);
+        
+        this.metrics.recordStaleReconnect(client.getId());
+        this.healthTracker.recordStale(client.getId());
         
         try {
           await client.forceReconnect();
-          console.log(`🔄 Forcing reconnection for: ${endpoint}`);
-                  } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            console.error(`❌ Failed to force reconnect ${endpoint}:`, errorMessage);
-          }
+        } catch (error) {
+          this.logger.error(
+            { clientId: staleEvent.clientId, endpoint: staleEvent.endpoint, err: toErrorFields(error) },
+            'Failed to force reconnect'
+          );
+        }
       });
       
       await Promise.allSettled(reconnectPromises);
     }
   }
 
+  /**
+   * Judge whether a connected endpoint is stale from all available signals
+   *
+   * Pongs show the stream itself is alive, the slot heartbeat shows the
+   * endpoint is following the chain, and the slot lag shows whether it keeps
+   * up with the rest of the pool. Without the heartbeat, a quiet subscription
+   * on an endpoint that answers pings is not stale.
+   *
+   * @returns The reason, or null if the endpoint looks healthy
+   */
+  private getStaleReason(client: GrpcClient, poolSlot: number | null): StaleReason | null {
+    // Paused streams receive nothing by design; silent backups are expected to stay quiet
+    if (!client.isConnected() || client.isPaused()) return null;
+    if (this.options.backupSubscription === 'none' && this.isBackup(client)) return null;
+
+    const timeoutMs = this.options.staleTimeoutMs;
+
+    const unansweredPingMs = client.getUnansweredPingMs();
+    if (this.options.pongTimeoutMs > 0 && unansweredPingMs !== null && unansweredPingMs > this.options.pongTimeoutMs) {
+      return 'no-pong';
+    }
+
+    if (client.getTimeSinceLastMessage() > timeoutMs) {
+      const answersPings = !!client.getEndpoint().ping && client.getTimeSinceLastPong() <= timeoutMs;
+      if (this.options.slotHeartbeat || !answersPings) {
+        return 'no-data';
+      }
+    }
+
+    const slotLag = this.getSlotLag(client, poolSlot);
+    if (this.options.maxSlotLag > 0 && slotLag !== null && slotLag > this.options.maxSlotLag) {
+      return 'slot-lag';
+    }
+
+    return null;
+  }
+
+  /**
+   * Highest slot any connected endpoint has reached on its current connection
+   */
+  private getPoolSlot(): number | null {
+    let poolSlot: number | null = null;
+    this.clients.forEach(client => {
+      const slot = client.isConnected() ? client.getLastSlot() : null;
+      if (slot !== null && (poolSlot === null || slot > poolSlot)) {
+        poolSlot = slot;
+      }
+    });
+    return poolSlot;
+  }
+
+  /**
+   * Slots a connected endpoint is behind the pool
+   *
+   * @returns null until the endpoint delivered a slot update on its current connection
+   */
+  private getSlotLag(client: GrpcClient, poolSlot: number | null): number | null {
+    const slot = client.isConnected() ? client.getLastSlot() : null;
+    return slot !== null && poolSlot !== null ? poolSlot - slot : null;
+  }
+
   /**
    * Subscribe to transactions using the simplified API
    * 
    * This method handles all the internal stream setup and subscription management.
    * Users just need to call this once and listen for 'message-processed' events.
+   * Pass `tags` to only stream from endpoints carrying one of those tags; the
+   * remaining endpoints stay connected but stream nothing. Named subscriptions
+   * added with addSubscription() are kept alongside this one.
+   *
+   * @throws SubscriptionValidationError if the request fails validation; nothing is sent
    */
-  async subscribe(subscribeRequest: any): Promise<void> {
+  async subscribe(subscribeRequest: SubscribeRequest, options: SubscribeOptions = {}): Promise<void> {
+    validateSubscribeRequest(subscribeRequest, this.options.subscriptionLimits);
+
     if (!this.connected) {
       throw new Error('Pool not connected. Call connect() first.');
     }
 
-    console.log('📡 Setting up subscriptions on all connected endpoints...');
+    // Store current subscription and its targets for potential resubscription
+    this.subscriptions.setBase(subscribeRequest, options);
+
+    await this.applySubscriptions();
     
-    // Store current subscription for potential resubscription
-    this.currentSubscription = subscribeRequest;
+    this.logger.info({ namedSubscriptions: this.getSubscriptionNames().length }, 'Subscriptions active');
+  }
+
+  /**
+   * Add (or replace) a named subscription alongside the other active ones
+   *
+   * All active subscriptions are merged into one request per stream. Filter
+   * names are prefixed with `<name>::` on the wire, and each TransactionEvent
+   * lists the names whose filters it matched in `subscriptions`.
+   *
+   * @param name - Unique subscription name
+   * @param filters - Subscription request with the filters to add
+   * @param options - Endpoint targeting for this subscription
+   * @throws SubscriptionValidationError if the filters fail validation; nothing is sent
+   */
+  async addSubscription(name: string, filters: SubscribeRequest, options: SubscribeOptions = {}): Promise<void> {
+    validateSubscribeRequest(filters, this.options.subscriptionLimits);
+    this.subscriptions.add(name, filters, options);
+
+    if (this.connected) {
+      await this.applySubscriptions();
+    }
+  }
 
-    // Send subscription to all connected clients
+  /**
+   * Remove a named subscription and update all streams
+   *
+   * @returns true if a subscription with this name existed
+   */
+  async removeSubscription(name: string): Promise<boolean> {
+    const removed = this.subscriptions.remove(name);
+
+    if (removed && this.connected) {
+      await this.applySubscriptions();
+    }
+
+    return removed;
+  }
+
+  /**
+   * Get names of the active named subscriptions
+   */
+  getSubscriptionNames(): string[] {
+    return this.subscriptions.getNames();
+  }
+
+  /**
+   * Write the merged subscription to every connected client
+   */
+  private async applySubscriptions(): Promise<void> {
+    // Disconnected clients keep the new request for when they (re)connect
+    this.clients
+      .filter(client => !client.isConnected())
+      .forEach(client => client.setSubscription(this.buildClientRequest(client)));
+
+    // Send each connected client the request resolved for its endpoint
     const connectedClients = this.clients.filter(client => client.isConnected());
     const subscriptionPromises = connectedClients.map(client => 
-      client.subscribe(subscribeRequest).catch(error => {
-        console.error(`Subscription failed for ${client.getEndpoint().endpoint}:`, error.message);
+      client.subscribe(this.buildClientRequest(client)).catch(error => {
+        this.logger.error(
+          { clientId: client.getId(), endpoint: client.getEndpoint().endpoint, err: toErrorFields(error) },
+          'Subscription failed'
+        );
         return null;
       })
     );
     
     await Promise.allSettled(subscriptionPromises);
-    
-    console.log('✅ Subscriptions active! Pool will emit "message-processed" events.');
+  }
+
+  /**
+   * Resolve the request a client should stream with for the active subscriptions
+   *
+   * Merges the subscriptions targeting this endpoint, applies per-endpoint
+   * overrides, then adds the filters the pool needs internally.
+   */
+  private buildClientRequest(client: GrpcClient): SubscribeRequest {
+    if (this.isBackup(client)) {
+      return this.buildBackupRequest();
+    }
+
+    const endpoint = client.getEndpoint();
+
+    return this.withInternalFilters({
+      ...this.subscriptions.build(endpoint),
+      ...(endpoint.subscriptionOverrides ?? {})
+    });
+  }
+
+  /**
+   * Resolve the request backups stream while they wait to be promoted
+   *
+   * The slot heartbeat follows the subscription's commitment, so it costs
+   * one update per slot.
+   */
+  private buildBackupRequest(): SubscribeRequest {
+    if (this.options.backupSubscription === 'none') {
+      return { ...EMPTY_SUBSCRIBE_REQUEST };
+    }
+
+    const commitment = this.subscriptions.getCommitment();
+    return {
+      ...EMPTY_SUBSCRIBE_REQUEST,
+      ...(commitment !== undefined ? { commitment } : {}),
+      slots: { [INTERNAL_SLOT_FILTER]: { filterByCommitment: true } }
+    };
+  }
+
+  /**
+   * Add the filters the pool itself relies on to a user subscription request
+   */
+  private withInternalFilters(subscribeRequest: SubscribeRequest): SubscribeRequest {
+    if (!this.statusTracker && !this.options.slotHeartbeat) {
+      return subscribeRequest;
+    }
+
+    // Lifecycle tracking needs every slot status, regardless of subscription commitment;
+    // the heartbeat alone needs one update per slot
+    return {
+      ...subscribeRequest,
+      slots: {
+        ...(subscribeRequest.slots ?? {}),
+        [INTERNAL_SLOT_FILTER]: { filterByCommitment: !this.statusTracker }
+      }
+    };
   }
 
   /**
    * Send ping to all endpoints that support it (internal method)
    */
   private async pingAllEndpoints(): Promise<void> {
-    const pingId = Date.now();
     const connectedClients = this.clients.filter(client => client.isConnected());
     
-    const pingPromises = connectedClients.map(client => client.ping(pingId));
+    // Each client numbers its own pings so pongs can be matched and timed
+    const pingPromises = connectedClients.map(client => client.ping());
     await Promise.allSettled(pingPromises);
   }
 
@@ -364,7 +1842,7 @@ export class GrpcPool extends EventEmitter {
    * Close all connections and clean up resources
    */
   async close(): Promise<void> {
-    console.log('🔒 Closing all pool connections...');
+    this.logger.info({}, 'Closing all pool connections');
     
     // Clear ping interval
     if (this.pingInterval) {
@@ -378,33 +1856,101 @@ export class GrpcPool extends EventEmitter {
       this.staleCheckInterval = null;
     }
 
-    // Clean up deduplication service
-    this.deduplicationService.destroy();
+    // Clear latency report interval
+    if (this.latencyReportInterval) {
+      clearInterval(this.latencyReportInterval);
+      this.latencyReportInterval = null;
+    }
+
+    // Clear health check interval
+    if (this.healthCheckInterval) {
+      clearInterval(this.healthCheckInterval);
+      this.healthCheckInterval = null;
+    }
+
+    // Clear snapshot interval
+    if (this.snapshotInterval) {
+      clearInterval(this.snapshotInterval);
+      this.snapshotInterval = null;
+    }
+
+    // Cancel any pending backup promotion
+    this.clearPromotionTimer();
+    this.promotionDeadline = null;
+
+    // End output streams once their buffered events have been read
+    this.outputBuffers.forEach(buffer => buffer.end());
+
+    // Persist deduplication state for the next run before it is cleared
+    await this.saveDeduplicationSnapshot();
+
+    // Clean up deduplication service and status tracking
+    if (this.ownsDeduplicationStore) {
+      this.deduplicationStore.destroy?.();
+    }
+    this.statusTracker?.destroy();
+    this.latencyTracker.destroy();
+    this.healthTracker.destroy();
+    this.quorumTracker?.destroy();
 
     // Close all client connections
     const closePromises = this.clients.map(client => client.close());
     await Promise.allSettled(closePromises);
     
     this.connected = false;
-    this.currentSubscription = null;
-    console.log('✅ Pool closed');
+    this.running = false;
+    this.outage = null;
+    this.activeClient = null;
+    this.subscriptions.clear();
+    this.logger.info({}, 'Pool closed');
   }
 
   /**
    * Get connection status for monitoring
    */
-  getStatus(): { clientId: string; endpoint: string; connected: boolean; timeSinceLastMessage?: number }[] {
+  getStatus(): EndpointStatus[] {
+    const poolSlot = this.getPoolSlot();
+    const latency = new Map(this.latencyTracker.getStats().map(stats => [stats.clientId, stats]));
+
     return this.clients.map(client => {
-      const status: { clientId: string; endpoint: string; connected: boolean; timeSinceLastMessage?: number } = {
+      const status: EndpointStatus = {
         clientId: client.getId(),
         endpoint: client.getEndpoint().endpoint,
-        connected: client.isConnected()
+        connected: client.isConnected(),
+        healthScore: this.healthTracker.getScore(client.getId(), latency.get(client.getId())),
+        health: this.healthTracker.getState(client.getId())
       };
       
       if (client.isConnected()) {
         status.timeSinceLastMessage = client.getTimeSinceLastMessage();
       }
       
+      const lastSlot = this.lastSlotByClient.get(client.getId());
+      if (lastSlot !== undefined) {
+        status.lastSlot = lastSlot;
+      }
+      
+      const slotLag = this.getSlotLag(client, poolSlot);
+      if (slotLag !== null) {
+        status.slotLag = slotLag;
+      }
+      
+      const failureReason = client.getFailureReason();
+      if (failureReason !== null) {
+        status.failureReason = failureReason;
+      }
+      
+      const rttHistory = client.getRttHistory();
+      const lastRttMs = client.getLastRttMs();
+      if (lastRttMs !== null && rttHistory.length > 0) {
+        status.pingRttMs = lastRttMs;
+        status.pingRttAvgMs = rttHistory.reduce((sum, rttMs) => sum + rttMs, 0) / rttHistory.length;
+      }
+      
+      if (this.options.failoverMode === 'primary-backup') {
+        status.role = this.isBackup(client) ? 'backup' : 'active';
+      }
+      
       return status;
     });
   }
@@ -412,7 +1958,73 @@ export class GrpcPool extends EventEmitter {
   /**
    * Get deduplication statistics for monitoring
    */
-  getDeduplicationStats(): { size: number; maxSize: number; ttlMs: number } {
-    return this.deduplicationService.getStats();
+  getDeduplicationStats(): DeduplicationStats {
+    // Shared stores may keep their state elsewhere and report nothing
+    return this.deduplicationStore.getStats?.() ?? {
+      size: 0,
+      maxSize: 0,
+      ttlMs: this.options.deduplicationTtlMs,
+      evictions: 0
+    };
+  }
+
+  /**
+   * Get per-endpoint delivery race statistics
+   *
+   * Shows which endpoint delivers each signature first, how far the others
+   * lag behind it, and how many signatures each endpoint never delivered.
+   */
+  getLatencyStats(): EndpointLatencyStats[] {
+    return this.latencyTracker.getStats();
+  }
+
+  /**
+   * Get quorum confirmation statistics
+   *
+   * @returns Statistics, or null unless failoverMode is 'quorum'
+   */
+  getQuorumStats(): QuorumStats | null {
+    return this.quorumTracker?.getStats() ?? null;
+  }
+
+  /**
+   * Get a snapshot of pool health metrics
+   *
+   * Counters are cumulative since the endpoint was added to the pool.
+   */
+  getMetrics(): PoolMetrics {
+    const deduplication = this.getDeduplicationStats();
+    const latency = new Map(this.latencyTracker.getStats().map(stats => [stats.clientId, stats]));
+
+    return {
+      endpoints: this.clients.map(client => ({
+        clientId: client.getId(),
+        endpoint: client.getEndpoint().endpoint,
+        connected: client.isConnected(),
+        ...this.metrics.get(client.getId()),
+        retryAttempts: client.getRetryAttempts(),
+        timeSinceLastMessageMs: client.getTimeSinceLastMessage(),
+        pingRttMs: client.getLastRttMs(),
+        healthScore: this.healthTracker.getScore(client.getId(), latency.get(client.getId())),
+        quarantined: this.healthTracker.getState(client.getId()) === 'quarantined'
+      })),
+      deduplication: {
+        size: deduplication.size,
+        maxSize: deduplication.maxSize,
+        evictions: deduplication.evictions,
+        ...(deduplication.estimatedBytes !== undefined ? { estimatedBytes: deduplication.estimatedBytes } : {})
+      },
+      ...(this.quorumTracker ? { quorum: this.quorumTracker.getStats() } : {}),
+      timestamp: Date.now()
+    };
+  }
+
+  /**
+   * Get pool health metrics in the OpenMetrics text format
+   *
+   * See createMetricsHandler() to serve these to a scraper over HTTP.
+   */
+  getMetricsText(): string {
+    return renderOpenMetrics(this.getMetrics());
   }
 } 
\ No newline at end of file
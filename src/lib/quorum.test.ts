@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { QuorumTracker } from './quorum';
+
+const a = { clientId: 'client-a', endpoint: 'https://a.example' };
+const b = { clientId: 'client-b', endpoint: 'https://b.example' };
+const c = { clientId: 'client-c', endpoint: 'https://c.example' };
+
+describe('QuorumTracker', () => {
+  let tracker: QuorumTracker;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    tracker.destroy();
+    jest.useRealTimers();
+  });
+
+  it('is pending until the quorum is reached, then confirmed', () => {
+    tracker = new QuorumTracker({ quorum: 2 });
+    expect(tracker.report('sig', a, 100)).toBe('pending');
+    expect(tracker.report('sig', b, 110)).toBe('reached');
+    expect(tracker.report('sig', c, 120)).toBe('confirmed');
+    expect(tracker.getStats()).toEqual({ quorum: 2, pending: 0, confirmed: 1, expired: 0 });
+  });
+
+  it('counts repeated reports from the same endpoint once', () => {
+    tracker = new QuorumTracker({ quorum: 2 });
+    expect(tracker.report('sig', a, 100)).toBe('pending');
+    expect(tracker.report('sig', a, 105)).toBe('pending');
+    expect(tracker.getReporters('sig')).toEqual([a.endpoint]);
+    expect(tracker.report('sig', b, 110)).toBe('reached');
+  });
+
+  it('keeps reports in arrival order with their own receive times', () => {
+    tracker = new QuorumTracker({ quorum: 3 });
+    tracker.report('sig', b, 100);
+    tracker.report('sig', a, 140);
+    tracker.report('sig', b, 150);
+    tracker.report('sig', c, 170);
+
+    expect(tracker.getReports('sig')).toEqual([
+      { ...b, timestamp: 100 },
+      { ...a, timestamp: 140 },
+      { ...c, timestamp: 170 }
+    ]);
+    expect(tracker.getReports('unknown')).toEqual([]);
+  });
+
+  it('reaches a quorum of one on the first report', () => {
+    tracker = new QuorumTracker({ quorum: 1 });
+    expect(tracker.report('sig', a, 100)).toBe('reached');
+    expect(tracker.report('sig', b, 110)).toBe('confirmed');
+  });
+
+  it('expires signatures that miss the quorum within the window', () => {
+    tracker = new QuorumTracker({ quorum: 2, quorumWindowMs: 5000 });
+    tracker.report('missed', a, Date.now());
+    tracker.report('confirmed', a, Date.now());
+    tracker.report('confirmed', b, Date.now());
+
+    jest.advanceTimersByTime(5000);
+    expect(tracker.getStats()).toEqual({ quorum: 2, pending: 0, confirmed: 1, expired: 1 });
+    expect(tracker.getReports('missed')).toEqual([]);
+
+    // A late report starts over rather than completing the old quorum
+    expect(tracker.report('missed', b, Date.now())).toBe('pending');
+  });
+
+  it('keeps confirming late copies after the window until the deduplication TTL', () => {
+    tracker = new QuorumTracker({ quorum: 2, quorumWindowMs: 5000, deduplicationTtlMs: 20_000 });
+    tracker.report('sig', a, Date.now());
+    tracker.report('sig', b, Date.now());
+
+    jest.advanceTimersByTime(15_000);
+    expect(tracker.report('sig', c, Date.now())).toBe('confirmed');
+    expect(tracker.getReporters('sig')).toEqual([a.endpoint, b.endpoint]);
+    expect(tracker.getStats()).toEqual({ quorum: 2, pending: 0, confirmed: 1, expired: 0 });
+
+    jest.advanceTimersByTime(5000);
+    expect(tracker.getReports('sig')).toEqual([]);
+    expect(tracker.report('sig', c, Date.now())).toBe('pending');
+  });
+
+  it('judges pending signatures against a changed quorum on their next report', () => {
+    tracker = new QuorumTracker({ quorum: 3 });
+    expect(tracker.report('sig', a, 100)).toBe('pending');
+    expect(tracker.report('sig', b, 110)).toBe('pending');
+
+    tracker.setQuorum(2);
+    expect(tracker.getStats().quorum).toBe(2);
+    expect(tracker.report('sig', b, 120)).toBe('reached');
+    expect(() => tracker.setQuorum(0)).toThrow('Invalid quorum 0');
+  });
+
+  it('drops the oldest signature when tracking the maximum', () => {
+    tracker = new QuorumTracker({ quorum: 2, maxCacheSize: 2 });
+    tracker.report('first', a, 100);
+    tracker.report('second', a, 110);
+    tracker.report('third', a, 120);
+
+    expect(tracker.getStats()).toMatchObject({ pending: 2, expired: 1 });
+    expect(tracker.report('first', b, 130)).toBe('pending');
+    expect(tracker.report('third', b, 140)).toBe('reached');
+  });
+
+  it('rejects a quorum that is not a positive integer', () => {
+    tracker = new QuorumTracker({ quorum: 1 });
+    expect(() => new QuorumTracker({ quorum: 0 })).toThrow('Invalid quorum 0');
+    expect(() => new QuorumTracker({ quorum: 1.5 })).toThrow('Invalid quorum 1.5');
+  });
+});
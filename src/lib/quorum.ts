@@ -0,0 +1,241 @@
+/**
+ * lib/quorum.ts - Cross-endpoint confirmation of transactions
+ *
+ * Counts which endpoints reported each signature so the pool can hold a
+ * transaction back until a quorum of providers agree it happened. Signatures
+ * that never reach the quorum within the window are dropped.
+ *
+ * @module lib/quorum
+ * @author StalkChain Team
+ * @version 1.1.2
+ */
+
+import { DEFAULT_CONFIG } from '../constants';
+import { QuorumStats } from '../types';
+
+/**
+ * Endpoint reporting a signature
+ */
+interface QuorumReporter {
+  clientId: string;
+  endpoint: string;
+}
+
+/**
+ * One endpoint's report of a signature
+ */
+export interface QuorumReport extends QuorumReporter {
+  timestamp: number; // When the endpoint received the signature
+}
+
+/**
+ * Reports collected for one signature
+ */
+interface QuorumEntry {
+  firstSeen: number;
+  reporters: QuorumReport[]; // Distinct endpoints, in report order
+}
+
+/**
+ * Signature that reached the quorum
+ */
+interface ReachedEntry {
+  reachedAt: number;
+  reporters: QuorumReport[]; // Endpoints that completed the quorum, in report order
+}
+
+/**
+ * Outcome of a report
+ *
+ * - pending: fewer than `quorum` endpoints have reported the signature
+ * - reached: this report completed the quorum
+ * - confirmed: the quorum was already reached by earlier reports
+ */
+export type QuorumStatus = 'pending' | 'reached' | 'confirmed';
+
+/**
+ * Reject quorums that are not a positive integer
+ */
+function validateQuorum(quorum: number): void {
+  if (!Number.isInteger(quorum) || quorum < 1) {
+    throw new Error(`Invalid quorum ${quorum}: must be a positive integer`);
+  }
+}
+
+/**
+ * Tracks reports of each signature until a quorum of endpoints is reached
+ *
+ * Signatures that reached the quorum are remembered for the deduplication
+ * TTL rather than the quorum window, so copies arriving after the window are
+ * reported as confirmed (and deduplicated) instead of starting a new pending
+ * entry that is bound to expire.
+ */
+export class QuorumTracker {
+  private pending: Map<string, QuorumEntry> = new Map(); // In first-seen order
+  private reached: Map<string, ReachedEntry> = new Map(); // In the order the quorum was reached
+  private confirmed: number = 0;
+  private expired: number = 0;
+  private cleanupInterval: NodeJS.Timeout | null = null;
+  private config: {
+    quorum: number;
+    windowMs: number;
+    retentionMs: number;
+    maxPending: number;
+  };
+
+  /**
+   * @param options.quorum - Distinct endpoints required before a signature is confirmed
+   * @param options.quorumWindowMs - Time the other endpoints have to report a signature (default: 10000)
+   * @param options.deduplicationTtlMs - How long confirmed signatures are remembered (default: 60000)
+   * @param options.maxCacheSize - Maximum signatures tracked at once, pending and confirmed each (default: 10000)
+   */
+  constructor(options: { quorum: number; quorumWindowMs?: number; deduplicationTtlMs?: number; maxCacheSize?: number }) {
+    validateQuorum(options.quorum);
+
+    this.config = {
+      quorum: options.quorum,
+      windowMs: options.quorumWindowMs ?? DEFAULT_CONFIG.QUORUM_WINDOW_MS,
+      retentionMs: options.deduplicationTtlMs ?? DEFAULT_CONFIG.DEDUP_TTL_MS,
+      maxPending: options.maxCacheSize ?? DEFAULT_CONFIG.MAX_DEDUP_SIGNATURES
+    };
+
+    this.startCleanupInterval();
+  }
+
+  /**
+   * Change the number of endpoints required, e.g. after endpoints were added or removed
+   *
+   * Pending signatures are judged against the new quorum on their next report.
+   */
+  setQuorum(quorum: number): void {
+    validateQuorum(quorum);
+    this.config.quorum = quorum;
+  }
+
+  /**
+   * Record that an endpoint reported a signature
+   *
+   * Repeated reports from the same endpoint are only counted once.
+   *
+   * @param key - Deduplication key of the signature
+   * @param reporter - Endpoint that reported it
+   * @param timestamp - When the endpoint received it
+   */
+  report(key: string, reporter: QuorumReporter, timestamp: number): QuorumStatus {
+    if (this.reached.has(key)) {
+      return 'confirmed';
+    }
+
+    let entry = this.pending.get(key);
+    if (!entry) {
+      // Keep memory bounded: give up on the oldest signature when at capacity
+      if (this.pending.size >= this.config.maxPending) {
+        const oldest = this.pending.keys().next();
+        if (!oldest.done) this.expire(oldest.value);
+      }
+
+      entry = { firstSeen: timestamp, reporters: [] };
+      this.pending.set(key, entry);
+    }
+
+    if (!entry.reporters.some(existing => existing.clientId === reporter.clientId)) {
+      entry.reporters.push({ clientId: reporter.clientId, endpoint: reporter.endpoint, timestamp });
+    }
+
+    if (entry.reporters.length < this.config.quorum) {
+      return 'pending';
+    }
+
+    this.pending.delete(key);
+    if (this.reached.size >= this.config.maxPending) {
+      const oldest = this.reached.keys().next();
+      if (!oldest.done) this.reached.delete(oldest.value);
+    }
+    this.reached.set(key, { reachedAt: timestamp, reporters: entry.reporters });
+    this.confirmed++;
+    return 'reached';
+  }
+
+  /**
+   * Get the endpoints that reported a signature, in report order
+   */
+  getReporters(key: string): string[] {
+    return this.getReports(key).map(reporter => reporter.endpoint);
+  }
+
+  /**
+   * Get every report of a signature with its receive time, in report order
+   *
+   * Used to credit the delivery race to the first reporter rather than the
+   * endpoint that completed the quorum.
+   */
+  getReports(key: string): QuorumReport[] {
+    return (this.reached.get(key) ?? this.pending.get(key))?.reporters.slice() ?? [];
+  }
+
+  /**
+   * Get quorum statistics for monitoring
+   */
+  getStats(): QuorumStats {
+    return {
+      quorum: this.config.quorum,
+      pending: this.pending.size,
+      confirmed: this.confirmed,
+      expired: this.expired
+    };
+  }
+
+  /**
+   * Give up on a pending signature, counting it as expired
+   */
+  private expire(key: string): void {
+    if (this.pending.delete(key)) {
+      this.expired++;
+    }
+  }
+
+  /**
+   * Start automatic cleanup interval to expire old signatures
+   */
+  private startCleanupInterval(): void {
+    // Clean up every 1 second, same cadence as deduplication
+    this.cleanupInterval = setInterval(() => {
+      this.expireOldEntries();
+    }, 1000);
+  }
+
+  /**
+   * Expire pending signatures first seen longer ago than the window, and
+   * forget confirmed ones older than the retention
+   *
+   * Both maps are in insertion order, so each scan stops at the first entry
+   * that is still current.
+   */
+  private expireOldEntries(): void {
+    const now = Date.now();
+
+    const windowCutoff = now - this.config.windowMs;
+    for (const [key, entry] of this.pending.entries()) {
+      if (entry.firstSeen > windowCutoff) break;
+      this.expire(key);
+    }
+
+    const retentionCutoff = now - this.config.retentionMs;
+    for (const [key, entry] of this.reached.entries()) {
+      if (entry.reachedAt > retentionCutoff) break;
+      this.reached.delete(key);
+    }
+  }
+
+  /**
+   * Clear all state and stop cleanup interval
+   */
+  destroy(): void {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+    this.pending.clear();
+    this.reached.clear();
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { RedisDeduplicationStore, RedisSetClient } from './redis-store';
+
+/**
+ * In-memory stand-in for Redis `SET key value PX ttl NX`
+ */
+class FakeRedis implements RedisSetClient {
+  readonly keys: Map<string, { value: string; expiresAt: number }> = new Map();
+  calls: number = 0;
+
+  async set(key: string, value: string, _px: 'PX', ttlMs: number, _nx: 'NX'): Promise<string | null> {
+    this.calls++;
+    const existing = this.keys.get(key);
+    if (existing && existing.expiresAt > Date.now()) {
+      return null;
+    }
+    this.keys.set(key, { value, expiresAt: Date.now() + ttlMs });
+    return 'OK';
+  }
+}
+
+describe('RedisDeduplicationStore', () => {
+  let redis: FakeRedis;
+  let store: RedisDeduplicationStore;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    redis = new FakeRedis();
+    store = new RedisDeduplicationStore(redis);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('reports a key as new the first time and as a duplicate afterwards', async () => {
+    expect(await store.checkAndSet('tx:abc', 60000)).toBe(false);
+    expect(await store.checkAndSet('tx:abc', 60000)).toBe(true);
+    expect(await store.checkAndSet('tx:def', 60000)).toBe(false);
+  });
+
+  it('forgets a key once its TTL has passed', async () => {
+    await store.checkAndSet('tx:abc', 1000);
+    jest.advanceTimersByTime(999);
+    expect(await store.checkAndSet('tx:abc', 1000)).toBe(true);
+    jest.advanceTimersByTime(1);
+    expect(await store.checkAndSet('tx:abc', 1000)).toBe(false);
+  });
+
+  it('shares claims between stores on the same server', async () => {
+    const replica = new RedisDeduplicationStore(redis);
+    expect(await store.checkAndSet('tx:abc', 60000)).toBe(false);
+    expect(await replica.checkAndSet('tx:abc', 60000)).toBe(true);
+  });
+
+  it('keeps stores with different prefixes apart', async () => {
+    const other = new RedisDeduplicationStore(redis, { keyPrefix: 'other:' });
+    await store.checkAndSet('tx:abc', 60000);
+    expect(await other.checkAndSet('tx:abc', 60000)).toBe(false);
+    expect(Array.from(redis.keys.keys()).sort()).toEqual([
+      'grpc-pool:dedup:' + Buffer.from('tx:abc', 'binary').toString('base64'),
+      'other:' + Buffer.from('tx:abc', 'binary').toString('base64')
+    ].sort());
+  });
+
+  it('encodes binary keys losslessly', async () => {
+    const first = String.fromCharCode(0, 255, 128) + 'a';
+    const second = String.fromCharCode(0, 255, 129) + 'a';
+    expect(await store.checkAndSet(first, 60000)).toBe(false);
+    expect(await store.checkAndSet(second, 60000)).toBe(false);
+    expect(await store.checkAndSet(first, 60000)).toBe(true);
+    expect(Array.from(redis.keys.keys()).every(key => /^[\x20-\x7e]+$/.test(key))).toBe(true);
+  });
+
+  it('rounds TTLs to at least one millisecond', async () => {
+    const setSpy = jest.spyOn(redis, 'set');
+    await store.checkAndSet('a', 0.2);
+    await store.checkAndSet('b', 1500.6);
+    expect(setSpy.mock.calls.map(call => call[3])).toEqual([1, 1501]);
+  });
+
+  it('answers checkAndSetMany per key and in order', async () => {
+    await store.checkAndSet('b', 60000);
+    expect(await store.checkAndSetMany(['a', 'b', 'c', 'a'], 60000)).toEqual([false, true, false, true]);
+    expect(redis.calls).toBe(5);
+  });
+
+  it('returns an empty result for no keys', async () => {
+    expect(await store.checkAndSetMany([], 60000)).toEqual([]);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * lib/redis-store.ts - Redis-backed deduplication store
+ *
+ * Shares deduplication state between several pool instances (for example
+ * replicas of the same indexer) through any Redis-compatible server, using
+ * atomic `SET key 1 PX <ttl> NX` so exactly one instance claims each update.
+ *
+ * @module lib/redis-store
+ * @author StalkChain Team
+ * @version 1.1.2
+ */
+
+import { DeduplicationStore } from '../types';
+
+/**
+ * Minimal Redis client used by the store
+ *
+ * Matches ioredis' `set(key, value, 'PX', ttl, 'NX')` signature, which
+ * resolves to 'OK' when the key was set and null when it already existed.
+ * Other clients (or an in-memory fake) only need to implement this method.
+ */
+export interface RedisSetClient {
+  set(key: string, value: string, px: 'PX', ttlMs: number, nx: 'NX'): Promise<string | null>;
+}
+
+/**
+ * Deduplication store backed by Redis `SET NX PX`
+ */
+export class RedisDeduplicationStore implements DeduplicationStore {
+  private client: RedisSetClient;
+  private keyPrefix: string;
+
+  /**
+   * @param client - ioredis instance or compatible client
+   * @param options.keyPrefix - Prefix for every key, to share one Redis between pools (default: 'grpc-pool:dedup:')
+   */
+  constructor(client: RedisSetClient, options?: { keyPrefix?: string }) {
+    this.client = client;
+    this.keyPrefix = options?.keyPrefix ?? 'grpc-pool:dedup:';
+  }
+
+  /**
+   * Claim a key in Redis
+   *
+   * @returns true if another instance (or an earlier update) already claimed it
+   */
+  async checkAndSet(key: string, ttlMs: number): Promise<boolean> {
+    const result = await this.client.set(this.toRedisKey(key), '1', 'PX', Math.max(1, Math.round(ttlMs)), 'NX');
+    return result === null;
+  }
+
+  /**
+   * Claim several keys in Redis
+   *
+   * Commands are issued together, so clients with auto-pipelining send them
+   * in a single round trip.
+   */
+  async checkAndSetMany(keys: string[], ttlMs: number): Promise<boolean[]> {
+    return Promise.all(keys.map(key => this.checkAndSet(key, ttlMs)));
+  }
+
+  /**
+   * Encode a pool key for Redis
+   *
+   * Pool keys can contain raw signature bytes as 'binary' characters, which
+   * base64 turns into a printable, lossless Redis key.
+   */
+  private toRedisKey(key: string): string {
+    return this.keyPrefix + Buffer.from(key, 'binary').toString('base64');
+  }
+}
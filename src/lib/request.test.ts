@@ -0,0 +1,136 @@
+import { describe, it, expect } from '@jest/globals';
+import bs58 from 'bs58';
+import { validateSubscribeRequest, toWireCommitment, toWireRequest } from './request';
+import { SubscriptionValidationError } from './errors';
+import { SubscriptionLimits } from '../types';
+
+const SYSTEM = '11111111111111111111111111111111';
+const TOKEN = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+const SIGNATURE = bs58.encode(Buffer.alloc(64, 7));
+
+/**
+ * Validate a request and return the issues it was rejected with (empty if accepted)
+ */
+function issuesOf(request: unknown, limits?: SubscriptionLimits): string[] {
+  try {
+    validateSubscribeRequest(request, limits);
+    return [];
+  } catch (error) {
+    if (!(error instanceof SubscriptionValidationError)) throw error;
+    return error.issues;
+  }
+}
+
+describe('validateSubscribeRequest', () => {
+  it('accepts a well-formed request', () => {
+    expect(issuesOf({
+      accounts: {
+        vaults: {
+          owner: [TOKEN],
+          filters: [{ datasize: '165' }, { memcmp: { offset: 32, base58: SYSTEM } }, { tokenAccountState: true }]
+        }
+      },
+      transactions: { mine: { vote: false, failed: false, accountInclude: [SYSTEM], signature: SIGNATURE } },
+      slots: { slots: { filterByCommitment: true } },
+      accountsDataSlice: [{ offset: '0', length: 32 }],
+      commitment: 'confirmed',
+      fromSlot: '250000000'
+    })).toEqual([]);
+  });
+
+  it('reports every problem with its path in one error', () => {
+    const error = (() => {
+      try {
+        validateSubscribeRequest({
+          transaction: {},
+          transactions: { mine: { vote: 'no', accountInclude: [SYSTEM, 'not-a-key'] } },
+          fromSlot: -1
+        });
+      } catch (caught) {
+        return caught;
+      }
+      return null;
+    })();
+
+    expect(error).toBeInstanceOf(SubscriptionValidationError);
+    expect((error as SubscriptionValidationError).issues).toEqual([
+      'transaction is not a Yellowstone subscription field',
+      'transactions.mine.vote must be a boolean',
+      'transactions.mine.accountInclude[1] is not a base58 pubkey: "not-a-key"',
+      'fromSlot must be an unsigned 64-bit integer, got -1'
+    ]);
+    expect((error as Error).message).toMatch(/^Invalid subscription request: transaction is not/);
+  });
+
+  it('rejects a request that is not an object', () => {
+    expect(issuesOf(null)).toEqual(['request must be an object']);
+    expect(issuesOf([])).toEqual(['request must be an object']);
+  });
+
+  it('rejects filter names reserved for the pool', () => {
+    expect(issuesOf({ slots: { __pool_slots: {} } })).toEqual([
+      'slots.__pool_slots filter names starting with "__pool_" are reserved for the pool'
+    ]);
+  });
+
+  it('checks signatures, u64 values and commitments', () => {
+    expect(issuesOf({ transactionsStatus: { one: { signature: SYSTEM } } })).toEqual([
+      'transactionsStatus.one.signature must be a base58 transaction signature'
+    ]);
+    expect(issuesOf({ fromSlot: '18446744073709551616' })).toHaveLength(1);
+    expect(issuesOf({ fromSlot: '18446744073709551615' })).toEqual([]);
+    expect(issuesOf({ commitment: 'safe' })).toEqual([
+      'commitment must be one of processed, confirmed, finalized (or 0-2), got "safe"'
+    ]);
+    expect(issuesOf({ commitment: 2 })).toEqual([]);
+  });
+
+  it('enforces Yellowstone limits on account conditions', () => {
+    const conditions = Array.from({ length: 5 }, () => ({ datasize: 165 }));
+    expect(issuesOf({ accounts: { many: { filters: conditions } } })).toEqual([
+      'accounts.many.filters has 5 conditions, Yellowstone allows at most 4'
+    ]);
+
+    expect(issuesOf({ accounts: { big: { filters: [{ memcmp: { offset: 0, bytes: new Uint8Array(129) } }] } } })).toEqual([
+      'accounts.big.filters[0].memcmp.bytes is 129 bytes, Yellowstone allows at most 128'
+    ]);
+    expect(issuesOf({ accounts: { both: { filters: [{ datasize: 1, lamports: { gt: 1 } }] } } })).toEqual([
+      'accounts.both.filters[0] must set exactly one of memcmp, datasize, tokenAccountState or lamports'
+    ]);
+    expect(issuesOf({ accounts: { bad: { filters: [{ memcmp: { offset: 0, base64: '***' } }] } } })).toEqual([
+      'accounts.bad.filters[0].memcmp.base64 is not valid base64 data'
+    ]);
+  });
+
+  it('enforces the provider limits it is given', () => {
+    const limits = { maxFilters: 1, maxAccountsPerFilter: 1, maxDataSlices: 1 };
+    const request = {
+      transactions: { one: { accountInclude: [SYSTEM, TOKEN] }, two: {} },
+      accountsDataSlice: [{ offset: 0, length: 1 }, { offset: 1, length: 1 }]
+    };
+
+    expect(issuesOf(request)).toEqual([]);
+    expect(issuesOf(request, limits)).toEqual([
+      'transactions has 2 filters, the limit is 1',
+      'transactions.one.accountInclude has 2 pubkeys, the limit is 1',
+      'accountsDataSlice has 2 slices, the limit is 1'
+    ]);
+  });
+});
+
+describe('toWireCommitment', () => {
+  it('maps names case-insensitively and passes valid enum numbers through', () => {
+    expect(toWireCommitment('processed')).toBe(0);
+    expect(toWireCommitment('Confirmed')).toBe(1);
+    expect(toWireCommitment('FINALIZED')).toBe(2);
+    expect(toWireCommitment(1)).toBe(1);
+    expect(toWireCommitment(3)).toBeUndefined();
+    expect(toWireCommitment('safe')).toBeUndefined();
+  });
+
+  it('converts only named commitments in requests', () => {
+    const numeric = { commitment: 2 };
+    expect(toWireRequest(numeric)).toBe(numeric);
+    expect(toWireRequest({ commitment: 'confirmed', slots: {} })).toEqual({ commitment: 1, slots: {} });
+  });
+});
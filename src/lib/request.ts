@@ -0,0 +1,379 @@
+/**
+ * lib/request.ts - Subscription request validation and wire format
+ *
+ * Checks subscription requests locally so mistakes surface as one clear
+ * error instead of a provider rejecting the stream: pubkeys and signatures
+ * must be base58 of the right length, u64 fields decimal integers, the
+ * commitment a known level and filters within Yellowstone's and the
+ * provider's limits. Also converts commitment names to the enum numbers
+ * Yellowstone expects on the wire.
+ *
+ * @module lib/request
+ * @author StalkChain Team
+ * @version 1.1.2
+ */
+
+import bs58 from 'bs58';
+import { CommitmentLevel, INTERNAL_FILTER_PREFIX } from '../constants';
+import { SubscriptionLimits } from '../types';
+import { SubscriptionValidationError } from './errors';
+
+/**
+ * Decoded sizes of Solana pubkeys and transaction signatures
+ */
+const PUBKEY_BYTES = 32;
+const SIGNATURE_BYTES = 64;
+
+const MAX_U64 = BigInt('18446744073709551615');
+
+/**
+ * Yellowstone's own limits on account data conditions, whatever the provider allows
+ */
+const MAX_ACCOUNT_CONDITIONS = 4;
+const MAX_MEMCMP_BYTES = 128;
+
+/**
+ * Yellowstone CommitmentLevel enum numbers by name
+ */
+const WIRE_COMMITMENT: Record<CommitmentLevel, number> = {
+  [CommitmentLevel.PROCESSED]: 0,
+  [CommitmentLevel.CONFIRMED]: 1,
+  [CommitmentLevel.FINALIZED]: 2
+};
+
+/**
+ * Top-level request fields Yellowstone understands
+ */
+const REQUEST_FIELDS = new Set([
+  'accounts',
+  'slots',
+  'transactions',
+  'transactionsStatus',
+  'blocks',
+  'blocksMeta',
+  'entry',
+  'commitment',
+  'accountsDataSlice',
+  'ping',
+  'fromSlot'
+]);
+
+/**
+ * Validate a subscription request before it is sent
+ *
+ * @param request - Request to check
+ * @param limits - Provider filter limits to enforce as well
+ * @throws SubscriptionValidationError listing every problem found
+ */
+export function validateSubscribeRequest(request: unknown, limits: SubscriptionLimits = {}): void {
+  const issues = new Issues(limits);
+
+  if (!isObject(request)) {
+    throw new SubscriptionValidationError(['request must be an object']);
+  }
+
+  Object.keys(request).forEach(field => {
+    if (!REQUEST_FIELDS.has(field)) {
+      issues.add(field, 'is not a Yellowstone subscription field');
+    }
+  });
+
+  issues.filterMap(request, 'accounts', (filter, path) => {
+    issues.pubkeys(filter.account, `${path}.account`);
+    issues.pubkeys(filter.owner, `${path}.owner`);
+    issues.optionalBoolean(filter.nonemptyTxnSignature, `${path}.nonemptyTxnSignature`);
+
+    if (filter.filters === undefined) return;
+    if (!Array.isArray(filter.filters)) {
+      issues.add(`${path}.filters`, 'must be an array');
+      return;
+    }
+    if (filter.filters.length > MAX_ACCOUNT_CONDITIONS) {
+      issues.add(`${path}.filters`, `has ${filter.filters.length} conditions, Yellowstone allows at most ${MAX_ACCOUNT_CONDITIONS}`);
+    }
+    filter.filters.forEach((condition: unknown, index: number) => {
+      issues.accountCondition(condition, `${path}.filters[${index}]`);
+    });
+  });
+
+  issues.filterMap(request, 'slots', (filter, path) => {
+    issues.optionalBoolean(filter.filterByCommitment, `${path}.filterByCommitment`);
+    issues.optionalBoolean(filter.interslotUpdates, `${path}.interslotUpdates`);
+  });
+
+  (['transactions', 'transactionsStatus'] as const).forEach(field => {
+    issues.filterMap(request, field, (filter, path) => {
+      issues.optionalBoolean(filter.vote, `${path}.vote`);
+      issues.optionalBoolean(filter.failed, `${path}.failed`);
+      issues.pubkeys(filter.accountInclude, `${path}.accountInclude`);
+      issues.pubkeys(filter.accountExclude, `${path}.accountExclude`);
+      issues.pubkeys(filter.accountRequired, `${path}.accountRequired`);
+      if (filter.signature !== undefined && !isBase58(filter.signature, SIGNATURE_BYTES)) {
+        issues.add(`${path}.signature`, 'must be a base58 transaction signature');
+      }
+    });
+  });
+
+  issues.filterMap(request, 'blocks', (filter, path) => {
+    issues.pubkeys(filter.accountInclude, `${path}.accountInclude`);
+    issues.optionalBoolean(filter.includeTransactions, `${path}.includeTransactions`);
+    issues.optionalBoolean(filter.includeAccounts, `${path}.includeAccounts`);
+    issues.optionalBoolean(filter.includeEntries, `${path}.includeEntries`);
+  });
+
+  issues.filterMap(request, 'blocksMeta', () => {});
+  issues.filterMap(request, 'entry', () => {});
+
+  if (request.commitment !== undefined && toWireCommitment(request.commitment) === undefined) {
+    issues.add('commitment', `must be one of ${Object.values(CommitmentLevel).join(', ')} (or 0-2), got ${JSON.stringify(request.commitment)}`);
+  }
+
+  if (request.accountsDataSlice !== undefined) {
+    if (!Array.isArray(request.accountsDataSlice)) {
+      issues.add('accountsDataSlice', 'must be an array');
+    } else {
+      if (limits.maxDataSlices !== undefined && request.accountsDataSlice.length > limits.maxDataSlices) {
+        issues.add('accountsDataSlice', `has ${request.accountsDataSlice.length} slices, the limit is ${limits.maxDataSlices}`);
+      }
+      request.accountsDataSlice.forEach((slice: unknown, index: number) => {
+        const path = `accountsDataSlice[${index}]`;
+        if (!isObject(slice)) {
+          issues.add(path, 'must be an object');
+          return;
+        }
+        issues.u64(slice.offset, `${path}.offset`);
+        issues.u64(slice.length, `${path}.length`);
+      });
+    }
+  }
+
+  if (request.fromSlot !== undefined) {
+    issues.u64(request.fromSlot, 'fromSlot');
+  }
+
+  issues.throwIfAny();
+}
+
+/**
+ * Convert a commitment name or enum number to Yellowstone's enum number
+ *
+ * @returns undefined for unknown commitments
+ */
+export function toWireCommitment(commitment: unknown): number | undefined {
+  if (typeof commitment === 'number') {
+    return Number.isInteger(commitment) && commitment >= 0 && commitment <= 2 ? commitment : undefined;
+  }
+  if (typeof commitment === 'string') {
+    const name = commitment.toLowerCase();
+    return Object.values(CommitmentLevel).includes(name as CommitmentLevel) ? WIRE_COMMITMENT[name as CommitmentLevel] : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Prepare a request for the wire: commitment names become enum numbers
+ *
+ * Yellowstone's encoder writes the commitment as an int32, which turns a
+ * name into 0 (processed) rather than rejecting it.
+ */
+export function toWireRequest<T extends { commitment?: unknown }>(request: T): T {
+  if (typeof request.commitment !== 'string') {
+    return request;
+  }
+  const commitment = toWireCommitment(request.commitment);
+  return commitment === undefined ? request : { ...request, commitment };
+}
+
+/**
+ * Problems found while validating one request
+ */
+class Issues {
+  private found: string[] = [];
+
+  constructor(private readonly limits: SubscriptionLimits) {}
+
+  /**
+   * Record a problem at a path in the request
+   */
+  add(path: string, problem: string): void {
+    this.found.push(`${path} ${problem}`);
+  }
+
+  /**
+   * Check a named filter map and run a check on each filter
+   */
+  filterMap(request: Record<string, any>, field: string, check: (filter: Record<string, any>, path: string) => void): void {
+    const filters = request[field];
+    if (filters === undefined) return;
+    if (!isObject(filters)) {
+      this.add(field, 'must be an object of named filters');
+      return;
+    }
+
+    const names = Object.keys(filters);
+    if (this.limits.maxFilters !== undefined && names.length > this.limits.maxFilters) {
+      this.add(field, `has ${names.length} filters, the limit is ${this.limits.maxFilters}`);
+    }
+
+    names.forEach(name => {
+      const path = `${field}.${name}`;
+      if (name.startsWith(INTERNAL_FILTER_PREFIX)) {
+        this.add(path, `filter names starting with "${INTERNAL_FILTER_PREFIX}" are reserved for the pool`);
+      }
+
+      const filter = filters[name];
+      if (!isObject(filter)) {
+        this.add(path, 'must be an object');
+        return;
+      }
+      check(filter, path);
+    });
+  }
+
+  /**
+   * Check an optional list of base58 pubkeys
+   */
+  pubkeys(value: unknown, path: string): void {
+    if (value === undefined) return;
+    if (!Array.isArray(value)) {
+      this.add(path, 'must be an array of base58 pubkeys');
+      return;
+    }
+
+    if (this.limits.maxAccountsPerFilter !== undefined && value.length > this.limits.maxAccountsPerFilter) {
+      this.add(path, `has ${value.length} pubkeys, the limit is ${this.limits.maxAccountsPerFilter}`);
+    }
+    value.forEach((pubkey, index) => {
+      if (!isBase58(pubkey, PUBKEY_BYTES)) {
+        this.add(`${path}[${index}]`, `is not a base58 pubkey: ${JSON.stringify(pubkey)}`);
+      }
+    });
+  }
+
+  /**
+   * Check one account data condition
+   */
+  accountCondition(condition: unknown, path: string): void {
+    if (!isObject(condition)) {
+      this.add(path, 'must be an object');
+      return;
+    }
+
+    const kinds = ['memcmp', 'datasize', 'tokenAccountState', 'lamports'].filter(kind => condition[kind] !== undefined);
+    if (kinds.length !== 1) {
+      this.add(path, 'must set exactly one of memcmp, datasize, tokenAccountState or lamports');
+      return;
+    }
+
+    if (condition.datasize !== undefined) {
+      this.u64(condition.datasize, `${path}.datasize`);
+    }
+
+    if (condition.tokenAccountState !== undefined && condition.tokenAccountState !== true) {
+      this.add(`${path}.tokenAccountState`, 'must be true');
+    }
+
+    if (condition.lamports !== undefined) {
+      const lamports = condition.lamports;
+      const comparisons = isObject(lamports) ? ['eq', 'ne', 'lt', 'gt'].filter(op => lamports[op] !== undefined) : [];
+      if (comparisons.length !== 1) {
+        this.add(`${path}.lamports`, 'must set exactly one of eq, ne, lt or gt');
+      } else {
+        const op = comparisons[0] as string;
+        this.u64((lamports as Record<string, unknown>)[op], `${path}.lamports.${op}`);
+      }
+    }
+
+    if (condition.memcmp !== undefined) {
+      this.memcmp(condition.memcmp, `${path}.memcmp`);
+    }
+  }
+
+  /**
+   * Check a memcmp condition and the size of its data
+   */
+  private memcmp(memcmp: unknown, path: string): void {
+    if (!isObject(memcmp)) {
+      this.add(path, 'must be an object');
+      return;
+    }
+
+    this.u64(memcmp.offset, `${path}.offset`);
+
+    const encodings = ['bytes', 'base58', 'base64'].filter(encoding => memcmp[encoding] !== undefined);
+    if (encodings.length !== 1) {
+      this.add(path, 'must set exactly one of bytes, base58 or base64');
+      return;
+    }
+
+    let size: number | null = null;
+    if (memcmp.bytes !== undefined) {
+      size = memcmp.bytes instanceof Uint8Array ? memcmp.bytes.length : null;
+    } else if (memcmp.base58 !== undefined) {
+      size = typeof memcmp.base58 === 'string' ? decodeBase58(memcmp.base58)?.length ?? null : null;
+    } else if (typeof memcmp.base64 === 'string' && /^[A-Za-z0-9+/]*={0,2}$/.test(memcmp.base64)) {
+      size = Buffer.from(memcmp.base64, 'base64').length;
+    }
+
+    if (size === null) {
+      this.add(`${path}.${encodings[0]}`, `is not valid ${encodings[0]} data`);
+    } else if (size > MAX_MEMCMP_BYTES) {
+      this.add(`${path}.${encodings[0]}`, `is ${size} bytes, Yellowstone allows at most ${MAX_MEMCMP_BYTES}`);
+    }
+  }
+
+  /**
+   * Check a u64 value: a decimal string, or a non-negative safe integer
+   */
+  u64(value: unknown, path: string): void {
+    const valid = typeof value === 'number'
+      ? Number.isSafeInteger(value) && value >= 0
+      : typeof value === 'string' && /^\d+$/.test(value) && BigInt(value) <= MAX_U64;
+    if (!valid) {
+      this.add(path, `must be an unsigned 64-bit integer, got ${JSON.stringify(value)}`);
+    }
+  }
+
+  /**
+   * Check an optional boolean flag
+   */
+  optionalBoolean(value: unknown, path: string): void {
+    if (value !== undefined && typeof value !== 'boolean') {
+      this.add(path, 'must be a boolean');
+    }
+  }
+
+  /**
+   * Throw if any problem was found
+   */
+  throwIfAny(): void {
+    if (this.found.length > 0) {
+      throw new SubscriptionValidationError(this.found);
+    }
+  }
+}
+
+/**
+ * Check that a value is base58 decoding to the expected number of bytes
+ */
+function isBase58(value: unknown, bytes: number): boolean {
+  return typeof value === 'string' && decodeBase58(value)?.length === bytes;
+}
+
+/**
+ * Decode base58, returning null for invalid input
+ */
+function decodeBase58(value: string): Uint8Array | null {
+  try {
+    return bs58.decode(value);
+  } catch (error) {
+    return null;
+  }
+}
+
+/**
+ * Check for a plain object (not null or an array)
+ */
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { readSnapshotFile, writeSnapshotFile, SNAPSHOT_VERSION } from './snapshot';
+import { DeduplicationService } from './deduplication';
+import { DeduplicationSnapshot } from '../types';
+
+describe('snapshot files', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(join(tmpdir(), 'grpc-pool-snapshot-'));
+    path = join(dir, 'dedup.json');
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('writes a snapshot that reads back unchanged, leaving no temporary file', async () => {
+    const snapshot: DeduplicationSnapshot = {
+      version: SNAPSHOT_VERSION,
+      createdAt: 1_000,
+      entries: [['a2V5LTE=', 61_000], ['a2V5LTI=', 62_000]]
+    };
+
+    await writeSnapshotFile(path, snapshot);
+
+    expect(await readSnapshotFile(path)).toEqual(snapshot);
+    expect(await fs.readdir(dir)).toEqual(['dedup.json']);
+  });
+
+  it('replaces an existing snapshot', async () => {
+    await writeSnapshotFile(path, { version: SNAPSHOT_VERSION, createdAt: 1, entries: [['b2xk', 10]] });
+    await writeSnapshotFile(path, { version: SNAPSHOT_VERSION, createdAt: 2, entries: [] });
+
+    expect(await readSnapshotFile(path)).toEqual({ version: SNAPSHOT_VERSION, createdAt: 2, entries: [] });
+  });
+
+  it('reads a missing file as no snapshot', async () => {
+    expect(await readSnapshotFile(join(dir, 'missing.json'))).toBeNull();
+  });
+
+  it('rejects corrupt files and unknown versions', async () => {
+    await fs.writeFile(path, '{"version":1,"entries":[', 'utf8');
+    await expect(readSnapshotFile(path)).rejects.toThrow(SyntaxError);
+
+    await fs.writeFile(path, JSON.stringify({ version: 99, createdAt: 0, entries: [] }), 'utf8');
+    await expect(readSnapshotFile(path)).rejects.toThrow(`Unsupported deduplication snapshot in ${path} (version 99)`);
+  });
+
+  it('fails to write into a missing directory without leaving a temporary file behind', async () => {
+    const target = join(dir, 'missing', 'dedup.json');
+    await expect(writeSnapshotFile(target, { version: SNAPSHOT_VERSION, createdAt: 0, entries: [] })).rejects.toThrow();
+    expect(await fs.readdir(dir)).toEqual([]);
+  });
+
+  it('round-trips a deduplication cache, dropping keys that expired while it was on disk', async () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1_000_000);
+    const before = new DeduplicationService({ deduplicationTtlMs: 60_000 });
+    before.checkAndSet('short', 1_000);
+    before.checkAndSet('long');
+    await writeSnapshotFile(path, before.snapshot());
+    before.destroy();
+
+    // Restarted two seconds later: 'short' expired on disk, 'long' is still live
+    now.mockReturnValue(1_002_000);
+    const restored = new DeduplicationService({ deduplicationTtlMs: 60_000 });
+    restored.restore((await readSnapshotFile(path))!);
+
+    expect(restored.getStats().size).toBe(1);
+    expect(restored.checkAndSet('long')).toBe(true);
+    expect(restored.checkAndSet('short')).toBe(false);
+    restored.destroy();
+  });
+});
@@ -0,0 +1,64 @@
+/**
+ * lib/snapshot.ts - Deduplication snapshot files
+ *
+ * Reads and writes deduplication snapshots as versioned JSON so a restarted
+ * pool can suppress updates it already emitted within the TTL. Writes go to a
+ * temporary file that is renamed into place, so a crash mid-write never
+ * leaves a truncated snapshot behind.
+ *
+ * @module lib/snapshot
+ * @author StalkChain Team
+ * @version 1.1.2
+ */
+
+import { promises as fs } from 'fs';
+import { DeduplicationSnapshot } from '../types';
+
+/**
+ * Snapshot format version written by this release
+ */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Write a snapshot to disk atomically
+ *
+ * @param path - Destination file
+ * @param snapshot - Snapshot from a deduplication store
+ */
+export async function writeSnapshotFile(path: string, snapshot: DeduplicationSnapshot): Promise<void> {
+  const tempPath = `${path}.${process.pid}.tmp`;
+
+  try {
+    await fs.writeFile(tempPath, JSON.stringify(snapshot), 'utf8');
+    await fs.rename(tempPath, path);
+  } catch (error) {
+    await fs.unlink(tempPath).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Read a snapshot from disk
+ *
+ * @param path - Snapshot file
+ * @returns The snapshot, or null if the file does not exist
+ * @throws Error if the file is not a snapshot this release can read
+ */
+export async function readSnapshotFile(path: string): Promise<DeduplicationSnapshot | null> {
+  let contents: string;
+  try {
+    contents = await fs.readFile(path, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+
+  const snapshot = JSON.parse(contents) as Partial<DeduplicationSnapshot>;
+  if (snapshot.version !== SNAPSHOT_VERSION || !Array.isArray(snapshot.entries)) {
+    throw new Error(`Unsupported deduplication snapshot in ${path} (version ${snapshot.version})`);
+  }
+
+  return snapshot as DeduplicationSnapshot;
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { TransactionStatusTracker } from './status-tracker';
+import { CommitmentLevel, SlotStatus } from '../constants';
+
+describe('TransactionStatusTracker', () => {
+  let tracker: TransactionStatusTracker;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(1_000_000);
+    tracker = new TransactionStatusTracker({ transactionStatusTtlMs: 10_000 });
+  });
+
+  afterEach(() => {
+    tracker.destroy();
+    jest.useRealTimers();
+  });
+
+  it('moves a signature forward through confirmed and finalized', () => {
+    expect(tracker.track('sig', 100, CommitmentLevel.PROCESSED)).toEqual([
+      { signature: 'sig', slot: 100, status: 'processed' }
+    ]);
+    expect(tracker.updateSlot(100, SlotStatus.CONFIRMED)).toEqual([
+      { signature: 'sig', slot: 100, status: 'confirmed', previousStatus: 'processed' }
+    ]);
+    expect(tracker.updateSlot(100, SlotStatus.FINALIZED)).toEqual([
+      { signature: 'sig', slot: 100, status: 'finalized', previousStatus: 'confirmed' }
+    ]);
+    expect(tracker.getStats()).toEqual({ tracked: 1, pendingSlots: 0, lastFinalizedSlot: 100 });
+  });
+
+  it('never moves a signature backwards or repeats a transition', () => {
+    tracker.track('sig', 100, CommitmentLevel.PROCESSED);
+    tracker.updateSlot(100, SlotStatus.CONFIRMED);
+
+    expect(tracker.updateSlot(100, SlotStatus.PROCESSED)).toEqual([]);
+    expect(tracker.updateSlot(100, SlotStatus.CONFIRMED)).toEqual([]);
+    expect(tracker.track('sig', 100, CommitmentLevel.PROCESSED)).toEqual([]);
+  });
+
+  it('catches up with a slot that progressed before the signature was seen', () => {
+    tracker.updateSlot(100, SlotStatus.CONFIRMED);
+
+    expect(tracker.track('sig', 100, CommitmentLevel.PROCESSED, { InstructionError: [0, 'Custom'] })).toEqual([
+      { signature: 'sig', slot: 100, status: 'processed', err: { InstructionError: [0, 'Custom'] } },
+      { signature: 'sig', slot: 100, status: 'confirmed', previousStatus: 'processed', err: { InstructionError: [0, 'Custom'] } }
+    ]);
+  });
+
+  it('drops signatures in dead slots', () => {
+    tracker.track('sig', 100, CommitmentLevel.PROCESSED);
+
+    expect(tracker.updateSlot(100, SlotStatus.DEAD)).toEqual([
+      { signature: 'sig', slot: 100, status: 'dropped', previousStatus: 'processed', reason: 'dead' }
+    ]);
+    expect(tracker.track('late', 100, CommitmentLevel.PROCESSED)).toEqual([
+      { signature: 'late', slot: 100, status: 'processed' },
+      { signature: 'late', slot: 100, status: 'dropped', previousStatus: 'processed', reason: 'dead' }
+    ]);
+  });
+
+  it('drops signatures in earlier slots skipped by finalization', () => {
+    tracker.track('orphan', 100, CommitmentLevel.PROCESSED);
+    tracker.track('kept', 101, CommitmentLevel.PROCESSED);
+
+    expect(tracker.updateSlot(101, SlotStatus.FINALIZED)).toEqual([
+      { signature: 'kept', slot: 101, status: 'finalized', previousStatus: 'processed' },
+      { signature: 'orphan', slot: 100, status: 'dropped', previousStatus: 'processed', reason: 'orphaned' }
+    ]);
+  });
+
+  it('ignores slot statuses that are not commitment levels', () => {
+    tracker.track('sig', 100, CommitmentLevel.PROCESSED);
+    expect(tracker.updateSlot(100, SlotStatus.COMPLETED)).toEqual([]);
+  });
+
+  it('forgets signatures once their TTL passed, oldest first', () => {
+    tracker.track('old', 100, CommitmentLevel.PROCESSED);
+    jest.advanceTimersByTime(5_000);
+    tracker.track('new', 101, CommitmentLevel.PROCESSED);
+
+    jest.advanceTimersByTime(6_000);
+    expect(tracker.getStats()).toMatchObject({ tracked: 1, pendingSlots: 1 });
+
+    // An expired signature starts a fresh lifecycle when reported again
+    expect(tracker.track('old', 100, CommitmentLevel.CONFIRMED)).toEqual([
+      { signature: 'old', slot: 100, status: 'confirmed' }
+    ]);
+
+    jest.advanceTimersByTime(5_000);
+    expect(tracker.getStats()).toMatchObject({ tracked: 1, pendingSlots: 1 });
+
+    jest.advanceTimersByTime(6_000);
+    expect(tracker.getStats()).toMatchObject({ tracked: 0, pendingSlots: 0 });
+  });
+
+  it('keeps terminal signatures until their TTL so late reports do not restart them', () => {
+    tracker.track('sig', 100, CommitmentLevel.PROCESSED);
+    tracker.updateSlot(100, SlotStatus.FINALIZED);
+
+    jest.advanceTimersByTime(9_000);
+    expect(tracker.track('sig', 100, CommitmentLevel.PROCESSED)).toEqual([]);
+  });
+});
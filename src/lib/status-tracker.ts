@@ -0,0 +1,333 @@
+/**
+ * lib/status-tracker.ts - Transaction commitment lifecycle tracking
+ *
+ * Correlates signatures with slot status updates so each transaction can be
+ * followed from processed to confirmed to finalized, or reported as dropped
+ * when its slot dies or is orphaned by finalization of a different fork.
+ *
+ * @module lib/status-tracker
+ * @author StalkChain Team
+ * @version 1.1.2
+ */
+
+import { CommitmentLevel, SlotStatus, DEFAULT_CONFIG } from '../constants';
+import { TransactionLifecycleStatus, TransactionStatusEvent } from '../types';
+
+/**
+ * Status change produced by the tracker, before the pool adds source/timestamp
+ */
+export type StatusTransition = Omit<TransactionStatusEvent, 'source' | 'timestamp'>;
+
+/**
+ * Tracked signature state
+ */
+interface TrackedSignature {
+  slot: number;
+  status: TransactionLifecycleStatus;
+  err?: unknown;
+  firstSeen: number;
+}
+
+/**
+ * Ordering of commitment levels, used to only ever move a signature forward
+ */
+const COMMITMENT_RANK: Record<CommitmentLevel, number> = {
+  [CommitmentLevel.PROCESSED]: 0,
+  [CommitmentLevel.CONFIRMED]: 1,
+  [CommitmentLevel.FINALIZED]: 2
+};
+
+/**
+ * Tracks signatures per slot and turns slot status updates into transitions
+ *
+ * Terminal signatures (finalized or dropped) are kept until their TTL so a
+ * late report from another endpoint does not restart their lifecycle.
+ *
+ * Signatures are also queued in first-seen order, so expiry stops at the
+ * first signature still within its TTL instead of scanning every one.
+ */
+export class TransactionStatusTracker {
+  private signatures: Map<string, TrackedSignature> = new Map();
+  private queueSignatures: string[] = []; // Signatures in first-seen order, from queueHead on
+  private queueFirstSeen: number[] = [];  // firstSeen of each queued signature when it was queued
+  private queueHead: number = 0;
+  private pendingBySlot: Map<number, Set<string>> = new Map();
+  private slotStatuses: Map<number, CommitmentLevel> = new Map();
+  private deadSlots: Set<number> = new Set();
+  private lastFinalizedSlot: number = 0;
+  private cleanupInterval: NodeJS.Timeout | null = null;
+  private config: {
+    ttlMs: number;
+  };
+
+  constructor(options?: { transactionStatusTtlMs?: number }) {
+    this.config = {
+      ttlMs: options?.transactionStatusTtlMs ?? DEFAULT_CONFIG.TRANSACTION_STATUS_TTL_MS
+    };
+
+    this.startCleanupInterval();
+  }
+
+  /**
+   * Start tracking a signature the first time any endpoint reports it
+   *
+   * @param signature - Base58 transaction signature
+   * @param slot - Slot the transaction landed in
+   * @param commitment - Commitment level the report was streamed at
+   * @param err - Transaction error, if any
+   * @returns Initial transition, or empty if the signature is already tracked
+   */
+  track(signature: string, slot: number, commitment: CommitmentLevel, err?: unknown): StatusTransition[] {
+    if (this.signatures.has(signature)) {
+      return [];
+    }
+
+    const entry: TrackedSignature = {
+      slot,
+      status: commitment,
+      firstSeen: Date.now()
+    };
+    if (err) entry.err = err;
+    this.signatures.set(signature, entry);
+    this.queueSignatures.push(signature);
+    this.queueFirstSeen.push(entry.firstSeen);
+
+    const transition: StatusTransition = { signature, slot, status: commitment };
+    if (err) transition.err = err;
+
+    // The slot may already have died or progressed before the transaction was seen
+    if (this.deadSlots.has(slot)) {
+      return [transition, ...this.drop(signature, entry, 'dead')];
+    }
+
+    const transitions = [transition];
+    const slotStatus = this.slotStatuses.get(slot);
+    if (slotStatus && COMMITMENT_RANK[slotStatus] > COMMITMENT_RANK[commitment]) {
+      transitions.push(...this.advance(signature, entry, slotStatus));
+    }
+
+    if (entry.status !== CommitmentLevel.FINALIZED && entry.status !== 'dropped') {
+      this.addPending(slot, signature);
+    }
+
+    return transitions;
+  }
+
+  /**
+   * Apply a slot status update to every pending signature in that slot
+   *
+   * @param slot - Slot number
+   * @param status - New status of the slot
+   * @returns Transitions caused by this update
+   */
+  updateSlot(slot: number, status: SlotStatus): StatusTransition[] {
+    if (status === SlotStatus.DEAD) {
+      this.deadSlots.add(slot);
+      return this.dropSlot(slot, 'dead');
+    }
+
+    const commitment = toCommitment(status);
+    if (!commitment) {
+      return [];
+    }
+
+    const previous = this.slotStatuses.get(slot);
+    if (previous && COMMITMENT_RANK[previous] >= COMMITMENT_RANK[commitment]) {
+      return [];
+    }
+    this.slotStatuses.set(slot, commitment);
+
+    const transitions: StatusTransition[] = [];
+    for (const signature of this.pendingBySlot.get(slot) ?? []) {
+      const entry = this.signatures.get(signature);
+      if (entry) {
+        transitions.push(...this.advance(signature, entry, commitment));
+      }
+    }
+
+    if (commitment === CommitmentLevel.FINALIZED) {
+      this.pendingBySlot.delete(slot);
+      this.lastFinalizedSlot = Math.max(this.lastFinalizedSlot, slot);
+
+      // Any earlier slot that never finalized was skipped by the finalized fork
+      for (const pendingSlot of Array.from(this.pendingBySlot.keys())) {
+        if (pendingSlot < slot && this.slotStatuses.get(pendingSlot) !== CommitmentLevel.FINALIZED) {
+          transitions.push(...this.dropSlot(pendingSlot, 'orphaned'));
+        }
+      }
+    }
+
+    return transitions;
+  }
+
+  /**
+   * Move a signature forward to a higher commitment level
+   */
+  private advance(signature: string, entry: TrackedSignature, commitment: CommitmentLevel): StatusTransition[] {
+    if (entry.status === 'dropped' || COMMITMENT_RANK[entry.status] >= COMMITMENT_RANK[commitment]) {
+      return [];
+    }
+
+    const transition: StatusTransition = {
+      signature,
+      slot: entry.slot,
+      status: commitment,
+      previousStatus: entry.status
+    };
+    if (entry.err) transition.err = entry.err;
+
+    entry.status = commitment;
+    return [transition];
+  }
+
+  /**
+   * Mark a signature as dropped
+   */
+  private drop(signature: string, entry: TrackedSignature, reason: 'dead' | 'orphaned'): StatusTransition[] {
+    if (entry.status === 'dropped' || entry.status === CommitmentLevel.FINALIZED) {
+      return [];
+    }
+
+    const transition: StatusTransition = {
+      signature,
+      slot: entry.slot,
+      status: 'dropped',
+      previousStatus: entry.status,
+      reason
+    };
+    if (entry.err) transition.err = entry.err;
+
+    entry.status = 'dropped';
+    return [transition];
+  }
+
+  /**
+   * Drop every pending signature in a slot
+   */
+  private dropSlot(slot: number, reason: 'dead' | 'orphaned'): StatusTransition[] {
+    const transitions: StatusTransition[] = [];
+    for (const signature of this.pendingBySlot.get(slot) ?? []) {
+      const entry = this.signatures.get(signature);
+      if (entry) {
+        transitions.push(...this.drop(signature, entry, reason));
+      }
+    }
+    this.pendingBySlot.delete(slot);
+    return transitions;
+  }
+
+  /**
+   * Index a signature under its slot until the slot reaches a terminal state
+   */
+  private addPending(slot: number, signature: string): void {
+    let pending = this.pendingBySlot.get(slot);
+    if (!pending) {
+      pending = new Set();
+      this.pendingBySlot.set(slot, pending);
+    }
+    pending.add(signature);
+  }
+
+  /**
+   * Start automatic cleanup interval to forget old signatures and slots
+   */
+  private startCleanupInterval(): void {
+    // Clean up every 1 second, same cadence as deduplication
+    this.cleanupInterval = setInterval(() => {
+      this.cleanupExpiredEntries();
+    }, 1000);
+  }
+
+  /**
+   * Remove signatures past their TTL and slot statuses far behind finalization
+   *
+   * Signatures share one TTL, so expiry walks the first-seen queue and stops
+   * at the first signature still within it.
+   */
+  private cleanupExpiredEntries(): void {
+    const now = Date.now();
+
+    while (this.queueHead < this.queueSignatures.length) {
+      const signature = this.queueSignatures[this.queueHead] as string;
+      const firstSeen = this.queueFirstSeen[this.queueHead] as number;
+      if (now - firstSeen <= this.config.ttlMs) break;
+      this.advanceQueue();
+
+      // Stale slots (signature since expired and tracked again) leave the live entry alone
+      const entry = this.signatures.get(signature);
+      if (entry && entry.firstSeen === firstSeen) {
+        this.signatures.delete(signature);
+        const pending = this.pendingBySlot.get(entry.slot);
+        if (pending) {
+          pending.delete(signature);
+          if (pending.size === 0) this.pendingBySlot.delete(entry.slot);
+        }
+      }
+    }
+
+    const oldestSlot = this.lastFinalizedSlot - DEFAULT_CONFIG.SLOT_STATUS_RETENTION;
+    for (const slot of this.slotStatuses.keys()) {
+      if (slot < oldestSlot) this.slotStatuses.delete(slot);
+    }
+    for (const slot of this.deadSlots) {
+      if (slot < oldestSlot) this.deadSlots.delete(slot);
+    }
+  }
+
+  /**
+   * Consume the front queue slot, dropping consumed slots once they make up most of the queue
+   */
+  private advanceQueue(): void {
+    this.queueHead++;
+
+    if (this.queueHead >= 1024 && this.queueHead * 2 >= this.queueSignatures.length) {
+      this.queueSignatures.splice(0, this.queueHead);
+      this.queueFirstSeen.splice(0, this.queueHead);
+      this.queueHead = 0;
+    }
+  }
+
+  /**
+   * Get current tracker statistics for monitoring
+   */
+  getStats(): { tracked: number; pendingSlots: number; lastFinalizedSlot: number } {
+    return {
+      tracked: this.signatures.size,
+      pendingSlots: this.pendingBySlot.size,
+      lastFinalizedSlot: this.lastFinalizedSlot
+    };
+  }
+
+  /**
+   * Clear all state and stop cleanup interval
+   */
+  destroy(): void {
+    if (this.cleanupInterval) {
+      clearInterval(this.cleanupInterval);
+      this.cleanupInterval = null;
+    }
+    this.signatures.clear();
+    this.queueSignatures = [];
+    this.queueFirstSeen = [];
+    this.queueHead = 0;
+    this.pendingBySlot.clear();
+    this.slotStatuses.clear();
+    this.deadSlots.clear();
+  }
+}
+
+/**
+ * Map a slot status to the commitment level it represents, if any
+ */
+function toCommitment(status: SlotStatus): CommitmentLevel | undefined {
+  switch (status) {
+    case SlotStatus.PROCESSED:
+      return CommitmentLevel.PROCESSED;
+    case SlotStatus.CONFIRMED:
+      return CommitmentLevel.CONFIRMED;
+    case SlotStatus.FINALIZED:
+      return CommitmentLevel.FINALIZED;
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,545 @@
+/**
+ * lib/subscription-builder.ts - Fluent subscription request builder
+ *
+ * Builds a typed Yellowstone SubscribeRequest one named filter at a time:
+ *
+ *   SubscriptionBuilder.transactions('okx')
+ *     .include(OKX_DEX_PROGRAM)
+ *     .excludeVotes()
+ *     .commitment(CommitmentLevel.CONFIRMED)
+ *     .build();
+ *
+ * Starting a filter returns a builder with the options for that kind of
+ * filter; request-wide settings and further filters can be chained from
+ * any of them. build() validates the request before returning it.
+ *
+ * @module lib/subscription-builder
+ * @author StalkChain Team
+ * @version 1.1.2
+ */
+
+import {
+  SubscribeRequest,
+  SubscriptionCommitment,
+  SubscriptionLimits,
+  AccountFilter,
+  SlotFilter,
+  TransactionFilter,
+  BlockFilter,
+  BlockMetaFilter,
+  EntryFilter,
+  LamportsFilter
+} from '../types';
+import { validateSubscribeRequest } from './request';
+
+/**
+ * A u64 value; converted to the decimal string Yellowstone expects
+ */
+export type U64Input = number | bigint | string;
+
+/**
+ * Filter type of each request field holding named filters
+ */
+interface FilterTypes {
+  accounts: AccountFilter;
+  slots: SlotFilter;
+  transactions: TransactionFilter;
+  transactionsStatus: TransactionFilter;
+  blocks: BlockFilter;
+  blocksMeta: BlockMetaFilter;
+  entry: EntryFilter;
+}
+
+/**
+ * Request fields holding named filters
+ */
+type FilterField = keyof FilterTypes;
+
+/**
+ * The named filter maps of a request
+ */
+type FilterMaps = { [K in FilterField]?: Record<string, FilterTypes[K]> };
+
+/**
+ * Builds a SubscribeRequest from named filters
+ */
+export class SubscriptionBuilder {
+  private request: SubscribeRequest = {};
+
+  /**
+   * Start an empty request
+   */
+  static create(): SubscriptionBuilder {
+    return new SubscriptionBuilder();
+  }
+
+  /**
+   * Start a request with a transaction filter
+   */
+  static transactions(name: string): TransactionFilterBuilder {
+    return new SubscriptionBuilder().transactions(name);
+  }
+
+  /**
+   * Start a request with a transaction status filter
+   */
+  static transactionsStatus(name: string): TransactionFilterBuilder {
+    return new SubscriptionBuilder().transactionsStatus(name);
+  }
+
+  /**
+   * Start a request with an account filter
+   */
+  static accounts(name: string): AccountFilterBuilder {
+    return new SubscriptionBuilder().accounts(name);
+  }
+
+  /**
+   * Start a request with a slot filter
+   */
+  static slots(name: string): SlotFilterBuilder {
+    return new SubscriptionBuilder().slots(name);
+  }
+
+  /**
+   * Start a request with a block filter
+   */
+  static blocks(name: string): BlockFilterBuilder {
+    return new SubscriptionBuilder().blocks(name);
+  }
+
+  /**
+   * Start a request with a block meta filter
+   */
+  static blocksMeta(name: string): BlockMetaFilterBuilder {
+    return new SubscriptionBuilder().blocksMeta(name);
+  }
+
+  /**
+   * Add a transaction filter, or continue one with the same name
+   */
+  transactions(name: string): TransactionFilterBuilder {
+    return new TransactionFilterBuilder(this, this.filter('transactions', name));
+  }
+
+  /**
+   * Add a transaction status filter, or continue one with the same name
+   */
+  transactionsStatus(name: string): TransactionFilterBuilder {
+    return new TransactionFilterBuilder(this, this.filter('transactionsStatus', name));
+  }
+
+  /**
+   * Add an account filter, or continue one with the same name
+   */
+  accounts(name: string): AccountFilterBuilder {
+    return new AccountFilterBuilder(this, this.filter('accounts', name));
+  }
+
+  /**
+   * Add a slot filter, or continue one with the same name
+   */
+  slots(name: string): SlotFilterBuilder {
+    return new SlotFilterBuilder(this, this.filter('slots', name));
+  }
+
+  /**
+   * Add a block filter, or continue one with the same name
+   */
+  blocks(name: string): BlockFilterBuilder {
+    return new BlockFilterBuilder(this, this.filter('blocks', name));
+  }
+
+  /**
+   * Add a block meta filter
+   */
+  blocksMeta(name: string): BlockMetaFilterBuilder {
+    return new BlockMetaFilterBuilder(this, this.filter('blocksMeta', name));
+  }
+
+  /**
+   * Add an entry filter
+   */
+  entry(name: string): EntryFilterBuilder {
+    return new EntryFilterBuilder(this, this.filter('entry', name));
+  }
+
+  /**
+   * Set the commitment level of the whole request
+   */
+  commitment(level: SubscriptionCommitment): this {
+    this.request.commitment = level;
+    return this;
+  }
+
+  /**
+   * Stream only part of each account's data; may be called several times
+   */
+  dataSlice(offset: U64Input, length: U64Input): this {
+    this.request.accountsDataSlice = [
+      ...(this.request.accountsDataSlice ?? []),
+      { offset: String(offset), length: String(length) }
+    ];
+    return this;
+  }
+
+  /**
+   * Ask the provider to replay from a slot, if it still has it
+   */
+  fromSlot(slot: U64Input): this {
+    this.request.fromSlot = String(slot);
+    return this;
+  }
+
+  /**
+   * Validate and return the request
+   *
+   * @param limits - Provider filter limits to check against
+   * @throws SubscriptionValidationError listing every problem found
+   */
+  build(limits?: SubscriptionLimits): SubscribeRequest {
+    const request = copyRequest(this.request);
+    validateSubscribeRequest(request, limits);
+    return request;
+  }
+
+  /**
+   * Get or create a named filter
+   */
+  private filter<K extends FilterField>(field: K, name: string): FilterTypes[K] {
+    // Narrowing through FilterMaps lets TypeScript relate the map it reads to the one it writes
+    const maps: FilterMaps = this.request;
+    const request: { [P in K]?: Record<string, FilterTypes[P]> } = maps;
+    const filters: Record<string, FilterTypes[K]> = request[field] ?? {};
+    request[field] = filters;
+
+    let filter = filters[name];
+    if (!filter) {
+      filter = {} as FilterTypes[K];
+      filters[name] = filter;
+    }
+    return filter;
+  }
+}
+
+/**
+ * Options shared by every filter builder: request-wide settings and further filters
+ */
+abstract class FilterBuilder<F> {
+  constructor(protected readonly root: SubscriptionBuilder, protected readonly filterRef: F) {}
+
+  /**
+   * Add a transaction filter, or continue one with the same name
+   */
+  transactions(name: string): TransactionFilterBuilder {
+    return this.root.transactions(name);
+  }
+
+  /**
+   * Add a transaction status filter, or continue one with the same name
+   */
+  transactionsStatus(name: string): TransactionFilterBuilder {
+    return this.root.transactionsStatus(name);
+  }
+
+  /**
+   * Add an account filter, or continue one with the same name
+   */
+  accounts(name: string): AccountFilterBuilder {
+    return this.root.accounts(name);
+  }
+
+  /**
+   * Add a slot filter, or continue one with the same name
+   */
+  slots(name: string): SlotFilterBuilder {
+    return this.root.slots(name);
+  }
+
+  /**
+   * Add a block filter, or continue one with the same name
+   */
+  blocks(name: string): BlockFilterBuilder {
+    return this.root.blocks(name);
+  }
+
+  /**
+   * Add a block meta filter
+   */
+  blocksMeta(name: string): BlockMetaFilterBuilder {
+    return this.root.blocksMeta(name);
+  }
+
+  /**
+   * Add an entry filter
+   */
+  entry(name: string): EntryFilterBuilder {
+    return this.root.entry(name);
+  }
+
+  /**
+   * Set the commitment level of the whole request
+   */
+  commitment(level: SubscriptionCommitment): this {
+    this.root.commitment(level);
+    return this;
+  }
+
+  /**
+   * Stream only part of each account's data; may be called several times
+   */
+  dataSlice(offset: U64Input, length: U64Input): this {
+    this.root.dataSlice(offset, length);
+    return this;
+  }
+
+  /**
+   * Ask the provider to replay from a slot, if it still has it
+   */
+  fromSlot(slot: U64Input): this {
+    this.root.fromSlot(slot);
+    return this;
+  }
+
+  /**
+   * Validate and return the request
+   *
+   * @throws SubscriptionValidationError listing every problem found
+   */
+  build(limits?: SubscriptionLimits): SubscribeRequest {
+    return this.root.build(limits);
+  }
+}
+
+/**
+ * Options of a transaction (or transaction status) filter
+ */
+export class TransactionFilterBuilder extends FilterBuilder<TransactionFilter> {
+  /**
+   * Match transactions involving any of these accounts
+   */
+  include(...pubkeys: string[]): this {
+    this.filterRef.accountInclude = [...(this.filterRef.accountInclude ?? []), ...pubkeys];
+    return this;
+  }
+
+  /**
+   * Skip transactions involving any of these accounts
+   */
+  exclude(...pubkeys: string[]): this {
+    this.filterRef.accountExclude = [...(this.filterRef.accountExclude ?? []), ...pubkeys];
+    return this;
+  }
+
+  /**
+   * Only match transactions involving all of these accounts
+   */
+  require(...pubkeys: string[]): this {
+    this.filterRef.accountRequired = [...(this.filterRef.accountRequired ?? []), ...pubkeys];
+    return this;
+  }
+
+  /**
+   * Match a single transaction by signature
+   */
+  signature(signature: string): this {
+    this.filterRef.signature = signature;
+    return this;
+  }
+
+  /**
+   * Skip vote transactions
+   */
+  excludeVotes(): this {
+    this.filterRef.vote = false;
+    return this;
+  }
+
+  /**
+   * Only match vote transactions
+   */
+  onlyVotes(): this {
+    this.filterRef.vote = true;
+    return this;
+  }
+
+  /**
+   * Skip failed transactions
+   */
+  excludeFailed(): this {
+    this.filterRef.failed = false;
+    return this;
+  }
+
+  /**
+   * Only match failed transactions
+   */
+  onlyFailed(): this {
+    this.filterRef.failed = true;
+    return this;
+  }
+}
+
+/**
+ * Options of an account filter
+ */
+export class AccountFilterBuilder extends FilterBuilder<AccountFilter> {
+  /**
+   * Match these accounts
+   */
+  account(...pubkeys: string[]): this {
+    this.filterRef.account = [...(this.filterRef.account ?? []), ...pubkeys];
+    return this;
+  }
+
+  /**
+   * Match accounts owned by these programs
+   */
+  owner(...pubkeys: string[]): this {
+    this.filterRef.owner = [...(this.filterRef.owner ?? []), ...pubkeys];
+    return this;
+  }
+
+  /**
+   * Only match accounts whose data at `offset` equals `data`
+   *
+   * @param data - Raw bytes, or a string in `encoding`
+   * @param encoding - How a string is encoded (default: 'base58')
+   */
+  memcmp(offset: U64Input, data: Uint8Array | string, encoding: 'base58' | 'base64' = 'base58'): this {
+    const memcmp = typeof data === 'string'
+      ? { offset: String(offset), [encoding]: data }
+      : { offset: String(offset), bytes: data };
+    return this.condition({ memcmp });
+  }
+
+  /**
+   * Only match accounts with exactly this much data
+   */
+  dataSize(bytes: U64Input): this {
+    return this.condition({ datasize: String(bytes) });
+  }
+
+  /**
+   * Only match valid SPL token accounts
+   */
+  tokenAccountState(): this {
+    return this.condition({ tokenAccountState: true });
+  }
+
+  /**
+   * Only match accounts whose lamports compare to `value`
+   */
+  lamports(comparison: keyof LamportsFilter, value: U64Input): this {
+    return this.condition({ lamports: { [comparison]: String(value) } });
+  }
+
+  /**
+   * Only match updates caused by a transaction
+   */
+  nonemptyTxnSignature(): this {
+    this.filterRef.nonemptyTxnSignature = true;
+    return this;
+  }
+
+  /**
+   * Add a data condition; all conditions must match
+   */
+  private condition(condition: NonNullable<AccountFilter['filters']>[number]): this {
+    this.filterRef.filters = [...(this.filterRef.filters ?? []), condition];
+    return this;
+  }
+}
+
+/**
+ * Options of a slot filter
+ */
+export class SlotFilterBuilder extends FilterBuilder<SlotFilter> {
+  /**
+   * Only stream slot updates at the request's commitment
+   */
+  filterByCommitment(enabled: boolean = true): this {
+    this.filterRef.filterByCommitment = enabled;
+    return this;
+  }
+
+  /**
+   * Also stream intermediate slot statuses
+   */
+  interslotUpdates(enabled: boolean = true): this {
+    this.filterRef.interslotUpdates = enabled;
+    return this;
+  }
+}
+
+/**
+ * Options of a block filter
+ */
+export class BlockFilterBuilder extends FilterBuilder<BlockFilter> {
+  /**
+   * Only include transactions and accounts touching these accounts
+   */
+  include(...pubkeys: string[]): this {
+    this.filterRef.accountInclude = [...(this.filterRef.accountInclude ?? []), ...pubkeys];
+    return this;
+  }
+
+  /**
+   * Include the block's transactions
+   */
+  includeTransactions(enabled: boolean = true): this {
+    this.filterRef.includeTransactions = enabled;
+    return this;
+  }
+
+  /**
+   * Include account updates made in the block
+   */
+  includeAccounts(enabled: boolean = true): this {
+    this.filterRef.includeAccounts = enabled;
+    return this;
+  }
+
+  /**
+   * Include the block's entries
+   */
+  includeEntries(enabled: boolean = true): this {
+    this.filterRef.includeEntries = enabled;
+    return this;
+  }
+}
+
+/**
+ * Block meta filter; it has no options of its own
+ */
+export class BlockMetaFilterBuilder extends FilterBuilder<BlockMetaFilter> {}
+
+/**
+ * Entry filter; it has no options of its own
+ */
+export class EntryFilterBuilder extends FilterBuilder<EntryFilter> {}
+
+/**
+ * Copy a request so later builder calls do not change one already built
+ *
+ * Builders replace lists rather than appending in place, so copying the
+ * filter maps and filters is enough.
+ */
+function copyRequest(request: SubscribeRequest): SubscribeRequest {
+  const copy: SubscribeRequest = { ...request };
+  if (request.accounts) copy.accounts = copyFilters(request.accounts);
+  if (request.slots) copy.slots = copyFilters(request.slots);
+  if (request.transactions) copy.transactions = copyFilters(request.transactions);
+  if (request.transactionsStatus) copy.transactionsStatus = copyFilters(request.transactionsStatus);
+  if (request.blocks) copy.blocks = copyFilters(request.blocks);
+  if (request.blocksMeta) copy.blocksMeta = copyFilters(request.blocksMeta);
+  if (request.entry) copy.entry = copyFilters(request.entry);
+  return copy;
+}
+
+/**
+ * Copy a filter map and each filter in it
+ */
+function copyFilters<F extends object>(filters: Record<string, F>): Record<string, F> {
+  return Object.fromEntries(Object.entries(filters).map(([name, filter]) => [name, { ...filter }]));
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from '@jest/globals';
+import { SubscriptionRegistry } from './subscriptions';
+import { PoolEndpoint } from '../types';
+
+const plain: PoolEndpoint = { endpoint: 'https://a.example', token: '' };
+const premium: PoolEndpoint = { endpoint: 'https://b.example', token: '', tags: ['premium'] };
+
+describe('SubscriptionRegistry', () => {
+  it('keeps base filter names and prefixes named ones', () => {
+    const registry = new SubscriptionRegistry();
+    registry.setBase({ transactions: { all: { vote: false } }, slots: { slots: {} } });
+    registry.add('whales', { transactions: { big: { accountInclude: ['W'] } }, accounts: { vaults: { owner: ['V'] } } });
+
+    const request = registry.build(plain);
+    expect(request.transactions).toEqual({ all: { vote: false }, 'whales::big': { accountInclude: ['W'] } });
+    expect(request.slots).toEqual({ slots: {} });
+    expect(request.accounts).toEqual({ 'whales::vaults': { owner: ['V'] } });
+    expect(request.blocks).toEqual({});
+  });
+
+  it('does not modify the registered requests', () => {
+    const registry = new SubscriptionRegistry();
+    const base = { transactions: { all: {} } };
+    registry.setBase(base);
+    registry.add('named', { transactions: { mine: {} } });
+
+    registry.build(plain);
+    expect(base).toEqual({ transactions: { all: {} } });
+  });
+
+  it('sends tagged subscriptions only to endpoints sharing a tag', () => {
+    const registry = new SubscriptionRegistry();
+    registry.setBase({ transactions: { all: {} } }, { tags: ['premium'] });
+    registry.add('everywhere', { transactions: { a: {} } }, { tags: [] });
+    registry.add('premium', { transactions: { b: {} } }, { tags: ['premium', 'other'] });
+
+    expect(Object.keys(registry.build(plain).transactions)).toEqual(['everywhere::a']);
+    expect(Object.keys(registry.build(premium).transactions)).toEqual(['all', 'everywhere::a', 'premium::b']);
+  });
+
+  it('adds each distinct data slice once', () => {
+    const registry = new SubscriptionRegistry();
+    registry.setBase({ accountsDataSlice: [{ offset: '0', length: '32' }] });
+    registry.add('one', { accountsDataSlice: [{ offset: '0', length: '32' }, { offset: '32', length: '8' }] });
+    registry.add('two', { accountsDataSlice: [{ offset: '32', length: '8' }] });
+
+    expect(registry.build(plain).accountsDataSlice).toEqual([
+      { offset: '0', length: '32' },
+      { offset: '32', length: '8' }
+    ]);
+  });
+
+  it('applies the shared commitment and rejects conflicting ones', () => {
+    const registry = new SubscriptionRegistry();
+    registry.add('confirmed', { commitment: 1 });
+    registry.add('unset', {});
+    expect(registry.getCommitment()).toBe(1);
+    expect(registry.build(plain).commitment).toBe(1);
+
+    expect(() => registry.add('finalized', { commitment: 2 })).toThrow('conflicts with existing commitment "1"');
+    expect(() => registry.setBase({ commitment: 2 })).toThrow('conflicts');
+
+    // Replacing the only subscription that set it may change it
+    registry.add('confirmed', { commitment: 2 });
+    expect(registry.getCommitment()).toBe(2);
+  });
+
+  it('accepts the name and the enum number of the same commitment', () => {
+    const registry = new SubscriptionRegistry();
+    registry.setBase({ commitment: 'confirmed' });
+
+    expect(() => registry.add('numeric', { commitment: 1 })).not.toThrow();
+    expect(() => registry.add('finalized', { commitment: 'finalized' })).toThrow('conflicts with existing commitment "confirmed"');
+  });
+
+  it('rejects empty names and names containing the separator', () => {
+    const registry = new SubscriptionRegistry();
+    expect(() => registry.add('', {})).toThrow('Invalid subscription name');
+    expect(() => registry.add('a::b', {})).toThrow('Invalid subscription name');
+  });
+
+  it('maps filter names back to registered named subscriptions', () => {
+    const registry = new SubscriptionRegistry();
+    registry.add('whales', { transactions: { big: {} } });
+    registry.add('bots', { transactions: { fast: {} } });
+
+    expect(registry.namesForFilters(['whales::big', 'all', 'whales::other', 'bots::fast'])).toEqual(['whales', 'bots']);
+    expect(registry.namesForFilters(['removed::x', '::x', 'all'])).toEqual([]);
+    expect(registry.namesForFilters(undefined)).toEqual([]);
+
+    registry.remove('bots');
+    expect(registry.namesForFilters(['bots::fast'])).toEqual([]);
+  });
+
+  it('tracks whether anything is subscribed', () => {
+    const registry = new SubscriptionRegistry();
+    expect(registry.isEmpty()).toBe(true);
+
+    registry.add('named', {});
+    expect(registry.getNames()).toEqual(['named']);
+    expect(registry.isEmpty()).toBe(false);
+
+    registry.clear();
+    expect(registry.isEmpty()).toBe(true);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * lib/subscriptions.ts - Named subscription registry
+ *
+ * Keeps the pool's base subscription together with any number of named
+ * subscriptions and merges them into the single Yellowstone request each
+ * stream can carry. Named filters are namespaced so updates can be traced
+ * back to the subscriptions that asked for them.
+ *
+ * @module lib/subscriptions
+ * @author StalkChain Team
+ * @version 1.1.2
+ */
+
+import { AccountsDataSlice, PoolEndpoint, SubscribeOptions, SubscribeRequest, SubscriptionCommitment } from '../types';
+import { toWireCommitment } from './request';
+
+/**
+ * Separator between a subscription name and its filter name in merged requests
+ */
+export const SUBSCRIPTION_FILTER_SEPARATOR = '::';
+
+/**
+ * Request fields holding named filter maps that are merged key by key
+ */
+const FILTER_MAP_FIELDS = [
+  'accounts',
+  'slots',
+  'transactions',
+  'transactionsStatus',
+  'blocks',
+  'blocksMeta',
+  'entry'
+] as const;
+
+type FilterMapField = typeof FILTER_MAP_FIELDS[number];
+
+/**
+ * Merged request, with every filter map and the data slices present
+ */
+type MergedRequest = SubscribeRequest & Required<Pick<SubscribeRequest, FilterMapField | 'accountsDataSlice'>>;
+
+/**
+ * Registered subscription with its endpoint targeting
+ */
+interface RegisteredSubscription {
+  request: SubscribeRequest;
+  tags: string[] | null;
+}
+
+/**
+ * Registry merging the base subscription and named subscriptions
+ *
+ * The base subscription (from `subscribe()`) keeps its filter names as-is for
+ * backwards compatibility. Named subscriptions have their filter names
+ * prefixed with `<name>::`.
+ */
+export class SubscriptionRegistry {
+  private base: RegisteredSubscription | null = null;
+  private named: Map<string, RegisteredSubscription> = new Map();
+
+  /**
+   * Replace the base subscription
+   */
+  setBase(request: SubscribeRequest, options: SubscribeOptions = {}): void {
+    this.assertCompatibleCommitment(request, null);
+    this.base = { request, tags: normalizeTags(options.tags) };
+  }
+
+  /**
+   * Add or replace a named subscription
+   *
+   * @throws Error if the name is invalid or its commitment conflicts with other subscriptions
+   */
+  add(name: string, request: SubscribeRequest, options: SubscribeOptions = {}): void {
+    if (!name || name.includes(SUBSCRIPTION_FILTER_SEPARATOR)) {
+      throw new Error(`Invalid subscription name "${name}": must be non-empty and not contain "${SUBSCRIPTION_FILTER_SEPARATOR}"`);
+    }
+
+    this.assertCompatibleCommitment(request, name);
+    this.named.set(name, { request, tags: normalizeTags(options.tags) });
+  }
+
+  /**
+   * Remove a named subscription
+   *
+   * @returns true if a subscription was removed
+   */
+  remove(name: string): boolean {
+    return this.named.delete(name);
+  }
+
+  /**
+   * Names of all registered named subscriptions
+   */
+  getNames(): string[] {
+    return Array.from(this.named.keys());
+  }
+
+  /**
+   * Whether anything has been subscribed to at all
+   */
+  isEmpty(): boolean {
+    return !this.base && this.named.size === 0;
+  }
+
+  /**
+   * Commitment shared by all subscriptions, if any declared one
+   */
+  getCommitment(): SubscriptionCommitment | undefined {
+    if (this.base?.request.commitment !== undefined) {
+      return this.base.request.commitment;
+    }
+
+    for (const subscription of this.named.values()) {
+      if (subscription.request.commitment !== undefined) {
+        return subscription.request.commitment;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Merge every subscription targeting an endpoint into one request
+   */
+  build(endpoint: PoolEndpoint): MergedRequest {
+    const base = this.base && targets(this.base, endpoint) ? this.base.request : {};
+
+    // Base request passes through untouched apart from the merged fields below
+    const merged: MergedRequest = {
+      ...base,
+      accounts: { ...base.accounts },
+      slots: { ...base.slots },
+      transactions: { ...base.transactions },
+      transactionsStatus: { ...base.transactionsStatus },
+      blocks: { ...base.blocks },
+      blocksMeta: { ...base.blocksMeta },
+      entry: { ...base.entry },
+      accountsDataSlice: [...(base.accountsDataSlice ?? [])]
+    };
+
+    for (const [name, subscription] of this.named.entries()) {
+      if (!targets(subscription, endpoint)) continue;
+
+      const prefix = `${name}${SUBSCRIPTION_FILTER_SEPARATOR}`;
+      FILTER_MAP_FIELDS.forEach(field => copyFilters(merged, subscription.request, field, prefix));
+
+      // Data slices apply to the whole stream, so only add each distinct slice once
+      (subscription.request.accountsDataSlice ?? []).forEach((slice: AccountsDataSlice) => {
+        const exists = merged.accountsDataSlice.some(existing =>
+          existing.offset === slice.offset && existing.length === slice.length
+        );
+        if (!exists) merged.accountsDataSlice.push(slice);
+      });
+    }
+
+    const commitment = this.getCommitment();
+    if (commitment !== undefined) {
+      merged.commitment = commitment;
+    }
+
+    return merged;
+  }
+
+  /**
+   * Names of the subscriptions whose filters an update matched
+   *
+   * Only covers the filters of the endpoint that delivered the update. With
+   * per-endpoint targeting, a subscription that matched only on another
+   * endpoint is missing when that endpoint's copy arrives later as a duplicate.
+   *
+   * @param filters - Filter names reported on the update
+   */
+  namesForFilters(filters: string[] | undefined): string[] {
+    if (!filters) return [];
+
+    const names = new Set<string>();
+    filters.forEach(filter => {
+      const separatorIndex = filter.indexOf(SUBSCRIPTION_FILTER_SEPARATOR);
+      if (separatorIndex > 0) {
+        const name = filter.substring(0, separatorIndex);
+        if (this.named.has(name)) names.add(name);
+      }
+    });
+
+    return Array.from(names);
+  }
+
+  /**
+   * Clear all subscriptions
+   */
+  clear(): void {
+    this.base = null;
+    this.named.clear();
+  }
+
+  /**
+   * Ensure a request's commitment does not conflict with the other subscriptions
+   *
+   * A stream has a single commitment, so all subscriptions must agree on it.
+   * Names and enum numbers of the same level agree.
+   */
+  private assertCompatibleCommitment(request: SubscribeRequest, name: string | null): void {
+    const commitment = request.commitment;
+    if (commitment === undefined) return;
+
+    const others: RegisteredSubscription[] = [];
+    if (name !== null && this.base) others.push(this.base);
+    for (const [otherName, subscription] of this.named.entries()) {
+      if (otherName !== name) others.push(subscription);
+    }
+
+    const conflict = others.find(other =>
+      other.request.commitment !== undefined && toWireCommitment(other.request.commitment) !== toWireCommitment(commitment)
+    );
+    if (conflict) {
+      throw new Error(
+        `Subscription commitment "${commitment}" conflicts with existing commitment "${conflict.request.commitment}"`
+      );
+    }
+  }
+}
+
+/**
+ * Copy one filter map of a named subscription into a merged request, prefixing each filter name
+ */
+function copyFilters<F extends FilterMapField>(merged: MergedRequest, request: SubscribeRequest, field: F, prefix: string): void {
+  const target: Record<string, unknown> = merged[field];
+  Object.entries(request[field] ?? {}).forEach(([key, filter]) => {
+    target[`${prefix}${key}`] = filter;
+  });
+}
+
+/**
+ * Treat an empty tag list the same as no targeting
+ */
+function normalizeTags(tags: string[] | undefined): string[] | null {
+  return tags && tags.length > 0 ? tags : null;
+}
+
+/**
+ * Check whether a subscription targets an endpoint
+ */
+function targets(subscription: RegisteredSubscription, endpoint: PoolEndpoint): boolean {
+  const tags = subscription.tags;
+  return !tags || (endpoint.tags ?? []).some(tag => tags.includes(tag));
+}
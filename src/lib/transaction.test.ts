@@ -0,0 +1,168 @@
+import { describe, it, expect } from '@jest/globals';
+import bs58 from 'bs58';
+import { decodeTransaction } from './transaction';
+import { FullTransactionData } from '../types';
+
+/**
+ * Distinct 32-byte address filled with one byte value
+ */
+const key = (fill: number): Buffer => Buffer.alloc(32, fill);
+const pubkey = (fill: number): string => bs58.encode(key(fill));
+
+function tokenBalance(accountIndex: number, amount: string, owner: number = 21, mint: number = 20) {
+  return { accountIndex, mint: pubkey(mint), owner: pubkey(owner), programId: pubkey(22), uiTokenAmount: { amount, decimals: 6 } };
+}
+
+/**
+ * Versioned transaction with five static keys and two loaded from a lookup table
+ */
+function update(overrides: { message?: Record<string, unknown>; meta?: Record<string, unknown> } = {}): FullTransactionData {
+  return {
+    slot: 250000000,
+    transaction: {
+      signature: Buffer.alloc(64, 9),
+      transaction: {
+        message: {
+          versioned: true,
+          header: { numRequiredSignatures: 2, numReadonlySignedAccounts: 1, numReadonlyUnsignedAccounts: 2 },
+          accountKeys: [key(0), key(1), key(2), key(3), key(4)],
+          recentBlockhash: key(8),
+          instructions: [
+            { programIdIndex: 4, accounts: new Uint8Array([0, 5, 6]), data: new Uint8Array([1, 2, 3]) },
+            { programIdIndex: 3, accounts: new Uint8Array([]), data: new Uint8Array([]) }
+          ],
+          ...overrides.message
+        }
+      },
+      meta: {
+        err: null,
+        fee: '5000',
+        computeUnitsConsumed: '1234',
+        logMessages: ['Program log: hello'],
+        loadedWritableAddresses: [key(5)],
+        loadedReadonlyAddresses: [key(6)],
+        innerInstructions: [{
+          index: 0,
+          instructions: [
+            { programIdIndex: 3, accounts: new Uint8Array([2]), data: new Uint8Array([4]), stackHeight: 3 },
+            { programIdIndex: 3, accounts: new Uint8Array([0]), data: new Uint8Array([5]) }
+          ]
+        }],
+        preBalances: ['1000', '5', '0', '1', '1', '0', '0'],
+        postBalances: ['900', '5', '100', '1', '1', '0', '0'],
+        preTokenBalances: [tokenBalance(5, '10'), tokenBalance(2, '3')],
+        postTokenBalances: [tokenBalance(5, '4'), tokenBalance(6, '7')],
+        ...overrides.meta
+      }
+    }
+  };
+}
+
+describe('decodeTransaction', () => {
+  it('orders account keys as static, loaded writable, then loaded readonly with header flags', () => {
+    expect(decodeTransaction(update())?.accountKeys).toEqual([
+      { pubkey: pubkey(0), signer: true, writable: true, source: 'static' },
+      { pubkey: pubkey(1), signer: true, writable: false, source: 'static' },
+      { pubkey: pubkey(2), signer: false, writable: true, source: 'static' },
+      { pubkey: pubkey(3), signer: false, writable: false, source: 'static' },
+      { pubkey: pubkey(4), signer: false, writable: false, source: 'static' },
+      { pubkey: pubkey(5), signer: false, writable: true, source: 'lookup' },
+      { pubkey: pubkey(6), signer: false, writable: false, source: 'lookup' }
+    ]);
+  });
+
+  it('resolves instruction accounts, including lookup table addresses, and nests inner instructions', () => {
+    const [first, second] = decodeTransaction(update())?.instructions ?? [];
+
+    expect(first).toMatchObject({
+      programId: pubkey(4),
+      accounts: [pubkey(0), pubkey(5), pubkey(6)],
+      data: Buffer.from([1, 2, 3]),
+      stackHeight: 1
+    });
+    expect(first?.innerInstructions).toEqual([
+      { programId: pubkey(3), accounts: [pubkey(2)], data: Buffer.from([4]), stackHeight: 3, innerInstructions: [] },
+      { programId: pubkey(3), accounts: [pubkey(0)], data: Buffer.from([5]), stackHeight: 2, innerInstructions: [] }
+    ]);
+    expect(second).toMatchObject({ programId: pubkey(3), accounts: [], innerInstructions: [] });
+  });
+
+  it('lists only balances that changed, as decimal strings', () => {
+    const decoded = decodeTransaction(update());
+
+    expect(decoded?.solBalanceChanges).toEqual([
+      { account: pubkey(0), pre: '1000', post: '900', change: '-100' },
+      { account: pubkey(2), pre: '0', post: '100', change: '100' }
+    ]);
+    // One owner's closed, drained and opened token accounts of one mint, summed
+    expect(decoded?.tokenBalanceChanges).toEqual([{
+      owner: pubkey(21),
+      mint: pubkey(20),
+      accounts: [pubkey(2), pubkey(5), pubkey(6)],
+      programId: pubkey(22),
+      decimals: 6,
+      pre: '13',
+      post: '11',
+      change: '-2'
+    }]);
+  });
+
+  it('sums token balances per owner and mint', () => {
+    const decoded = decodeTransaction(update({
+      meta: {
+        // Owner 21 swaps mint 20 for mint 23 with owner 24, and moves mint 20 between its own accounts
+        preTokenBalances: [tokenBalance(0, '100'), tokenBalance(2, '0'), tokenBalance(5, '0', 24), tokenBalance(6, '50', 24, 23)],
+        postTokenBalances: [tokenBalance(0, '20'), tokenBalance(2, '60'), tokenBalance(5, '20', 24), tokenBalance(6, '0', 24, 23), tokenBalance(3, '50', 21, 23)]
+      }
+    }));
+
+    expect(decoded?.tokenBalanceChanges.map(({ owner, mint, accounts, change }) => ({ owner, mint, accounts, change }))).toEqual([
+      { owner: pubkey(21), mint: pubkey(20), accounts: [pubkey(0), pubkey(2)], change: '-20' },
+      { owner: pubkey(21), mint: pubkey(23), accounts: [pubkey(3)], change: '50' },
+      { owner: pubkey(24), mint: pubkey(20), accounts: [pubkey(5)], change: '20' },
+      { owner: pubkey(24), mint: pubkey(23), accounts: [pubkey(6)], change: '-50' }
+    ]);
+  });
+
+  it('omits owners whose token movements net out', () => {
+    const decoded = decodeTransaction(update({
+      meta: {
+        preTokenBalances: [tokenBalance(2, '10'), tokenBalance(5, '0')],
+        postTokenBalances: [tokenBalance(2, '0'), tokenBalance(5, '10')]
+      }
+    }));
+
+    expect(decoded?.tokenBalanceChanges).toEqual([]);
+  });
+
+  it('decodes the transaction summary fields', () => {
+    expect(decodeTransaction(update())).toMatchObject({
+      signature: bs58.encode(Buffer.alloc(64, 9)),
+      slot: 250000000,
+      version: 0,
+      success: true,
+      fee: '5000',
+      computeUnitsConsumed: 1234,
+      recentBlockhash: pubkey(8),
+      logMessages: ['Program log: hello']
+    });
+
+    expect(decodeTransaction(update({
+      message: { versioned: false },
+      meta: { err: { err: Buffer.from([1]) }, computeUnitsConsumed: undefined }
+    }))).toMatchObject({ version: 'legacy', success: false, computeUnitsConsumed: null });
+  });
+
+  it('returns null without a message or meta', () => {
+    expect(decodeTransaction({ slot: 1 })).toBeNull();
+    expect(decodeTransaction({ transaction: { transaction: { message: {} } } })).toBeNull();
+  });
+
+  it('throws on an account index outside the account keys', () => {
+    const broken = update({
+      message: { instructions: [{ programIdIndex: 4, accounts: new Uint8Array([7]), data: new Uint8Array([]) }] }
+    });
+
+    expect(() => decodeTransaction(broken)).toThrow('Account index 7 is out of range (7 account keys)');
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * lib/transaction.ts - Normalized transaction view
+ *
+ * Turns a raw Yellowstone transaction update (Buffers, account indexes and
+ * u64 strings) into a DecodedTransaction: base58 account keys with their
+ * signer/writable flags, including addresses loaded from lookup tables,
+ * instructions with their inner instructions, SOL balance changes, token
+ * balance changes per owner and mint, log messages and compute units.
+ *
+ * @module lib/transaction
+ * @author StalkChain Team
+ * @version 1.1.2
+ */
+
+import bs58 from 'bs58';
+import type { SubscribeUpdateTransactionInfo } from '@triton-one/yellowstone-grpc';
+import {
+  FullTransactionData,
+  DecodedTransaction,
+  DecodedInstruction,
+  TransactionAccountKey,
+  SolBalanceChange,
+  TokenBalanceChange
+} from '../types';
+
+/**
+ * Transaction message as generated from Yellowstone's protobuf
+ */
+type Message = NonNullable<NonNullable<SubscribeUpdateTransactionInfo['transaction']>['message']>;
+
+/**
+ * Transaction status meta as generated from Yellowstone's protobuf
+ */
+type TransactionStatusMeta = NonNullable<SubscribeUpdateTransactionInfo['meta']>;
+
+/**
+ * Instruction as sent by Yellowstone, accounts given as indexes into the account keys
+ */
+interface RawInstruction {
+  programIdIndex: number;
+  accounts?: Uint8Array;
+  data?: Uint8Array;
+  stackHeight?: number;
+}
+
+/**
+ * Token balance as sent by Yellowstone
+ */
+interface RawTokenBalance {
+  accountIndex: number;
+  mint?: string;
+  owner?: string;
+  programId?: string;
+  uiTokenAmount?: { amount?: string; decimals?: number };
+}
+
+/**
+ * Decode a transaction update into a normalized view
+ *
+ * Returns null for updates without a transaction message or meta.
+ *
+ * @throws Error when an instruction or balance refers to an account index
+ *   outside the transaction's account keys
+ */
+export function decodeTransaction(update: FullTransactionData): DecodedTransaction | null {
+  const info = update.transaction;
+  const message = info?.transaction?.message;
+  const meta = info?.meta;
+  if (!info || !message || !meta) return null;
+
+  const accountKeys = decodeAccountKeys(message, meta);
+  const pubkeys = accountKeys.map(key => key.pubkey);
+
+  // Inner instructions are grouped by the index of the top-level instruction that made them
+  const innerByIndex = new Map<number, RawInstruction[]>();
+  for (const group of (meta.innerInstructions ?? []) as { index: number; instructions?: RawInstruction[] }[]) {
+    innerByIndex.set(group.index, group.instructions ?? []);
+  }
+
+  const instructions = ((message.instructions ?? []) as RawInstruction[]).map((instruction, index) => {
+    const decoded = decodeInstruction(instruction, pubkeys, 1);
+    decoded.innerInstructions = (innerByIndex.get(index) ?? []).map(inner =>
+      decodeInstruction(inner, pubkeys, inner.stackHeight ?? 2)
+    );
+    return decoded;
+  });
+
+  const computeUnits = meta.computeUnitsConsumed;
+
+  return {
+    signature: info.signature ? bs58.encode(info.signature) : '',
+    slot: Number(update.slot ?? 0),
+    version: message.versioned ? 0 : 'legacy',
+    success: !meta.err,
+    fee: String(meta.fee ?? '0'),
+    computeUnitsConsumed: computeUnits !== undefined && computeUnits !== null ? Number(computeUnits) : null,
+    recentBlockhash: message.recentBlockhash ? bs58.encode(message.recentBlockhash) : '',
+    accountKeys,
+    instructions,
+    logMessages: meta.logMessages ?? [],
+    solBalanceChanges: decodeSolBalanceChanges(meta.preBalances ?? [], meta.postBalances ?? [], pubkeys),
+    tokenBalanceChanges: decodeTokenBalanceChanges(meta.preTokenBalances ?? [], meta.postTokenBalances ?? [], pubkeys)
+  };
+}
+
+/**
+ * Resolve the full account key list in Solana's index order
+ *
+ * Static keys come first, signers before non-signers and writable before
+ * readonly within each group as described by the message header, followed by
+ * the writable and then the readonly addresses loaded from lookup tables.
+ */
+function decodeAccountKeys(message: Message, meta: TransactionStatusMeta): TransactionAccountKey[] {
+  const staticKeys = message.accountKeys ?? [];
+  const numSigners = message.header?.numRequiredSignatures ?? 0;
+  const numReadonlySigned = message.header?.numReadonlySignedAccounts ?? 0;
+  const numReadonlyUnsigned = message.header?.numReadonlyUnsignedAccounts ?? 0;
+
+  const keys: TransactionAccountKey[] = staticKeys.map((key, index) => {
+    const signer = index < numSigners;
+    const writable = signer
+      ? index < numSigners - numReadonlySigned
+      : index < staticKeys.length - numReadonlyUnsigned;
+    return { pubkey: bs58.encode(key), signer, writable, source: 'static' };
+  });
+
+  for (const address of meta.loadedWritableAddresses ?? []) {
+    keys.push({ pubkey: bs58.encode(address), signer: false, writable: true, source: 'lookup' });
+  }
+  for (const address of meta.loadedReadonlyAddresses ?? []) {
+    keys.push({ pubkey: bs58.encode(address), signer: false, writable: false, source: 'lookup' });
+  }
+
+  return keys;
+}
+
+/**
+ * Resolve an instruction's program and account indexes to pubkeys
+ */
+function decodeInstruction(instruction: RawInstruction, pubkeys: string[], stackHeight: number): DecodedInstruction {
+  return {
+    programId: resolveKey(pubkeys, instruction.programIdIndex),
+    accounts: Array.from(instruction.accounts ?? [], index => resolveKey(pubkeys, index)),
+    data: toBuffer(instruction.data),
+    stackHeight,
+    innerInstructions: []
+  };
+}
+
+/**
+ * Lamport changes of every account whose balance changed
+ */
+function decodeSolBalanceChanges(pre: string[], post: string[], pubkeys: string[]): SolBalanceChange[] {
+  const changes: SolBalanceChange[] = [];
+
+  for (let index = 0; index < Math.max(pre.length, post.length); index++) {
+    const before = BigInt(pre[index] ?? '0');
+    const after = BigInt(post[index] ?? '0');
+    if (before === after) continue;
+
+    changes.push({
+      account: resolveKey(pubkeys, index),
+      pre: before.toString(),
+      post: after.toString(),
+      change: (after - before).toString()
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Net token balance changes per owner and mint
+ *
+ * Amounts are summed over every token account of the owner in that mint, so
+ * moving tokens between accounts of the same owner nets out and is omitted.
+ * Accounts opened or closed by the transaction only appear on one side and
+ * count as 0 on the other.
+ */
+function decodeTokenBalanceChanges(pre: RawTokenBalance[], post: RawTokenBalance[], pubkeys: string[]): TokenBalanceChange[] {
+  const before = new Map(pre.map(balance => [balance.accountIndex, balance]));
+  const after = new Map(post.map(balance => [balance.accountIndex, balance]));
+  const indexes = [...new Set([...before.keys(), ...after.keys()])].sort((a, b) => a - b);
+
+  // Groups in order of their first token account
+  const groups = new Map<string, { change: TokenBalanceChange; pre: bigint; post: bigint }>();
+
+  for (const index of indexes) {
+    const preBalance = before.get(index);
+    const postBalance = after.get(index);
+    const balance = postBalance ?? preBalance;
+    if (!balance) continue;
+
+    const mint = balance.mint ?? '';
+    const owner = balance.owner ?? '';
+    const key = `${owner}:${mint}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        change: {
+          owner,
+          mint,
+          accounts: [],
+          programId: balance.programId ?? '',
+          decimals: balance.uiTokenAmount?.decimals ?? 0,
+          pre: '0',
+          post: '0',
+          change: '0'
+        },
+        pre: 0n,
+        post: 0n
+      };
+      groups.set(key, group);
+    }
+
+    group.change.accounts.push(resolveKey(pubkeys, index));
+    group.pre += BigInt(preBalance?.uiTokenAmount?.amount || '0');
+    group.post += BigInt(postBalance?.uiTokenAmount?.amount || '0');
+  }
+
+  const changes: TokenBalanceChange[] = [];
+  groups.forEach(({ change, pre: preAmount, post: postAmount }) => {
+    if (preAmount === postAmount) return;
+    changes.push({
+      ...change,
+      pre: preAmount.toString(),
+      post: postAmount.toString(),
+      change: (postAmount - preAmount).toString()
+    });
+  });
+
+  return changes;
+}
+
+/**
+ * Look up an account index, failing loudly on indexes the message does not have
+ */
+function resolveKey(pubkeys: string[], index: number): string {
+  const pubkey = pubkeys[index];
+  if (pubkey === undefined) {
+    throw new Error(`Account index ${index} is out of range (${pubkeys.length} account keys)`);
+  }
+  return pubkey;
+}
+
+/**
+ * Wrap Uint8Array data as a Buffer without copying
+ */
+function toBuffer(data: Uint8Array | undefined): Buffer {
+  if (!data) return Buffer.alloc(0);
+  return Buffer.isBuffer(data) ? data : Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+}
@@ -9,6 +9,11 @@
  * @version 1.1.2
  */
 
+import { CommitmentLevel, SlotStatus } from '../constants';
+import { PoolLogger } from '../lib/logger';
+import { EndpointError } from '../lib/errors';
+import { InstructionDecoderRegistry } from '../lib/instructions';
+
 /**
  * Configuration for a single gRPC endpoint
  */
@@ -16,6 +21,12 @@ export interface PoolEndpoint {
   endpoint: string;
   token: string;
   ping?: boolean;
+  
+  /** Group labels that subscribe() can target, e.g. ['premium'] */
+  tags?: string[];
+  
+  /** Top-level subscription fields that replace the pool request's fields for this endpoint; filter maps are replaced whole, not merged */
+  subscriptionOverrides?: Partial<SubscribeRequest>;
 }
 
 /**
@@ -35,12 +46,66 @@ export interface PoolOptions {
   /** Stale connection timeout in milliseconds (default: 120000) */
   staleTimeoutMs?: number;
   
+  /** How long a ping may go unanswered before the endpoint is reconnected, 0 to disable (default: 20000) */
+  pongTimeoutMs?: number;
+  
+  /** Period endpoint health scores cover in milliseconds (default: 300000) */
+  healthWindowMs?: number;
+  
+  /** Health score (0-100) below which an endpoint is quarantined, 0 to disable quarantine (default: 30) */
+  quarantineThreshold?: number;
+  
+  /** First quarantine period in milliseconds, doubled after each failed probe (default: 60000) */
+  quarantineDurationMs?: number;
+  
+  /** How long a probed endpoint must stay healthy to leave quarantine, in milliseconds (default: 30000) */
+  probeDurationMs?: number;
+  
+  /** Subscribe every stream to one slot update per slot so quiet subscriptions are not mistaken for stale ones (default: true) */
+  slotHeartbeat?: boolean;
+  
+  /** Slots an endpoint may fall behind the pool's most advanced endpoint before it is considered stale, 0 to disable (default: 100) */
+  maxSlotLag?: number;
+  
   /** Deduplication TTL in milliseconds (default: 30000) */
   deduplicationTtlMs?: number;
   
   /** Maximum signatures in deduplication cache (default: 10000) */
   maxCacheSize?: number;
   
+  /** Approximate memory budget for the deduplication cache in bytes; oldest entries are evicted beyond it (default: unlimited) */
+  maxCacheBytes?: number;
+  
+  /** 'exact' remembers every key; 'approximate' uses rotating Bloom filters sized for maxCacheSize keys per TTL (default: 'exact') */
+  deduplicationMode?: DeduplicationMode;
+  
+  /** Target false-positive rate in approximate mode (default: 0.0001) */
+  falsePositiveRate?: number;
+  
+  /** File to persist deduplication state to, restored on connect() and saved on close() (default: none) */
+  deduplicationSnapshotPath?: string;
+  
+  /** Interval between snapshot saves in milliseconds, 0 to only save on close() (default: 30000) */
+  deduplicationSnapshotIntervalMs?: number;
+  
+  /** Ask providers to replay from the pool's last slot (fromSlot) when an endpoint resubscribes after a reconnect (default: false) */
+  replayOnReconnect?: boolean;
+  
+  /** How endpoints share the work: 'active-active', 'primary-backup' or 'quorum' (default: 'active-active') */
+  failoverMode?: FailoverMode;
+  
+  /** primary-backup: how long the active endpoint may stay disconnected before a backup is promoted, in milliseconds (default: 5000) */
+  promotionWindowMs?: number;
+  
+  /** primary-backup: what backups stream while waiting, 'slots' (a light heartbeat) or 'none' (default: 'slots') */
+  backupSubscription?: BackupSubscription;
+  
+  /** quorum: distinct endpoints that must report a transaction before it is emitted (default: a majority of the pool's endpoints, updated as endpoints are added or removed) */
+  quorum?: number;
+  
+  /** quorum: how long the other endpoints have to report a transaction, in milliseconds (default: 10000). Confirmed transactions are remembered for deduplicationTtlMs, so later copies count as duplicates */
+  quorumWindowMs?: number;
+  
   /** Initial retry delay in milliseconds (default: 500) */
   initialRetryDelayMs?: number;
   
@@ -49,31 +114,293 @@ export interface PoolOptions {
   
   /** Retry backoff multiplier (default: 2) */
   retryBackoffFactor?: number;
+  
+  /** How retry delays are randomized so replicas do not reconnect in lockstep (default: 'equal') */
+  retryJitter?: RetryJitter;
+  
+  /** Consecutive failed connection attempts before an endpoint is given up as failed, 0 for unlimited (default: 0) */
+  maxRetryAttempts?: number;
+  
+  /** How long an endpoint may stay down before it is given up as failed, in milliseconds, 0 for unlimited (default: 0) */
+  maxDowntimeMs?: number;
+  
+  /** Attach a normalized `decoded` view (base58 keys, instructions, balance changes) to every TransactionEvent (default: false) */
+  decodeTransactions?: boolean;
+  
+  /** Decoders turning instruction data into ParsedInstructions; enables decodeTransactions unless it is set to false (default: none) */
+  instructionDecoders?: InstructionDecoderRegistry;
+  
+  /** Follow each signature through processed → confirmed → finalized and emit 'transaction-status' (default: false) */
+  trackTransactionStatus?: boolean;
+  
+  /** How long a signature is tracked for status transitions in milliseconds (default: 120000) */
+  transactionStatusTtlMs?: number;
+  
+  /** How long other endpoints have to deliver a signature before it counts as missed, in milliseconds (default: 10000) */
+  latencyWindowMs?: number;
+  
+  /** Interval between 'latency-report' events in milliseconds, 0 to disable (default: 60000) */
+  latencyReportIntervalMs?: number;
+  
+  /** Shared deduplication backend, e.g. RedisDeduplicationStore for several replicas (default: in-process cache) */
+  deduplicationStore?: DeduplicationStore;
+  
+  /** Provider filter limits that subscriptions are validated against before being sent (default: none) */
+  subscriptionLimits?: SubscriptionLimits;
+  
+  /** Structured logger for pool and client messages (default: console at 'info'; use noopLogger to silence) */
+  logger?: PoolLogger;
+}
+
+/**
+ * How the pool uses its endpoints
+ *
+ * - active-active: every endpoint streams the full subscription; first delivery wins (default)
+ * - primary-backup: only the active endpoint streams; backups stay connected and are promoted on failure
+ * - quorum: every endpoint streams; transactions are emitted once `quorum` endpoints reported them
+ */
+export type FailoverMode = 'active-active' | 'primary-backup' | 'quorum';
+
+/**
+ * What backup endpoints stream in primary-backup mode
+ *
+ * - slots: slot updates only, enough for stale detection to notice a dead backup
+ * - none: nothing; backups are only kept alive by pings
+ */
+export type BackupSubscription = 'slots' | 'none';
+
+/**
+ * How retry delays are randomized
+ *
+ * - none: exact exponential backoff
+ * - full: anywhere between 0 and the backoff delay
+ * - equal: half the backoff delay plus up to the other half at random
+ * - decorrelated: between the initial delay and three times the previous delay, capped at maxRetryDelayMs
+ */
+export type RetryJitter = 'none' | 'full' | 'equal' | 'decorrelated';
+
+/**
+ * Built-in deduplication backends
+ *
+ * - exact: in-process cache of every key (default)
+ * - approximate: rotating Bloom filters; much less memory, rare false positives drop unique updates
+ */
+export type DeduplicationMode = 'exact' | 'approximate';
+
+/**
+ * Backend the pool uses to decide whether an update was already emitted
+ *
+ * Keys are opaque strings built by the pool. They may contain any character
+ * code 0-255, so stores outside the process must encode them (see
+ * RedisDeduplicationStore). Return values may be synchronous or a Promise.
+ */
+export interface DeduplicationStore {
+  /**
+   * Record a key if unseen
+   *
+   * @param key - Deduplication key
+   * @param ttlMs - How long the key should be remembered
+   * @returns true if the key was already present (a duplicate), false if it was just set
+   */
+  checkAndSet(key: string, ttlMs: number): boolean | Promise<boolean>;
+
+  /**
+   * Record several keys at once
+   *
+   * @returns One result per key, in order, as checkAndSet() would return
+   */
+  checkAndSetMany(keys: string[], ttlMs: number): boolean[] | Promise<boolean[]>;
+
+  /** Optional statistics reported by pool.getDeduplicationStats() */
+  getStats?(): DeduplicationStats;
+
+  /** Optional export of live keys, used to persist state across restarts */
+  snapshot?(): DeduplicationSnapshot;
+
+  /** Optional import of keys from snapshot(); expired keys are skipped */
+  restore?(snapshot: DeduplicationSnapshot): void;
+
+  /** Optional cleanup, only called on stores the pool created itself */
+  destroy?(): void;
+}
+
+/**
+ * Serializable deduplication state
+ *
+ * Keys are base64 encoded so raw signature bytes survive JSON and disk.
+ */
+export interface DeduplicationSnapshot {
+  version: number;                   // Snapshot format version
+  createdAt: number;                 // When the snapshot was taken (ms since epoch)
+  entries: Array<[string, number]>;  // [base64 key, expiresAt ms since epoch], oldest first
+}
+
+/**
+ * Deduplication cache statistics
+ */
+export interface DeduplicationStats {
+  size: number;      // Keys currently held
+  maxSize: number;   // Capacity
+  ttlMs: number;     // Default key TTL
+  evictions: number; // Keys evicted to make room before their TTL expired
+  estimatedBytes?: number; // Approximate memory held by keys, if the store tracks it
+  maxBytes?: number;       // Byte budget, if one is configured
+  fillRatio?: number;      // Fraction of filter bits set (approximate mode)
+  estimatedFalsePositiveRate?: number; // Current chance a unique key is reported as duplicate (approximate mode)
+}
+
+/**
+ * Options controlling which endpoints a subscription is sent to
+ */
+export interface SubscribeOptions {
+  /** Only send to endpoints carrying at least one of these tags (default: all endpoints) */
+  tags?: string[];
+}
+
+/**
+ * What an output stream does when its buffer reaches the high-water mark
+ *
+ * - block: pause the gRPC streams until the consumer catches up
+ * - drop-oldest: discard the oldest buffered event to make room
+ * - drop-newest: discard the incoming event
+ * - error: destroy the stream with an overflow error
+ */
+export type OverflowPolicy = 'block' | 'drop-oldest' | 'drop-newest' | 'error';
+
+/**
+ * Options for pool.toReadable() and pool.transactions()
+ */
+export interface OutputStreamOptions {
+  /** Maximum number of buffered events before the overflow policy applies (default: 1000) */
+  highWaterMark?: number;
+  
+  /** Overflow behavior when the buffer is full (default: 'block') */
+  overflowPolicy?: OverflowPolicy;
 }
 
 /**
  * Subscription request for Yellowstone gRPC
+ *
+ * Mirrors Yellowstone's SubscribeRequest. Filter maps are keyed by filter
+ * name, u64 values are decimal strings as on the wire, and fields left out
+ * are sent empty. Build one with SubscriptionBuilder to have it validated.
  */
 export interface SubscribeRequest {
   accounts?: Record<string, AccountFilter>;
+  slots?: Record<string, SlotFilter>;
   transactions?: Record<string, TransactionFilter>;
-  commitment?: string;
+  transactionsStatus?: Record<string, TransactionFilter>;
+  blocks?: Record<string, BlockFilter>;
+  blocksMeta?: Record<string, BlockMetaFilter>;
+  entry?: Record<string, EntryFilter>;
+  commitment?: SubscriptionCommitment;
+  accountsDataSlice?: AccountsDataSlice[];
+  fromSlot?: string; // Replay from this slot, if the provider still has it
 }
 
 /**
- * Account filter for program accounts
+ * Commitment of a subscription: a CommitmentLevel name, or Yellowstone's enum number (0-2)
+ */
+export type SubscriptionCommitment = CommitmentLevel | `${CommitmentLevel}` | 0 | 1 | 2;
+
+/**
+ * Account filter; an update must match every field that is set
  */
 export interface AccountFilter {
-  owner?: string[];
+  account?: string[];                 // Account pubkeys (base58)
+  owner?: string[];                   // Owner program pubkeys (base58)
+  filters?: AccountFilterCondition[]; // Data conditions, all must match (at most 4)
+  nonemptyTxnSignature?: boolean;     // Only updates caused by a transaction
 }
 
 /**
- * Transaction filter
+ * Condition on account data; exactly one field is set
+ */
+export interface AccountFilterCondition {
+  memcmp?: MemcmpFilter;
+  datasize?: string;           // Exact data length in bytes
+  tokenAccountState?: boolean; // Only valid SPL token accounts (must be true)
+  lamports?: LamportsFilter;
+}
+
+/**
+ * Account data at an offset must equal the given bytes (at most 128); exactly one encoding is set
+ */
+export interface MemcmpFilter {
+  offset: string;
+  bytes?: Uint8Array;
+  base58?: string;
+  base64?: string;
+}
+
+/**
+ * Comparison on an account's lamports; exactly one field is set
+ */
+export interface LamportsFilter {
+  eq?: string;
+  ne?: string;
+  lt?: string;
+  gt?: string;
+}
+
+/**
+ * Slot filter
+ */
+export interface SlotFilter {
+  filterByCommitment?: boolean; // Only slot updates at the subscription's commitment
+  interslotUpdates?: boolean;   // Also stream intermediate slot statuses
+}
+
+/**
+ * Transaction filter, also used for transactionsStatus
  */
 export interface TransactionFilter {
-  accountInclude?: string[];
-  vote?: boolean;
-  failed?: boolean;
+  vote?: boolean;             // true: only votes, false: no votes, unset: both
+  failed?: boolean;           // true: only failed, false: only successful, unset: both
+  signature?: string;         // A single transaction signature (base58)
+  accountInclude?: string[];  // Any of these accounts is involved
+  accountExclude?: string[];  // None of these accounts is involved
+  accountRequired?: string[]; // All of these accounts are involved
+}
+
+/**
+ * Block filter
+ */
+export interface BlockFilter {
+  accountInclude?: string[];    // Only transactions and accounts touching these
+  includeTransactions?: boolean;
+  includeAccounts?: boolean;
+  includeEntries?: boolean;
+}
+
+/**
+ * Block meta filter (no options)
+ */
+export type BlockMetaFilter = Record<string, never>;
+
+/**
+ * Entry filter (no options)
+ */
+export type EntryFilter = Record<string, never>;
+
+/**
+ * Range of account data to stream instead of the whole account
+ */
+export interface AccountsDataSlice {
+  offset: string;
+  length: string;
+}
+
+/**
+ * Provider filter limits to check subscriptions against before sending them
+ *
+ * Yellowstone servers are configured with their own limits; requests over
+ * them are rejected with INVALID_ARGUMENT. Unset limits are not checked.
+ */
+export interface SubscriptionLimits {
+  maxFilters?: number;           // Filters per kind (e.g. transaction filters)
+  maxAccountsPerFilter?: number; // Pubkeys in each account list of a filter
+  maxDataSlices?: number;        // Entries in accountsDataSlice
 }
 
 /**
@@ -98,6 +425,8 @@ export interface FullTransactionData {
       signatures?: Buffer[];
       message?: any;
     };
+    meta?: any;
+    index?: string;
   };
   slot?: number;
   meta?: any;
@@ -105,12 +434,83 @@ export interface FullTransactionData {
   [key: string]: any; // Allow additional gRPC fields
 }
 
+/**
+ * Full gRPC account update structure
+ */
+export interface FullAccountData {
+  account?: {
+    pubkey?: Buffer;
+    lamports?: string;
+    owner?: Buffer;
+    executable?: boolean;
+    rentEpoch?: string;
+    data?: Buffer;
+    writeVersion?: string;
+    txnSignature?: Buffer;
+  };
+  slot?: string;
+  isStartup?: boolean;
+  [key: string]: any; // Allow additional gRPC fields
+}
+
+/**
+ * Full gRPC transaction status update structure
+ */
+export interface FullTransactionStatusData {
+  slot?: string;
+  signature?: Buffer;
+  isVote?: boolean;
+  index?: string;
+  err?: any;
+  [key: string]: any; // Allow additional gRPC fields
+}
+
+/**
+ * Full gRPC slot update structure
+ */
+export interface FullSlotData {
+  slot?: string;
+  parent?: string;
+  status?: number | string;
+  deadError?: string;
+  [key: string]: any; // Allow additional gRPC fields
+}
+
+/**
+ * Full gRPC block meta update structure
+ */
+export interface FullBlockMetaData {
+  slot?: string;
+  blockhash?: string;
+  parentSlot?: string;
+  parentBlockhash?: string;
+  blockHeight?: { blockHeight?: string };
+  blockTime?: { timestamp?: string };
+  executedTransactionCount?: string;
+  [key: string]: any; // Allow additional gRPC fields
+}
+
+/**
+ * Full gRPC block update structure (block meta plus contents)
+ */
+export interface FullBlockData extends FullBlockMetaData {
+  transactions?: any[];
+  accounts?: any[];
+  entries?: any[];
+}
+
 /**
  * Stream data event
  */
 export interface StreamData {
   transaction?: FullTransactionData;
+  account?: FullAccountData;
+  slot?: FullSlotData;
+  block?: FullBlockData;
+  blockMeta?: FullBlockMetaData;
+  transactionStatus?: FullTransactionStatusData;
   pong?: { id: number };
+  filters?: string[]; // Names of the subscription filters this update matched
   receivedTimestamp?: number; // When client received this data from gRPC
 }
 
@@ -131,6 +531,265 @@ export interface TransactionEvent {
   data: FullTransactionData; // Complete gRPC transaction object
   source: string;           // Which endpoint received this transaction
   timestamp: number;        // When the transaction was received
+  subscriptions: string[];  // Named subscriptions whose filters matched on the `source` endpoint (empty for the base subscription)
+  confirmedBy?: string[];   // Quorum mode: endpoints that reported the transaction, in report order
+  decoded?: DecodedTransaction; // Normalized view, set when `decodeTransactions` is enabled
+  parsedInstructions?: ParsedInstruction[]; // With `instructionDecoders`: every recognised instruction, inner ones included, in execution order
+}
+
+/**
+ * Normalized view of a transaction update
+ *
+ * Built when `decodeTransactions` is enabled. Account indexes are resolved
+ * to base58 pubkeys, including addresses loaded from address lookup tables,
+ * and u64 amounts are decimal strings.
+ */
+export interface DecodedTransaction {
+  signature: string;            // Base58 encoded transaction signature
+  slot: number;                 // Slot the transaction was processed in
+  version: 'legacy' | 0;        // Message version
+  success: boolean;             // False when execution failed (fees are still paid)
+  fee: string;                  // Fee in lamports
+  computeUnitsConsumed: number | null; // null when the validator did not report it
+  recentBlockhash: string;      // Base58 encoded blockhash
+  accountKeys: TransactionAccountKey[]; // In index order: static keys, then loaded writable, then loaded readonly
+  instructions: DecodedInstruction[];   // Top-level instructions, each with its inner instructions
+  logMessages: string[];        // Program logs, empty when the validator sent none
+  solBalanceChanges: SolBalanceChange[];     // Accounts whose lamports changed
+  tokenBalanceChanges: TokenBalanceChange[]; // Owners whose amount of a mint changed
+}
+
+/**
+ * Account referenced by a transaction
+ */
+export interface TransactionAccountKey {
+  pubkey: string;               // Base58 encoded address
+  signer: boolean;              // Signed the transaction
+  writable: boolean;            // Writable by the transaction
+  source: 'static' | 'lookup';  // In the message itself or loaded from an address lookup table
+}
+
+/**
+ * Instruction with its program and accounts resolved to pubkeys
+ */
+export interface DecodedInstruction {
+  programId: string;            // Base58 encoded program id
+  accounts: string[];           // Base58 encoded accounts, in instruction order
+  data: Buffer;                 // Raw instruction data
+  stackHeight: number;          // 1 for top-level instructions, 2+ for inner instructions
+  innerInstructions: DecodedInstruction[]; // Instructions invoked by a top-level instruction, in execution order (always empty for inner instructions)
+  parsed?: ParsedInstruction;   // Set when a registered decoder recognised the instruction
+}
+
+/**
+ * Lamport balance change of one account
+ */
+export interface SolBalanceChange {
+  account: string;              // Base58 encoded address
+  pre: string;                  // Lamports before the transaction
+  post: string;                 // Lamports after the transaction
+  change: string;               // post - pre, negative for decreases
+}
+
+/**
+ * Net balance change of one owner in one mint
+ *
+ * Summed over the owner's token accounts in the transaction. Amounts are raw
+ * token units; divide by 10^decimals for UI amounts. Token accounts opened or
+ * closed by the transaction count as 0 on the missing side.
+ */
+export interface TokenBalanceChange {
+  owner: string;                // Base58 encoded wallet owning the token accounts
+  mint: string;                 // Base58 encoded mint
+  accounts: string[];           // Base58 encoded token accounts summed, in index order
+  programId: string;            // Token program (SPL Token or Token-2022)
+  decimals: number;             // Mint decimals
+  pre: string;                  // Raw amount before the transaction
+  post: string;                 // Raw amount after the transaction
+  change: string;               // post - pre, negative for decreases
+}
+
+/**
+ * Instruction data decoded by an InstructionDecoder
+ *
+ * u64 and larger integers are decimal strings, pubkeys base58.
+ */
+export interface ParsedInstruction {
+  programId: string;                 // Base58 encoded program id
+  program: string;                   // Decoder's program name, e.g. 'spl-token'
+  type: string;                      // Instruction name, e.g. 'transferChecked'
+  accounts: Record<string, string>;  // Accounts by role, e.g. { source, destination, authority }
+  args: Record<string, unknown>;     // Decoded instruction arguments
+}
+
+/**
+ * Decoder for the instructions of one program
+ */
+export interface InstructionDecoder {
+  /** Base58 program id whose instructions this decoder handles */
+  programId: string;
+
+  /** Program name reported as ParsedInstruction.program */
+  program: string;
+
+  /**
+   * Decode one instruction
+   *
+   * @param data - Raw instruction data
+   * @param accounts - Instruction accounts as base58 pubkeys, in order
+   * @returns The decoded instruction, or null when it is not recognised
+   */
+  decode(data: Buffer, accounts: string[]): Pick<ParsedInstruction, 'type' | 'accounts' | 'args'> | null;
+}
+
+/**
+ * Anchor IDL, as produced by `anchor build`
+ *
+ * Both the current format (Anchor 0.30+, with `address` and instruction
+ * discriminators) and the legacy format (camelCase names, `publicKey`,
+ * discriminators derived from the instruction name) are accepted. Only the
+ * parts needed to decode instructions are typed.
+ */
+export interface AnchorIdl {
+  address?: string;
+  name?: string;
+  metadata?: { name?: string; address?: string; [key: string]: unknown };
+  instructions: AnchorIdlInstruction[];
+  types?: AnchorIdlTypeDef[];
+  [key: string]: unknown;
+}
+
+/**
+ * Instruction entry of an Anchor IDL
+ */
+export interface AnchorIdlInstruction {
+  name: string;
+  discriminator?: number[];
+  accounts: AnchorIdlAccountItem[];
+  args: AnchorIdlField[];
+  [key: string]: unknown;
+}
+
+/**
+ * Account of an Anchor instruction, or a group of accounts from a nested Accounts struct
+ */
+export interface AnchorIdlAccountItem {
+  name: string;
+  accounts?: AnchorIdlAccountItem[];
+  [key: string]: unknown;
+}
+
+/**
+ * Named field of an Anchor instruction or struct
+ */
+export interface AnchorIdlField {
+  name: string;
+  type: AnchorIdlType;
+}
+
+/**
+ * Borsh type of an Anchor field
+ */
+export type AnchorIdlType =
+  | string
+  | { vec: AnchorIdlType }
+  | { option: AnchorIdlType }
+  | { coption: AnchorIdlType }
+  | { array: [AnchorIdlType, number] }
+  | { defined: string | { name: string; generics?: unknown[] } };
+
+/**
+ * User-defined type of an Anchor IDL
+ */
+export interface AnchorIdlTypeDef {
+  name: string;
+  type:
+    | { kind: 'struct'; fields?: AnchorIdlField[] | AnchorIdlType[] }
+    | { kind: 'enum'; variants: { name: string; fields?: AnchorIdlField[] | AnchorIdlType[] }[] }
+    | { kind: 'type'; alias: AnchorIdlType };
+  generics?: unknown[];
+  [key: string]: unknown;
+}
+
+/**
+ * Account event data emitted when a unique account update is received
+ *
+ * Account updates are deduplicated across endpoints by (pubkey, slot, writeVersion).
+ */
+export interface AccountEvent {
+  pubkey: string;           // Base58 encoded account address
+  owner: string;            // Base58 encoded owner program id
+  lamports: string;         // Account balance in lamports (u64 as decimal string)
+  data: Buffer;             // Raw account data
+  executable: boolean;      // Whether the account is an executable program
+  writeVersion: string;     // Validator write version (u64 as decimal string)
+  slot: number;             // Slot in which the account was updated
+  txnSignature?: string;    // Base58 signature of the transaction that caused the update
+  isStartup: boolean;       // True for the initial snapshot sent at subscription start
+  source: string;           // Which endpoint received this update
+  timestamp: number;        // When the update was received
+}
+
+/**
+ * Slot event data emitted when a unique slot status update is received
+ *
+ * Slot updates are deduplicated across endpoints by (slot, status).
+ */
+export interface SlotEvent {
+  slot: number;             // Slot number
+  parent?: number;          // Parent slot, when reported
+  status: SlotStatus;       // Slot status this update reports
+  deadError?: string;       // Reason when status is 'dead'
+  source: string;           // Which endpoint received this update
+  timestamp: number;        // When the update was received
+}
+
+/**
+ * Block meta event data emitted when a unique block meta update is received
+ *
+ * Block meta updates are deduplicated across endpoints by blockhash.
+ */
+export interface BlockMetaEvent {
+  slot: number;             // Slot of the block
+  blockhash: string;        // Base58 block hash
+  parentSlot: number;       // Slot of the parent block
+  parentBlockhash: string;  // Base58 hash of the parent block
+  blockHeight?: number;     // Block height, when reported
+  blockTime?: number;       // Unix timestamp (seconds) of the block, when reported
+  executedTransactionCount: number; // Number of transactions executed in the block
+  data: FullBlockMetaData;  // Complete gRPC block meta object
+  source: string;           // Which endpoint received this update
+  timestamp: number;        // When the update was received
+}
+
+/**
+ * Block event data emitted when a unique block update is received
+ *
+ * Block updates are deduplicated across endpoints by blockhash.
+ */
+export interface BlockEvent extends Omit<BlockMetaEvent, 'data'> {
+  data: FullBlockData;      // Complete gRPC block object including transactions
+}
+
+/**
+ * Lifecycle status of a tracked transaction
+ */
+export type TransactionLifecycleStatus = CommitmentLevel | 'dropped';
+
+/**
+ * Transaction status event emitted when a tracked signature changes status
+ *
+ * Only emitted when `trackTransactionStatus` is enabled.
+ */
+export interface TransactionStatusEvent {
+  signature: string;                 // Base58 encoded transaction signature
+  slot: number;                      // Slot the transaction landed in
+  status: TransactionLifecycleStatus; // New status
+  previousStatus?: TransactionLifecycleStatus; // Status before this transition, if any
+  reason?: 'dead' | 'orphaned';      // Why the transaction was dropped
+  err?: unknown;                     // Transaction error, if the transaction failed
+  source: string;                    // Endpoint whose update caused this transition
+  timestamp: number;                 // When the transition was observed
 }
 
 /**
@@ -142,15 +801,217 @@ export interface DuplicateEvent {
   timestamp: number;  // When the duplicate was detected
 }
 
+/**
+ * Delivery race statistics for one endpoint
+ *
+ * Lag percentiles cover the most recent deliveries, with wins counted as 0ms.
+ */
+export interface EndpointLatencyStats {
+  clientId: string;        // Unique client instance id
+  endpoint: string;        // Endpoint URL
+  races: number;           // Unique signatures seen by the pool while this endpoint was connected
+  wins: number;            // Signatures this endpoint delivered first
+  winRate: number;         // wins / races (0 to 1)
+  missed: number;          // Signatures this endpoint never delivered within the latency window
+  lagP50Ms: number | null; // Median lag behind the winner (null until the first delivery)
+  lagP90Ms: number | null; // 90th percentile lag behind the winner
+  lagP99Ms: number | null; // 99th percentile lag behind the winner
+}
+
+/**
+ * Periodic latency report event data
+ */
+export interface LatencyReportEvent {
+  endpoints: EndpointLatencyStats[]; // Statistics since the pool was created
+  timestamp: number;                 // When the report was generated
+}
+
+/**
+ * Health metrics for one endpoint
+ */
+export interface EndpointMetrics {
+  clientId: string;               // Unique client instance id
+  endpoint: string;               // Endpoint URL
+  connected: boolean;             // Whether the stream is currently connected
+  messagesReceived: number;       // Updates received, including duplicates but not the slot heartbeat
+  duplicates: number;             // Updates filtered as duplicates
+  reconnects: number;             // Successful reconnections
+  staleReconnects: number;        // Reconnections forced by stale detection
+  retryAttempts: number;          // Consecutive failed connection attempts
+  timeSinceLastMessageMs: number; // Time since the endpoint last delivered data
+  pingRttMs: number | null;       // Most recent ping round trip (null without pongs)
+  healthScore: number;            // 0 (unusable) to 100 (flawless) over healthWindowMs
+  quarantined: boolean;           // Whether the endpoint is quarantined
+}
+
+/**
+ * Snapshot of pool health metrics, as returned by pool.getMetrics()
+ */
+export interface PoolMetrics {
+  endpoints: EndpointMetrics[];
+  deduplication: {
+    size: number;      // Entries currently cached
+    maxSize: number;   // Cache capacity
+    evictions: number; // Entries evicted to make room before their TTL expired
+    estimatedBytes?: number; // Approximate memory held by the cache, if the store tracks it
+  };
+  quorum?: QuorumStats; // Quorum mode only
+  timestamp: number;   // When the snapshot was taken
+}
+
+/**
+ * Quorum confirmation statistics, as returned by pool.getQuorumStats()
+ */
+export interface QuorumStats {
+  quorum: number;    // Distinct endpoints required per transaction
+  pending: number;   // Transactions waiting for more endpoints
+  confirmed: number; // Transactions that reached the quorum
+  expired: number;   // Transactions dropped for not reaching the quorum within the window
+}
+
+/**
+ * Why a backup endpoint was promoted in primary-backup mode
+ *
+ * - disconnected: the active endpoint stayed disconnected for promotionWindowMs
+ * - stale: the active endpoint stopped delivering data
+ * - removed: the active endpoint was removed from the pool
+ * - unavailable: the primary could not be reached when the pool connected
+ */
+export type FailoverReason = 'disconnected' | 'stale' | 'removed' | 'unavailable';
+
+/**
+ * Failover event data emitted when a backup endpoint takes over in primary-backup mode
+ */
+export interface FailoverEvent {
+  fromClientId: string;   // Endpoint that was active
+  fromEndpoint: string;
+  toClientId: string;     // Endpoint that is now active
+  toEndpoint: string;
+  reason: FailoverReason;
+  timestamp: number;      // When the promotion happened
+}
+
+/**
+ * Why slots were missed during an outage
+ *
+ * - replay-disabled: replayOnReconnect is off, so nothing was replayed
+ * - replay-unavailable: the provider could not replay back to the last slot
+ */
+export type GapReason = 'replay-disabled' | 'replay-unavailable';
+
+/**
+ * Gap event data emitted when slots were missed while every endpoint was down,
+ * or while a backup was being promoted
+ */
+export interface GapEvent {
+  fromSlot: number;   // First missed slot
+  toSlot: number;     // Last missed slot
+  clientId: string;   // Endpoint whose data revealed the gap
+  endpoint: string;   // Endpoint URL
+  reason: GapReason;  // Why the range was not replayed
+  timestamp: number;  // When the gap was detected
+}
+
+/**
+ * Per-endpoint status, as returned by pool.getStatus()
+ */
+export interface EndpointStatus {
+  clientId: string;
+  endpoint: string;
+  connected: boolean;
+  timeSinceLastMessage?: number; // Only while connected
+  lastSlot?: number;             // Highest slot seen from this endpoint
+  slotLag?: number;              // Slots behind the pool's most advanced endpoint, while connected
+  pingRttMs?: number;            // Most recent ping round trip (endpoints with ping enabled)
+  pingRttAvgMs?: number;         // Average of recent ping round trips
+  healthScore: number;           // 0 (unusable) to 100 (flawless) over healthWindowMs
+  health: EndpointHealthState;   // Quarantine circuit breaker state
+  failureReason?: EndpointFailureReason; // Set while the endpoint is given up as failed
+  role?: 'active' | 'backup';    // primary-backup mode only
+}
+
+/**
+ * Why an endpoint was judged stale
+ *
+ * - no-data: no updates, including the slot heartbeat, for staleTimeoutMs
+ * - no-pong: a ping went unanswered for pongTimeoutMs
+ * - slot-lag: the endpoint fell more than maxSlotLag slots behind the pool
+ */
+export type StaleReason = 'no-data' | 'no-pong' | 'slot-lag';
+
+/**
+ * Stale event data emitted before a stale endpoint is reconnected
+ */
+export interface StaleEvent {
+  clientId: string;
+  endpoint: string;
+  reason: StaleReason;
+  timeSinceLastMessageMs: number; // Time since the endpoint last delivered data
+  slotLag?: number;               // Slots behind the pool, when known
+  timestamp: number;              // When the endpoint was judged stale
+}
+
+/**
+ * Circuit breaker state of an endpoint
+ *
+ * - healthy: in normal use
+ * - quarantined: disconnected after its health score fell below the threshold
+ * - probing: reconnected on trial after a quarantine
+ */
+export type EndpointHealthState = 'healthy' | 'quarantined' | 'probing';
+
+/**
+ * Kind of error an endpoint reported, derived from its gRPC status code
+ *
+ * - auth: the token was rejected (UNAUTHENTICATED, PERMISSION_DENIED); not retried
+ * - rate-limited: the provider is throttling us (RESOURCE_EXHAUSTED); retried with a longer backoff
+ * - unavailable: the endpoint is down or unreachable (UNAVAILABLE)
+ * - deadline: a call timed out (DEADLINE_EXCEEDED)
+ * - invalid-filter: the provider rejected the subscription request (INVALID_ARGUMENT); not retried
+ * - stream-reset: the stream was torn down mid-flight (CANCELLED, ABORTED, INTERNAL, UNKNOWN, DATA_LOSS)
+ * - unknown: any other code, or an error without one
+ */
+export type EndpointErrorCategory =
+  | 'auth'
+  | 'rate-limited'
+  | 'unavailable'
+  | 'deadline'
+  | 'invalid-filter'
+  | 'stream-reset'
+  | 'unknown';
+
+/**
+ * Why a client stopped retrying its endpoint
+ *
+ * - auth: the endpoint rejected the token (UNAUTHENTICATED or PERMISSION_DENIED)
+ * - invalid-filter: the endpoint rejected the subscription request (INVALID_ARGUMENT)
+ * - max-attempts: maxRetryAttempts consecutive connection attempts failed
+ * - max-downtime: the endpoint stayed down for longer than maxDowntimeMs
+ */
+export type EndpointFailureReason = 'auth' | 'invalid-filter' | 'max-attempts' | 'max-downtime';
+
+/**
+ * Details of a client giving up on its endpoint
+ */
+export interface EndpointFailure {
+  reason: EndpointFailureReason;
+  attempts: number;   // Consecutive failed connection attempts
+  downtimeMs: number; // How long the endpoint had been down
+  error?: EndpointError; // Last connection or stream error
+}
+
 /**
  * Endpoint connection event data for monitoring individual endpoint status
  */
 export interface EndpointEvent {
   clientId: string;   // Unique client instance id
   endpoint: string;   // Endpoint URL (e.g., "grpc.solanatracker.io") 
-  status: 'connected' | 'disconnected' | 'reconnected'; // Connection status
+  status: 'connected' | 'disconnected' | 'reconnected' | 'added' | 'removed' | 'quarantined' | 'probing' | 'failed'; // Connection status
   timestamp: number;  // When the status change occurred
   details?: string;   // Optional additional information (e.g., error message)
+  pingRttMs?: number; // Last known ping round trip, for endpoints with ping enabled
+  healthScore?: number; // Health score (0-100), on quarantined and probing events
+  failureReason?: EndpointFailureReason; // Why retries stopped, on failed events
 }
 
  
\ No newline at end of file